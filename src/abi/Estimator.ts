@@ -0,0 +1,430 @@
+// Estimator contract ABI
+// Declared as const so viem can infer function names, arguments and return types
+export const EstimatorABI = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "_activator",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_evvmAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_addressStaking",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_admin",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptActivatorProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptAddressStakingProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptAdminProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptEvvmAddressProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelActivatorProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelAddressStakingProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelAdminProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelEvvmAddressProposal",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getActivatorMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Estimator.AddressTypeProposal",
+        components: [
+          {
+            name: "actual",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "proposal",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getActualEpochInFormat",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getActualEpochInUint",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAddressStakingMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Estimator.AddressTypeProposal",
+        components: [
+          {
+            name: "actual",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "proposal",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAdminMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Estimator.AddressTypeProposal",
+        components: [
+          {
+            name: "actual",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "proposal",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEpochMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Estimator.EpochMetadata",
+        components: [
+          {
+            name: "tokenPool",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "totalPool",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "totalStaked",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "tFinal",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "tStart",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEvvmAddressMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Estimator.AddressTypeProposal",
+        components: [
+          {
+            name: "actual",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "proposal",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "makeEstimation",
+    inputs: [
+      {
+        name: "_user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "epochAnswer",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "tokenAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "amountTotalToBeRewarded",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "idToOverwrite",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "timestampToOverwrite",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "notifyNewEpoch",
+    inputs: [
+      {
+        name: "tokenPool",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "totalPool",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "totalStaked",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "tStart",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setActivatorProposal",
+    inputs: [
+      {
+        name: "_proposal",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setAddressStakingProposal",
+    inputs: [
+      {
+        name: "_proposal",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setAdminProposal",
+    inputs: [
+      {
+        name: "_proposal",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "setEvvmAddressProposal",
+    inputs: [
+      {
+        name: "_proposal",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "simulteEstimation",
+    inputs: [
+      {
+        name: "_user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "epochAnswer",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "tokenAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "amountTotalToBeRewarded",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "idToOverwrite",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "timestampToOverwrite",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+] as const;
@@ -0,0 +1,1248 @@
+// NameService contract ABI
+// Declared as const so viem can infer function names, arguments and return types
+export const NameServiceABI = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "_evvmAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_initialOwner",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptChangeEvvmAddress",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptOffer",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "offerID",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptProposeAdmin",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "addCustomMetadata",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "identity",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "value",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelChangeEvvmAddress",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelProposeAdmin",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelWithdrawPrincipalTokens",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "checkIfNameServiceNonceIsAvailable",
+    inputs: [
+      {
+        name: "_user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "claimWithdrawPrincipalTokens",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "flushCustomMetadata",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "identity",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "flushUsername",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getAdmin",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAdminFullDetails",
+    inputs: [],
+    outputs: [
+      {
+        name: "currentAdmin",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "proposalAdmin",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "timeToAcceptAdmin",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAmountOfCustomMetadata",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getCustomMetadataMaxSlotsOfIdentity",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEvvmAddress",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEvvmAddressFullDetails",
+    inputs: [],
+    outputs: [
+      {
+        name: "currentEvvmAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "proposalEvvmAddress",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "timeToAcceptEvvmAddress",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getExpireDateOfIdentity",
+    inputs: [
+      {
+        name: "_identity",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getFullCustomMetadataOfIdentity",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "string[]",
+        internalType: "string[]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getIdentityBasicMetadata",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getLengthOfOffersUsername",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "length",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getOffersOfUsername",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "offers",
+        type: "tuple[]",
+        internalType: "struct NameService.OfferMetadata[]",
+        components: [
+          {
+            name: "offerer",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "expireDate",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "amount",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getOwnerOfIdentity",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriceOfRegistration",
+    inputs: [
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriceToAddCustomMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "price",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriceToFlushCustomMetadata",
+    inputs: [
+      {
+        name: "_identity",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "price",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriceToFlushUsername",
+    inputs: [
+      {
+        name: "_identity",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "price",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPriceToRemoveCustomMetadata",
+    inputs: [],
+    outputs: [
+      {
+        name: "price",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getProposedWithdrawAmountFullDetails",
+    inputs: [],
+    outputs: [
+      {
+        name: "proposalAmountToWithdrawTokens",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "timeToAcceptAmountToWithdrawTokens",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSingleCustomMetadataOfIdentity",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "_key",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSingleOfferOfUsername",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "_offerID",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "offer",
+        type: "tuple",
+        internalType: "struct NameService.OfferMetadata",
+        components: [
+          {
+            name: "offerer",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "expireDate",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "amount",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "hashUsername",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "_randomNumber",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "isUsernameAvailable",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "makeOffer",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "expireDate",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [
+      {
+        name: "offerID",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "preRegistrationUsername",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "hashPreRegisteredUsername",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeAdmin",
+    inputs: [
+      {
+        name: "_adminToPropose",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeChangeEvvmAddress",
+    inputs: [
+      {
+        name: "_newEvvmAddress",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeWithdrawPrincipalTokens",
+    inputs: [
+      {
+        name: "_amount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "registrationUsername",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "clowNumber",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "removeCustomMetadata",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "identity",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "key",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "renewUsername",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "seePriceToRenew",
+    inputs: [
+      {
+        name: "_identity",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "price",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "strictVerifyIfIdentityExist",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "verifyIfIdentityExists",
+    inputs: [
+      {
+        name: "_identity",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "verifyStrictAndGetOwnerOfIdentity",
+    inputs: [
+      {
+        name: "_username",
+        type: "string",
+        internalType: "string",
+      },
+    ],
+    outputs: [
+      {
+        name: "answer",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "withdrawOffer",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "username",
+        type: "string",
+        internalType: "string",
+      },
+      {
+        name: "offerID",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "error",
+    name: "AcceptOfferVerificationFailed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "EmptyCustomMetadata",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "FlushUsernameVerificationFailed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidKey",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidSignatureOnNameService",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidUsername",
+    inputs: [
+      {
+        name: "",
+        type: "bytes1",
+        internalType: "bytes1",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "NonceAlreadyUsed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "PreRegistrationNotValid",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "RenewUsernameVerificationFailed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "SenderIsNotAdmin",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "UserIsNotOwnerOfIdentity",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "UserIsNotOwnerOfOffer",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "UsernameAlreadyRegistered",
+    inputs: [],
+  },
+] as const;
@@ -0,0 +1,912 @@
+// Staking contract ABI
+// Declared as const so viem can infer function names, arguments and return types
+export const StakingABI = [
+  {
+    type: "constructor",
+    inputs: [
+      {
+        name: "initialAdmin",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "initialGoldenFisher",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "_setupEstimatorAndEvvm",
+    inputs: [
+      {
+        name: "_estimator",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_evvm",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptNewAdmin",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptNewEstimator",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptNewGoldenFisher",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "acceptSetSecondsToUnlockStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "addPresaleStaker",
+    inputs: [
+      {
+        name: "_staker",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "addPresaleStakers",
+    inputs: [
+      {
+        name: "_stakers",
+        type: "address[]",
+        internalType: "address[]",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelChangeAllowPresaleStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelChangeAllowPublicStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelSetSecondsToUnllockFullUnstaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "checkIfStakeNonceUsed",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "confirmChangeAllowPresaleStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "confirmChangeAllowPublicStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "confirmServiceStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "confirmSetSecondsToUnllockFullUnstaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getAddressHistory",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple[]",
+        internalType: "struct Staking.HistoryMetadata[]",
+        components: [
+          {
+            name: "transactionType",
+            type: "bytes32",
+            internalType: "bytes32",
+          },
+          {
+            name: "amount",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "timestamp",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "totalStaked",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAddressHistoryByIndex",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "_index",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Staking.HistoryMetadata",
+        components: [
+          {
+            name: "transactionType",
+            type: "bytes32",
+            internalType: "bytes32",
+          },
+          {
+            name: "amount",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "timestamp",
+            type: "uint256",
+            internalType: "uint256",
+          },
+          {
+            name: "totalStaked",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAllDataOfAllowPublicStaking",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Staking.BoolTypeProposal",
+        components: [
+          {
+            name: "flag",
+            type: "bool",
+            internalType: "bool",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getAllowPresaleStaking",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct Staking.BoolTypeProposal",
+        components: [
+          {
+            name: "flag",
+            type: "bool",
+            internalType: "bool",
+          },
+          {
+            name: "timeToAccept",
+            type: "uint256",
+            internalType: "uint256",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEstimatorAddress",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEstimatorProposal",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEvvmAddress",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getGoldenFisher",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getGoldenFisherProposal",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getMateAddress",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "getOwner",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPresaleStaker",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPresaleStakerCount",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSecondsToUnlockFullUnstaking",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSecondsToUnlockStaking",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSizeOfAddressHistory",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getTimeToUserUnlockFullUnstakingTime",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getTimeToUserUnlockStakingTime",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserAmountStaked",
+    inputs: [
+      {
+        name: "_account",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "gimmeYiel",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "epochAnswer",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "tokenToBeRewarded",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "amountTotalToBeRewarded",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "idToOverwriteUserHistory",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "timestampToBeOverwritten",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "goldenStaking",
+    inputs: [
+      {
+        name: "isStaking",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "amountOfStaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "prepareChangeAllowPresaleStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "prepareChangeAllowPublicStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "prepareServiceStaking",
+    inputs: [
+      {
+        name: "amountOfStaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "prepareSetSecondsToUnllockFullUnstaking",
+    inputs: [
+      {
+        name: "_secondsToUnllockFullUnstaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "presaleStaking",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "isStaking",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "priceOfStaking",
+    inputs: [],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "proposeAdmin",
+    inputs: [
+      {
+        name: "_newAdmin",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeEstimator",
+    inputs: [
+      {
+        name: "_estimator",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeGoldenFisher",
+    inputs: [
+      {
+        name: "_goldenFisher",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "proposeSetSecondsToUnlockStaking",
+    inputs: [
+      {
+        name: "_secondsToUnlockStaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "publicStaking",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "isStaking",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "amountOfStaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "signature",
+        type: "bytes",
+        internalType: "bytes",
+      },
+      {
+        name: "priorityFee_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "nonce_EVVM",
+        type: "uint256",
+        internalType: "uint256",
+      },
+      {
+        name: "priorityFlag_EVVM",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "signature_EVVM",
+        type: "bytes",
+        internalType: "bytes",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "rejectProposalAdmin",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "rejectProposalEstimator",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "rejectProposalGoldenFisher",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "rejectProposalSetSecondsToUnlockStaking",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "serviceUnstaking",
+    inputs: [
+      {
+        name: "amountOfStaking",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "error",
+    name: "AddressIsNotAService",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AddressMismatch",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AddressMustWaitToFullUnstake",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "AddressMustWaitToStakeAgain",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "InvalidSignatureOnStaking",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "PresaleStakingDisabled",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "SenderIsNotAdmin",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "SenderIsNotGoldenFisher",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "ServiceDoesNotFulfillCorrectStakingAmount",
+    inputs: [
+      {
+        name: "requiredAmount",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+  },
+  {
+    type: "error",
+    name: "ServiceDoesNotStakeInSameTx",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "StakingNonceAlreadyUsed",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "UserIsNotPresaleStaker",
+    inputs: [],
+  },
+  {
+    type: "error",
+    name: "UserPresaleStakerLimitExceeded",
+    inputs: [],
+  },
+] as const;
@@ -1,16 +1,10 @@
 // EVVM Smart Contract ABIs
-import EstimatorABIFile from './Estimator.json';
-import EvvmABIFile from './Evvm.json';
-import NameServiceABIFile from './NameService.json';
-import P2PSwapABIFile from './P2PSwap.json';
-import StakingABIFile from './Staking.json';
-
-// Extract ABIs from JSON files
-const EstimatorABI = EstimatorABIFile.abi;
-const EvvmABI = EvvmABIFile.abi;
-const NameServiceABI = NameServiceABIFile.abi;
-const P2PSwapABI = P2PSwapABIFile.abi;
-const StakingABI = StakingABIFile.abi;
+// Each ABI is a literal `as const` module so viem infers contract call types
+import { EstimatorABI } from './Estimator';
+import { EvvmABI } from './Evvm';
+import { NameServiceABI } from './NameService';
+import { P2PSwapABI } from './P2PSwap';
+import { StakingABI } from './Staking';
 
 // Export the ABIs
 export {
@@ -28,7 +22,7 @@ export default {
   NameService: NameServiceABI,
   P2PSwap: P2PSwapABI,
   Staking: StakingABI
-};
+} as const;
 
 // Individual ABI exports for convenience
 export const EVVM_ABIS = {
@@ -0,0 +1,211 @@
+import { isAddressEqual, PublicClient } from "viem";
+import { EvvmABI } from "../abi";
+import { EvvmMetadata } from "../types";
+
+/**
+ * Deployment values a signature depends on.
+ */
+export type DeploymentField = "evvmID" | "nameServiceAddress" | "stakingAddress";
+
+export type DeploymentService = "nameService" | "staking";
+
+export type DeploymentGuardConfig = {
+  evvmAddress: `0x${string}`;
+  // Needed unless the guard is offline
+  publicClient?: PublicClient;
+  // Expected values, compared with the chain when given
+  evvmID?: bigint;
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+  // Skips the chain reads and trusts the configured values, evvmID becomes required
+  offline?: boolean;
+};
+
+export type DeploymentContext = {
+  evvmID: bigint;
+  // undefined for an offline guard
+  metadata?: EvvmMetadata;
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+};
+
+/**
+ * Error thrown when a value disagrees with the deployment.
+ */
+export class DeploymentMismatchError extends Error {
+  constructor(
+    public readonly field: DeploymentField,
+    public readonly expected: string,
+    public readonly actual: string,
+  ) {
+    super(
+      `Deployment mismatch on ${field}: the deployment has ${expected}, got ${actual}`,
+    );
+    this.name = "DeploymentMismatchError";
+  }
+}
+
+const SERVICE_FIELDS: Record<
+  DeploymentService,
+  "nameServiceAddress" | "stakingAddress"
+> = {
+  nameService: "nameServiceAddress",
+  staking: "stakingAddress",
+};
+
+/**
+ * Deployment Guard
+ *
+ * Reads `getEvvmID`, `getEvvmMetadata`, `getNameServiceAddress` and
+ * `getStakingContractAddress` once and checks the configured values against
+ * them. Builders given a guard with `useDeploymentGuard()` refuse to sign
+ * messages for another evvmID or service address, since those signatures would
+ * never verify on the deployment. An offline guard checks against the
+ * configured values instead of the chain.
+ */
+export class DeploymentGuard {
+  private context?: Promise<DeploymentContext>;
+
+  constructor(private readonly config: DeploymentGuardConfig) {
+    if (config.offline && config.evvmID === undefined) {
+      throw new Error("An offline DeploymentGuard needs the evvmID");
+    }
+    if (!config.offline && !config.publicClient) {
+      throw new Error("DeploymentGuard needs a public client unless it is offline");
+    }
+  }
+
+  /**
+   * Whether the guard trusts the configured values instead of the chain.
+   */
+  get offline(): boolean {
+    return this.config.offline === true;
+  }
+
+  /**
+   * Reads the deployment once and checks the configured values against it.
+   * Failed reads are not cached.
+   * @returns Promise resolving to the deployment context
+   * @throws DeploymentMismatchError if a configured value disagrees with the chain
+   */
+  async load(): Promise<DeploymentContext> {
+    if (!this.context) {
+      this.context = this.read().catch((error) => {
+        this.context = undefined;
+        throw error;
+      });
+    }
+    const context = await this.context;
+
+    const { evvmID, nameServiceAddress, stakingAddress } = this.config;
+    if (evvmID !== undefined) this.checkEvvmID(context, evvmID);
+    if (nameServiceAddress) {
+      this.checkService(context, "nameService", nameServiceAddress);
+    }
+    if (stakingAddress) this.checkService(context, "staking", stakingAddress);
+
+    return context;
+  }
+
+  /**
+   * Drops the cached deployment, the next check reads it again.
+   */
+  refresh(): void {
+    this.context = undefined;
+  }
+
+  /**
+   * Checks an evvmID against the deployment.
+   * @param evvmID EVVM ID about to be signed
+   * @throws DeploymentMismatchError if it differs
+   */
+  async assertEvvmID(evvmID: bigint): Promise<void> {
+    this.checkEvvmID(await this.load(), evvmID);
+  }
+
+  /**
+   * Checks a service address against the deployment.
+   * Offline guards without a configured address accept any address.
+   * @param service Service the address belongs to
+   * @param address Address about to be signed
+   * @throws DeploymentMismatchError if it differs
+   */
+  async assertServiceAddress(
+    service: DeploymentService,
+    address: `0x${string}`,
+  ): Promise<void> {
+    this.checkService(await this.load(), service, address);
+  }
+
+  /**
+   * Checks the evvmID of an "<evvmID>,<functionName>,<inputs>" message.
+   * Messages without an evvmID prefix (fisher bridge) are let through.
+   * @param message Message about to be signed
+   * @throws DeploymentMismatchError if the evvmID differs
+   */
+  async assertMessage(message: string): Promise<void> {
+    const prefix = /^(\d+),/.exec(message);
+    if (prefix) await this.assertEvvmID(BigInt(prefix[1]));
+  }
+
+  private async read(): Promise<DeploymentContext> {
+    const { publicClient, evvmAddress, offline } = this.config;
+
+    if (offline || !publicClient) {
+      return {
+        evvmID: this.config.evvmID!,
+        nameServiceAddress: this.config.nameServiceAddress,
+        stakingAddress: this.config.stakingAddress,
+      };
+    }
+
+    const [evvmID, metadata, nameServiceAddress, stakingAddress] =
+      await Promise.all([
+        publicClient.readContract({
+          address: evvmAddress,
+          abi: EvvmABI,
+          functionName: "getEvvmID",
+        }),
+        publicClient.readContract({
+          address: evvmAddress,
+          abi: EvvmABI,
+          functionName: "getEvvmMetadata",
+        }),
+        publicClient.readContract({
+          address: evvmAddress,
+          abi: EvvmABI,
+          functionName: "getNameServiceAddress",
+        }),
+        publicClient.readContract({
+          address: evvmAddress,
+          abi: EvvmABI,
+          functionName: "getStakingContractAddress",
+        }),
+      ]);
+
+    return { evvmID, metadata, nameServiceAddress, stakingAddress };
+  }
+
+  private checkEvvmID(context: DeploymentContext, evvmID: bigint): void {
+    if (context.evvmID !== evvmID) {
+      throw new DeploymentMismatchError(
+        "evvmID",
+        context.evvmID.toString(),
+        evvmID.toString(),
+      );
+    }
+  }
+
+  private checkService(
+    context: DeploymentContext,
+    service: DeploymentService,
+    address: `0x${string}`,
+  ): void {
+    const field = SERVICE_FIELDS[service];
+    const expected = context[field];
+
+    if (expected && !isAddressEqual(expected, address)) {
+      throw new DeploymentMismatchError(field, expected, address);
+    }
+  }
+}
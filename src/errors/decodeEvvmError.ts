@@ -0,0 +1,408 @@
+/**
+ * decodeEvvmError
+ *
+ * Turns revert data from any EVVM contract into a typed EvvmContractError,
+ * using the custom errors declared in the bundled ABIs plus the standard
+ * `Error(string)` and `Panic(uint256)` reverts.
+ */
+import {
+  Abi,
+  AbiErrorSignatureNotFoundError,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+} from "viem";
+import {
+  EstimatorABI,
+  EvvmABI,
+  NameServiceABI,
+  P2PSwapABI,
+  StakingABI,
+} from "../abi";
+import {
+  EvvmBalanceError,
+  EvvmContractError,
+  EvvmContractName,
+  EvvmInputError,
+  EvvmNonceError,
+  EvvmPermissionError,
+  EvvmRevertError,
+  EvvmSignatureError,
+  EvvmStateError,
+  EvvmTimingError,
+  EvvmUnknownError,
+} from "./evvmErrors";
+
+type EvvmErrorClass = typeof EvvmContractError;
+
+type ErrorDefinition = {
+  kind: EvvmErrorClass;
+  explanation: string;
+  suggestion: string;
+  retryWithNewNonce: boolean;
+};
+
+const CONTRACT_ABIS: Record<EvvmContractName, Abi> = {
+  Evvm: EvvmABI,
+  NameService: NameServiceABI,
+  Staking: StakingABI,
+  P2PSwap: P2PSwapABI,
+  Estimator: EstimatorABI,
+};
+
+// Custom errors of every contract, deduplicated by name
+const ERRORS_ABI: Abi = Object.values(CONTRACT_ABIS)
+  .flat()
+  .filter(
+    (item, index, items) =>
+      item.type === "error" &&
+      items.findIndex(
+        (other) => other.type === "error" && other.name === item.name,
+      ) === index,
+  );
+
+// Explanations of the custom errors declared in the bundled ABIs
+const ERROR_DEFINITIONS: Record<string, ErrorDefinition> = {
+  // Evvm
+  InsufficientBalance: {
+    kind: EvvmBalanceError,
+    explanation:
+      "The sender does not hold enough of the token to cover the amount plus the priority fee.",
+    suggestion: "Top up the balance or lower the amount or the priority fee.",
+    retryWithNewNonce: false,
+  },
+  InvalidAmount: {
+    kind: EvvmBalanceError,
+    explanation: "The amount is not valid for this operation.",
+    suggestion: "Check the amount against the values reported in the error.",
+    retryWithNewNonce: false,
+  },
+  InvalidAsyncNonce: {
+    kind: EvvmNonceError,
+    explanation: "The async nonce was already used by this user.",
+    suggestion: "Sign again with an unused async nonce.",
+    retryWithNewNonce: true,
+  },
+  InvalidSignature: {
+    kind: EvvmSignatureError,
+    explanation:
+      "The signature does not match the payment. With a sync nonce this also happens when the nonce is no longer the next one.",
+    suggestion:
+      "Check the signed fields and the EVVM ID, and sign sync payments again with getNextCurrentSyncNonce.",
+    retryWithNewNonce: true,
+  },
+  NotAnCA: {
+    kind: EvvmPermissionError,
+    explanation: "Only contracts can call this function.",
+    suggestion: "Call it from a contract account, or use the signed pay functions.",
+    retryWithNewNonce: false,
+  },
+  SenderIsNotTheExecutor: {
+    kind: EvvmPermissionError,
+    explanation:
+      "The payment names an executor and the transaction was sent by another address.",
+    suggestion:
+      "Send it from the executor address, or sign with the zero address as executor so anyone can submit it.",
+    retryWithNewNonce: false,
+  },
+  SenderIsNotTreasury: {
+    kind: EvvmPermissionError,
+    explanation: "Only the treasury contract can call this function.",
+    suggestion: "Go through the treasury contract.",
+    retryWithNewNonce: false,
+  },
+  UpdateBalanceFailed: {
+    kind: EvvmStateError,
+    explanation: "The balance update of the operation failed.",
+    suggestion: "Check the balances involved and try again.",
+    retryWithNewNonce: false,
+  },
+  WindowToChangeEvvmIDExpired: {
+    kind: EvvmTimingError,
+    explanation: "The window to change the EVVM ID has closed.",
+    suggestion: "The EVVM ID can no longer be changed.",
+    retryWithNewNonce: false,
+  },
+
+  // NameService
+  AcceptOfferVerificationFailed: {
+    kind: EvvmStateError,
+    explanation:
+      "The offer cannot be accepted: the user does not own the username, or the offer does not exist or expired.",
+    suggestion: "Check the username owner and the offer with getSingleOfferOfUsername.",
+    retryWithNewNonce: false,
+  },
+  EmptyCustomMetadata: {
+    kind: EvvmInputError,
+    explanation: "Custom metadata values cannot be empty.",
+    suggestion: "Provide a non-empty value.",
+    retryWithNewNonce: false,
+  },
+  FlushUsernameVerificationFailed: {
+    kind: EvvmStateError,
+    explanation:
+      "The username cannot be flushed: the user does not own it or it is not a registered username.",
+    suggestion: "Check the owner with getOwnerOfIdentity.",
+    retryWithNewNonce: false,
+  },
+  InvalidKey: {
+    kind: EvvmInputError,
+    explanation: "The custom metadata key does not exist for this identity.",
+    suggestion: "Use a key below getAmountOfCustomMetadata.",
+    retryWithNewNonce: false,
+  },
+  InvalidSignatureOnNameService: {
+    kind: EvvmSignatureError,
+    explanation: "The NameService signature does not match the action.",
+    suggestion: "Check the signed fields, the nonce and the EVVM ID, then sign again.",
+    retryWithNewNonce: false,
+  },
+  InvalidUsername: {
+    kind: EvvmInputError,
+    explanation:
+      "The username breaks the NameService rules: at least 4 characters, starting with a letter, letters and digits only.",
+    suggestion: "Pick a username that follows the rules (see validateUsernameFormat).",
+    retryWithNewNonce: false,
+  },
+  NonceAlreadyUsed: {
+    kind: EvvmNonceError,
+    explanation: "The NameService nonce was already used by this user.",
+    suggestion: "Sign again with an unused NameService nonce.",
+    retryWithNewNonce: true,
+  },
+  PreRegistrationNotValid: {
+    kind: EvvmStateError,
+    explanation:
+      "No usable pre-registration matches this username and clowNumber: it belongs to another user, or the waiting time has not passed.",
+    suggestion:
+      "Register with the clowNumber used in the pre-registration, at least 30 minutes after it.",
+    retryWithNewNonce: false,
+  },
+  RenewUsernameVerificationFailed: {
+    kind: EvvmStateError,
+    explanation:
+      "The username cannot be renewed: the user does not own it or it is renewed too far ahead.",
+    suggestion: "Check the owner and the expiration with getExpireDateOfIdentity.",
+    retryWithNewNonce: false,
+  },
+  SenderIsNotAdmin: {
+    kind: EvvmPermissionError,
+    explanation: "Only the contract admin can call this function.",
+    suggestion: "Send the transaction from the admin account.",
+    retryWithNewNonce: false,
+  },
+  UserIsNotOwnerOfIdentity: {
+    kind: EvvmPermissionError,
+    explanation: "The user does not own this identity.",
+    suggestion: "Sign with the owner account (see getOwnerOfIdentity).",
+    retryWithNewNonce: false,
+  },
+  UserIsNotOwnerOfOffer: {
+    kind: EvvmPermissionError,
+    explanation: "The user did not make this offer.",
+    suggestion: "Withdraw the offer from the account that made it.",
+    retryWithNewNonce: false,
+  },
+  UsernameAlreadyRegistered: {
+    kind: EvvmStateError,
+    explanation: "The username is already registered.",
+    suggestion: "Pick another username (see isUsernameAvailable).",
+    retryWithNewNonce: false,
+  },
+
+  // Staking
+  AddressIsNotAService: {
+    kind: EvvmPermissionError,
+    explanation: "Only service contracts can stake through this function.",
+    suggestion: "Use public or presale staking for user accounts.",
+    retryWithNewNonce: false,
+  },
+  AddressMismatch: {
+    kind: EvvmInputError,
+    explanation: "The address does not match the one the staking operation was prepared for.",
+    suggestion: "Confirm the service staking from the same service that prepared it.",
+    retryWithNewNonce: false,
+  },
+  AddressMustWaitToFullUnstake: {
+    kind: EvvmTimingError,
+    explanation: "The address must wait before unstaking everything.",
+    suggestion: "Try again later (see getTimeToUserUnlockFullUnstakingTime).",
+    retryWithNewNonce: false,
+  },
+  AddressMustWaitToStakeAgain: {
+    kind: EvvmTimingError,
+    explanation: "The address fully unstaked recently and must wait before staking again.",
+    suggestion: "Try again later (see getTimeToUserUnlockStakingTime).",
+    retryWithNewNonce: false,
+  },
+  InvalidSignatureOnStaking: {
+    kind: EvvmSignatureError,
+    explanation: "The staking signature does not match the action.",
+    suggestion: "Check the signed fields, the nonce and the EVVM ID, then sign again.",
+    retryWithNewNonce: false,
+  },
+  PresaleStakingDisabled: {
+    kind: EvvmStateError,
+    explanation: "Presale staking is disabled.",
+    suggestion: "Use public staking instead.",
+    retryWithNewNonce: false,
+  },
+  SenderIsNotGoldenFisher: {
+    kind: EvvmPermissionError,
+    explanation: "Only the golden fisher can call this function.",
+    suggestion: "Send the transaction from the golden fisher account.",
+    retryWithNewNonce: false,
+  },
+  ServiceDoesNotFulfillCorrectStakingAmount: {
+    kind: EvvmBalanceError,
+    explanation: "The service did not pay the required staking amount.",
+    suggestion: "Pay the requiredAmount reported in the error before confirming.",
+    retryWithNewNonce: false,
+  },
+  ServiceDoesNotStakeInSameTx: {
+    kind: EvvmStateError,
+    explanation:
+      "Service staking must be prepared, paid and confirmed in the same transaction.",
+    suggestion: "Run prepareServiceStaking, caPay and confirmServiceStaking in one call.",
+    retryWithNewNonce: false,
+  },
+  StakingNonceAlreadyUsed: {
+    kind: EvvmNonceError,
+    explanation: "The staking nonce was already used by this user.",
+    suggestion: "Sign again with an unused staking nonce.",
+    retryWithNewNonce: true,
+  },
+  UserIsNotPresaleStaker: {
+    kind: EvvmPermissionError,
+    explanation: "The user is not allowed to presale stake.",
+    suggestion: "Use public staking instead.",
+    retryWithNewNonce: false,
+  },
+  UserPresaleStakerLimitExceeded: {
+    kind: EvvmStateError,
+    explanation: "The user reached the presale staking limit.",
+    suggestion: "Use public staking for additional stakes.",
+    retryWithNewNonce: false,
+  },
+};
+
+/**
+ * Contracts whose ABI declares an error.
+ * @param errorName Custom error name
+ * @returns Contract names
+ */
+function contractsDeclaring(errorName: string): EvvmContractName[] {
+  return (Object.keys(CONTRACT_ABIS) as EvvmContractName[]).filter((contract) =>
+    CONTRACT_ABIS[contract].some(
+      (item) => item.type === "error" && item.name === errorName,
+    ),
+  );
+}
+
+/**
+ * Decodes EVVM contract revert data.
+ * Never throws: data matching no bundled error becomes an EvvmUnknownError.
+ * @param revertData Raw revert data (`0x` + selector + encoded arguments)
+ * @returns Typed error with explanation, suggestion and retry flag
+ */
+function decodeEvvmError(revertData: `0x${string}`): EvvmContractError {
+  let decoded;
+  try {
+    decoded = decodeErrorResult({ abi: ERRORS_ABI, data: revertData });
+  } catch (error) {
+    const reason =
+      error instanceof AbiErrorSignatureNotFoundError
+        ? `No EVVM contract declares the error ${revertData.slice(0, 10)}.`
+        : "The revert data could not be decoded.";
+    return new EvvmUnknownError(
+      "Unknown",
+      reason,
+      "Check the contract being called matches the bundled ABIs.",
+      false,
+      [],
+      [],
+      revertData,
+    );
+  }
+
+  const args = decoded.args ?? [];
+
+  if (decoded.errorName === "Error") {
+    const reason = String(args[0]);
+    return new EvvmRevertError(
+      "Error",
+      reason,
+      "Check the inputs against the contract requirements.",
+      // P2PSwap and Estimator reject reused nonces with revert strings
+      /nonce/i.test(reason),
+      args,
+      [],
+      revertData,
+    );
+  }
+
+  if (decoded.errorName === "Panic") {
+    return new EvvmRevertError(
+      "Panic",
+      `The contract panicked with code ${args[0]} (overflow, division by zero or out of bounds access).`,
+      "Check the amounts and indexes sent to the contract.",
+      false,
+      args,
+      [],
+      revertData,
+    );
+  }
+
+  const definition = ERROR_DEFINITIONS[decoded.errorName];
+  const contracts = contractsDeclaring(decoded.errorName);
+
+  if (!definition) {
+    return new EvvmContractError(
+      decoded.errorName,
+      `The contract reverted with ${decoded.errorName}.`,
+      "Check the contract documentation for this error.",
+      false,
+      args,
+      contracts,
+      revertData,
+    );
+  }
+
+  return new definition.kind(
+    decoded.errorName,
+    definition.explanation,
+    definition.suggestion,
+    definition.retryWithNewNonce,
+    args,
+    contracts,
+    revertData,
+  );
+}
+
+/**
+ * Finds the revert data in an error thrown by viem (simulateContract,
+ * writeContract, readContract...) and decodes it.
+ * @param error Error caught from a contract call
+ * @returns Typed error, or undefined if the error carries no revert data
+ */
+function toEvvmError(error: unknown): EvvmContractError | undefined {
+  if (error instanceof EvvmContractError) return error;
+  if (!(error instanceof BaseError)) return undefined;
+
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError,
+  ) as ContractFunctionRevertedError | null;
+
+  if (reverted?.raw) return decodeEvvmError(reverted.raw);
+  if (reverted?.reason) {
+    return new EvvmRevertError(
+      "Error",
+      reverted.reason,
+      "Check the inputs against the contract requirements.",
+      /nonce/i.test(reverted.reason),
+    );
+  }
+  return undefined;
+}
+
+export { decodeEvvmError, toEvvmError };
@@ -0,0 +1,83 @@
+/**
+ * EVVM contract error hierarchy
+ *
+ * Every decoded revert is an EvvmContractError; subclasses group the errors
+ * by what the caller can do about them, so UIs can branch on `instanceof`
+ * and show `explanation` / `suggestion` instead of a raw selector.
+ */
+
+export type EvvmContractName =
+  | "Evvm"
+  | "NameService"
+  | "Staking"
+  | "P2PSwap"
+  | "Estimator";
+
+/**
+ * Base class of decoded EVVM contract errors.
+ * `retryWithNewNonce` is true when signing again with a fresh nonce could succeed.
+ */
+export class EvvmContractError extends Error {
+  name = "EvvmContractError";
+
+  constructor(
+    // custom error name, "Error" for revert strings, "Panic" for panics
+    public readonly errorName: string,
+    public readonly explanation: string,
+    public readonly suggestion: string,
+    public readonly retryWithNewNonce: boolean,
+    // decoded error arguments
+    public readonly args: readonly unknown[] = [],
+    // contracts declaring the error, empty when unknown
+    public readonly contracts: readonly EvvmContractName[] = [],
+    // raw revert data
+    public readonly data?: `0x${string}`,
+  ) {
+    super(`${errorName}: ${explanation}`);
+  }
+}
+
+// Nonce already consumed or out of sequence
+export class EvvmNonceError extends EvvmContractError {
+  name = "EvvmNonceError";
+}
+
+// Signature does not match the signer or the signed message
+export class EvvmSignatureError extends EvvmContractError {
+  name = "EvvmSignatureError";
+}
+
+// Balance or amount does not cover the operation
+export class EvvmBalanceError extends EvvmContractError {
+  name = "EvvmBalanceError";
+}
+
+// Caller or user is not allowed to run the operation
+export class EvvmPermissionError extends EvvmContractError {
+  name = "EvvmPermissionError";
+}
+
+// Input rejected by the contract rules
+export class EvvmInputError extends EvvmContractError {
+  name = "EvvmInputError";
+}
+
+// Operation not possible in the current contract state
+export class EvvmStateError extends EvvmContractError {
+  name = "EvvmStateError";
+}
+
+// Operation attempted before or after its time window
+export class EvvmTimingError extends EvvmContractError {
+  name = "EvvmTimingError";
+}
+
+// Plain `revert("...")` or panic, as P2PSwap and Estimator use
+export class EvvmRevertError extends EvvmContractError {
+  name = "EvvmRevertError";
+}
+
+// Revert data not matching any bundled ABI
+export class EvvmUnknownError extends EvvmContractError {
+  name = "EvvmUnknownError";
+}
@@ -0,0 +1,2 @@
+export * from './evvmErrors';
+export * from './decodeEvvmError';
@@ -0,0 +1,159 @@
+import {
+  DispersePayInputData,
+  PayInputData,
+  PayMultipleResult,
+  TransactionResult,
+} from "../types";
+import { EvvmABI } from "../abi";
+import { TransactionExecutor } from "./transaction-executor";
+
+/**
+ * EVVM Transaction Executor
+ *
+ * Submits signed EVVM payment and disperse payment input data to the Evvm contract.
+ * Each call is simulated, sent and awaited until the receipt is available.
+ */
+export class EVVMTransactionExecutor extends TransactionExecutor {
+  /**
+   * Executes a single payment.
+   * @param input Signed payment input data
+   * @returns Promise resolving to the transaction result
+   */
+  async executePay(input: PayInputData): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: EvvmABI,
+      functionName: "pay",
+      args: [
+        input.from,
+        input.to_address,
+        input.to_identity,
+        input.token,
+        input.amount,
+        input.priorityFee,
+        input.nonce,
+        input.priority,
+        input.executor as `0x${string}`,
+        input.signature as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a payment to multiple recipients.
+   * @param input Signed disperse payment input data
+   * @returns Promise resolving to the transaction result
+   */
+  async executeDispersePay(
+    input: DispersePayInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: EvvmABI,
+      functionName: "dispersePay",
+      args: [
+        input.from,
+        input.toData,
+        input.token,
+        input.amount,
+        input.priorityFee,
+        input.nonce,
+        input.priority,
+        input.executor as `0x${string}`,
+        input.signature as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes several payments in one call.
+   * Failed payments do not revert the transaction, check `result.results`.
+   * The outcomes are read on chain once the transaction is mined, the simulated
+   * ones may differ when another executor used a nonce in between.
+   * @param payData Signed payment input data, possibly from different users
+   * @returns Promise resolving to the transaction result with per-payment outcomes
+   */
+  async executePayMultiple(
+    payData: PayInputData[],
+  ): Promise<TransactionResult<PayMultipleResult>> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: EvvmABI,
+      functionName: "payMultiple",
+      args: [
+        payData.map((input) => ({
+          from: input.from,
+          to_address: input.to_address,
+          to_identity: input.to_identity,
+          token: input.token,
+          amount: input.amount,
+          priorityFee: input.priorityFee,
+          nonce: input.nonce,
+          priorityFlag: input.priority,
+          executor: input.executor as `0x${string}`,
+          signature: input.signature as `0x${string}`,
+        })),
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirmWith(hash, (receipt) =>
+      this.readPayMultipleOutcome(payData, receipt.blockNumber),
+    );
+  }
+
+  /**
+   * Reads which payments of a mined payMultiple went through: those whose
+   * nonce was unused before its block and is consumed at its block.
+   * @param payData Payments in submission order
+   * @param blockNumber Block of the payMultiple transaction
+   * @returns Promise resolving to the per-payment outcomes
+   */
+  private async readPayMultipleOutcome(
+    payData: PayInputData[],
+    blockNumber: bigint,
+  ): Promise<PayMultipleResult> {
+    const isUsedAt = async (input: PayInputData, block: bigint) => {
+      if (input.priority) {
+        return await this.publicClient.readContract({
+          address: this.contractAddress,
+          abi: EvvmABI,
+          functionName: "getIfUsedAsyncNonce",
+          args: [input.from, input.nonce],
+          blockNumber: block,
+        });
+      }
+      const nextSyncNonce = await this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: EvvmABI,
+        functionName: "getNextCurrentSyncNonce",
+        args: [input.from],
+        blockNumber: block,
+      });
+      return input.nonce < nextSyncNonce;
+    };
+
+    const results: boolean[] = [];
+    for (const input of payData) {
+      results.push(
+        !(await isUsedAt(input, blockNumber - 1n)) && (await isUsedAt(input, blockNumber)),
+      );
+    }
+    const successfulTransactions = BigInt(results.filter(Boolean).length);
+
+    return {
+      successfulTransactions,
+      failedTransactions: BigInt(results.length) - successfulTransactions,
+      results,
+    };
+  }
+}
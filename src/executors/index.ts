@@ -0,0 +1,6 @@
+export * from './transaction-executor';
+export * from './evvm';
+export * from './nameService';
+export * from './staking';
+export * from './p2pSwap';
+export * from './serviceStaking';
@@ -0,0 +1,302 @@
+import {
+  AcceptOfferInputData,
+  AddCustomMetadataInputData,
+  FlushCustomMetadataInputData,
+  FlushUsernameInputData,
+  MakeOfferInputData,
+  PreRegistrationUsernameInputData,
+  RegistrationUsernameInputData,
+  RemoveCustomMetadataInputData,
+  RenewUsernameInputData,
+  TransactionResult,
+  WithdrawOfferInputData,
+} from "../types";
+import { NameServiceABI } from "../abi";
+import { TransactionExecutor } from "./transaction-executor";
+
+/**
+ * NameService Transaction Executor
+ *
+ * Submits signed NameService input data (registration, offers, metadata, etc)
+ * to the NameService contract.
+ * Each call is simulated, sent and awaited until the receipt is available.
+ */
+export class NameServiceTransactionExecutor extends TransactionExecutor {
+  /**
+   * Executes a username pre-registration.
+   */
+  async executePreRegistrationUsername(
+    input: PreRegistrationUsernameInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "preRegistrationUsername",
+      args: [
+        input.user,
+        input.hashPreRegisteredUsername as `0x${string}`,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a username registration.
+   */
+  async executeRegistrationUsername(
+    input: RegistrationUsernameInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "registrationUsername",
+      args: [
+        input.user,
+        input.username,
+        input.clowNumber,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes an offer for a username.
+   * @returns Promise resolving to the transaction result with the new offer ID
+   */
+  async executeMakeOffer(
+    input: MakeOfferInputData,
+  ): Promise<TransactionResult<bigint>> {
+    const { request, result } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "makeOffer",
+      args: [
+        input.user,
+        input.username,
+        input.expireDate,
+        input.amount,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, result);
+  }
+
+  /**
+   * Executes an offer withdrawal.
+   */
+  async executeWithdrawOffer(
+    input: WithdrawOfferInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "withdrawOffer",
+      args: [
+        input.user,
+        input.username,
+        input.offerID,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes the acceptance of an offer.
+   */
+  async executeAcceptOffer(
+    input: AcceptOfferInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "acceptOffer",
+      args: [
+        input.user,
+        input.username,
+        input.offerID,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a username renewal.
+   */
+  async executeRenewUsername(
+    input: RenewUsernameInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "renewUsername",
+      args: [
+        input.user,
+        input.username,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes the addition of custom metadata to an identity.
+   */
+  async executeAddCustomMetadata(
+    input: AddCustomMetadataInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "addCustomMetadata",
+      args: [
+        input.user,
+        input.identity,
+        input.value,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes the removal of a custom metadata entry.
+   */
+  async executeRemoveCustomMetadata(
+    input: RemoveCustomMetadataInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "removeCustomMetadata",
+      args: [
+        input.user,
+        input.identity,
+        input.key,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes the flush of every custom metadata entry of an identity.
+   */
+  async executeFlushCustomMetadata(
+    input: FlushCustomMetadataInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "flushCustomMetadata",
+      args: [
+        input.user,
+        input.identity,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a username flush.
+   */
+  async executeFlushUsername(
+    input: FlushUsernameInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: NameServiceABI,
+      functionName: "flushUsername",
+      args: [
+        input.user,
+        input.username,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  CancelOrderInputData,
+  DispatchOrderFillFixedFeeInputData,
+  DispatchOrderFillPropotionalFeeInputData,
+  MakeOrderInputData,
+  MakeOrderResult,
+  TransactionResult,
+} from "../types";
+import { P2PSwapABI } from "../abi";
+import { TransactionExecutor } from "./transaction-executor";
+
+/**
+ * P2PSwap Transaction Executor
+ *
+ * Submits signed P2PSwap order input data to the P2PSwap contract.
+ * Each call is simulated, sent and awaited until the receipt is available.
+ */
+export class P2PSwapTransactionExecutor extends TransactionExecutor {
+  /**
+   * Executes an order creation.
+   * @returns Promise resolving to the transaction result with the market and order ID
+   */
+  async executeMakeOrder(
+    input: MakeOrderInputData,
+  ): Promise<TransactionResult<MakeOrderResult>> {
+    const { request, result } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: P2PSwapABI,
+      functionName: "makeOrder",
+      args: [
+        input.user,
+        input.metadata,
+        input.signature as `0x${string}`,
+        input.priorityFee,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    const [market, orderId] = result;
+    return await this.confirm(hash, { market, orderId });
+  }
+
+  /**
+   * Executes an order cancellation.
+   */
+  async executeCancelOrder(
+    input: CancelOrderInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: P2PSwapABI,
+      functionName: "cancelOrder",
+      args: [
+        input.user,
+        {
+          ...input.metadata,
+          signature: input.metadata.signature as `0x${string}`,
+        },
+        input.priorityFee,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes an order fill paying a proportional fee.
+   */
+  async executeDispatchOrderFillPropotionalFee(
+    input: DispatchOrderFillPropotionalFeeInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: P2PSwapABI,
+      functionName: "dispatchOrder_fillPropotionalFee",
+      args: [
+        input.user,
+        {
+          ...input.metadata,
+          signature: input.metadata.signature as `0x${string}`,
+        },
+        input.priorityFee,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes an order fill paying a fixed fee.
+   * `amountOut` is sent as the contract's `maxFillFixedFee` argument.
+   */
+  async executeDispatchOrderFillFixedFee(
+    input: DispatchOrderFillFixedFeeInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: P2PSwapABI,
+      functionName: "dispatchOrder_fillFixedFee",
+      args: [
+        input.user,
+        {
+          ...input.metadata,
+          signature: input.metadata.signature as `0x${string}`,
+        },
+        input.priorityFee,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+        input.amountOut,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+}
@@ -0,0 +1,147 @@
+import { Account, PublicClient, WalletClient } from "viem";
+import { EvvmABI, P2PSwapABI, StakingABI } from "../abi";
+import { ServiceStakingQuote, TransactionResult } from "../types";
+import { TransactionExecutor } from "./transaction-executor";
+
+/**
+ * Service Staking Transaction Executor
+ *
+ * Drives the staking of service contracts (for example P2PSwap `stake`/`unstake`).
+ * The Staking contract requires the service to run, in one transaction:
+ * `prepareServiceStaking(amount)` → EVVM `caPay` of the staking price to the
+ * Staking contract → `confirmServiceStaking()`, otherwise it reverts with
+ * `ServiceDoesNotStakeInSameTx`. Unstaking goes through `serviceUnstaking(amount)`.
+ * This executor quotes the price, checks the service can afford it and calls the
+ * service entry point that runs the whole sequence.
+ * Services expose the same `stake`/`unstake` entry points as P2PSwap, so its
+ * ABI is used to call them.
+ */
+export class ServiceStakingTransactionExecutor extends TransactionExecutor {
+  /**
+   * @param walletClient Wallet client of the service owner
+   * @param publicClient Public client used for reads and simulations
+   * @param account Account allowed to call the service `stake`/`unstake`
+   * @param stakingAddress Staking contract address
+   */
+  constructor(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    account: Account,
+    stakingAddress: `0x${string}`,
+  ) {
+    super(walletClient, publicClient, account, stakingAddress);
+  }
+
+  /**
+   * Quotes the cost of staking a service and reads its current EVVM balance.
+   * @param serviceAddress Service contract that will stake
+   * @param amountOfStaking Number of stakes
+   * @returns Promise resolving to the quote
+   */
+  async quoteServiceStaking(
+    serviceAddress: `0x${string}`,
+    amountOfStaking: bigint,
+  ): Promise<ServiceStakingQuote> {
+    const [priceOfStaking, principalToken, evvmAddress] = await Promise.all([
+      this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: StakingABI,
+        functionName: "priceOfStaking",
+      }),
+      this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: StakingABI,
+        functionName: "getMateAddress",
+      }),
+      this.publicClient.readContract({
+        address: this.contractAddress,
+        abi: StakingABI,
+        functionName: "getEvvmAddress",
+      }),
+    ]);
+
+    const serviceBalance = await this.publicClient.readContract({
+      address: evvmAddress,
+      abi: EvvmABI,
+      functionName: "getBalance",
+      args: [serviceAddress, principalToken],
+    });
+
+    return {
+      serviceAddress,
+      amountOfStaking,
+      priceOfStaking,
+      totalPrice: priceOfStaking * amountOfStaking,
+      principalToken,
+      serviceBalance,
+    };
+  }
+
+  /**
+   * Stakes a service: runs prepare → pay → confirm through the service `stake` function.
+   * @param serviceAddress Service contract that will stake
+   * @param amountOfStaking Number of stakes
+   * @returns Promise resolving to the transaction result with the quote used
+   * @throws Error if the service balance cannot cover the staking price
+   */
+  async executeServiceStake(
+    serviceAddress: `0x${string}`,
+    amountOfStaking: bigint,
+  ): Promise<TransactionResult<ServiceStakingQuote>> {
+    const quote = await this.quoteServiceStaking(serviceAddress, amountOfStaking);
+
+    if (quote.serviceBalance < quote.totalPrice) {
+      throw new Error(
+        `Service ${serviceAddress} holds ${quote.serviceBalance} principal tokens, ` +
+          `${quote.totalPrice} are needed to stake ${amountOfStaking}`,
+      );
+    }
+
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: serviceAddress,
+      abi: P2PSwapABI,
+      functionName: "stake",
+      args: [amountOfStaking],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, quote);
+  }
+
+  /**
+   * Unstakes a service through its `unstake` function (`serviceUnstaking` on Staking).
+   * @param serviceAddress Service contract that will unstake
+   * @param amountOfStaking Number of stakes to remove
+   * @returns Promise resolving to the transaction result
+   * @throws Error if the service has fewer stakes than requested
+   */
+  async executeServiceUnstake(
+    serviceAddress: `0x${string}`,
+    amountOfStaking: bigint,
+  ): Promise<TransactionResult> {
+    const staked = await this.publicClient.readContract({
+      address: this.contractAddress,
+      abi: StakingABI,
+      functionName: "getUserAmountStaked",
+      args: [serviceAddress],
+    });
+
+    if (staked < amountOfStaking) {
+      throw new Error(
+        `Service ${serviceAddress} has ${staked} stakes, cannot unstake ${amountOfStaking}`,
+      );
+    }
+
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: serviceAddress,
+      abi: P2PSwapABI,
+      functionName: "unstake",
+      args: [amountOfStaking],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  GoldenStakingInputData,
+  PresaleStakingInputData,
+  PublicStakingInputData,
+  TransactionResult,
+} from "../types";
+import { StakingABI } from "../abi";
+import { TransactionExecutor } from "./transaction-executor";
+
+/**
+ * Staking Transaction Executor
+ *
+ * Submits signed staking input data (golden, presale, public) to the Staking contract.
+ * Each call is simulated, sent and awaited until the receipt is available.
+ */
+export class StakingTransactionExecutor extends TransactionExecutor {
+  /**
+   * Executes a golden staking (only callable by the golden fisher).
+   */
+  async executeGoldenStaking(
+    input: GoldenStakingInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: StakingABI,
+      functionName: "goldenStaking",
+      args: [
+        input.isStaking,
+        input.amountOfStaking,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a presale staking or unstaking.
+   */
+  async executePresaleStaking(
+    input: PresaleStakingInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: StakingABI,
+      functionName: "presaleStaking",
+      args: [
+        input.user,
+        input.isStaking,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+
+  /**
+   * Executes a public staking or unstaking.
+   */
+  async executePublicStaking(
+    input: PublicStakingInputData,
+  ): Promise<TransactionResult> {
+    const { request } = await this.publicClient.simulateContract({
+      account: this.account,
+      address: this.contractAddress,
+      abi: StakingABI,
+      functionName: "publicStaking",
+      args: [
+        input.user,
+        input.isStaking,
+        input.amountOfStaking,
+        input.nonce,
+        input.signature as `0x${string}`,
+        input.priorityFee_EVVM,
+        input.nonce_EVVM,
+        input.priorityFlag_EVVM,
+        input.signature_EVVM as `0x${string}`,
+      ],
+    });
+
+    const hash = await this.walletClient.writeContract(request);
+    return await this.confirm(hash, undefined);
+  }
+}
@@ -0,0 +1,67 @@
+import { Account, PublicClient, TransactionReceipt, WalletClient } from "viem";
+import { TransactionResult } from "../types";
+
+/**
+ * Transaction Executor
+ * Base class for submitting signed EVVM input data to a contract.
+ * Every call is simulated first, then sent and awaited until it is mined.
+ */
+export class TransactionExecutor {
+  private readonly confirmationListeners = new Set<
+    (result: TransactionResult<unknown>) => void
+  >();
+
+  constructor(
+    protected walletClient: WalletClient,
+    protected publicClient: PublicClient,
+    protected account: Account,
+    protected contractAddress: `0x${string}`,
+  ) {}
+
+  /**
+   * Registers a listener called after each transaction of this executor is mined.
+   * @param listener Called with the result of the confirmed transaction
+   * @returns Function that removes the listener
+   */
+  onConfirmed(listener: (result: TransactionResult<unknown>) => void): () => void {
+    this.confirmationListeners.add(listener);
+    return () => this.confirmationListeners.delete(listener);
+  }
+
+  /**
+   * Waits for a sent transaction and wraps its receipt.
+   * @param hash Hash of the sent transaction
+   * @param result Value returned by the simulated call
+   * @returns Promise resolving to the transaction result
+   * @throws Error if the transaction reverted
+   */
+  protected async confirm<T>(
+    hash: `0x${string}`,
+    result: T,
+  ): Promise<TransactionResult<T>> {
+    return await this.confirmWith(hash, async () => result);
+  }
+
+  /**
+   * Waits for a sent transaction and wraps its receipt with a result read once
+   * the transaction is mined.
+   * @param hash Hash of the sent transaction
+   * @param readResult Reads the result from the chain, given the receipt
+   * @returns Promise resolving to the transaction result
+   * @throws Error if the transaction reverted
+   */
+  protected async confirmWith<T>(
+    hash: `0x${string}`,
+    readResult: (receipt: TransactionReceipt) => Promise<T>,
+  ): Promise<TransactionResult<T>> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+
+    if (receipt.status === "reverted") {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    const confirmed = { hash, receipt, result: await readResult(receipt) };
+    this.confirmationListeners.forEach((listener) => listener(confirmed));
+    return confirmed;
+  }
+}
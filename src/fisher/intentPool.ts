@@ -0,0 +1,660 @@
+import { isAddressEqual, PublicClient, zeroAddress } from "viem";
+import { EvvmABI } from "../abi";
+import { EvvmIntentPayloads, PayInputData } from "../types";
+import {
+  verifyAcceptOfferSignature,
+  verifyAddCustomMetadataSignature,
+  verifyDispersePaySignature,
+  verifyFlushCustomMetadataSignature,
+  verifyFlushUsernameSignature,
+  verifyMakeOfferSignature,
+  verifyPaySignature,
+  verifyPreRegistrationUsernameSignature,
+  verifyPublicServiceStakingSignature,
+  verifyPublicStakingSignature,
+  verifyRegistrationUsernameSignature,
+  verifyRemoveCustomMetadataSignature,
+  verifyRenewUsernameSignature,
+  verifyWithdrawOfferSignature,
+} from "../utils";
+import { DispersePayBuilder, PayMultipleBatch } from "../signatures";
+import { NonceKind, NonceManager, ServiceNonceKind } from "../nonces";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens";
+
+/**
+ * Signed input data of every intent a fisher can execute, by function name.
+ */
+export type FisherIntentInputs = Pick<
+  EvvmIntentPayloads,
+  | "pay"
+  | "dispersePay"
+  | "publicStaking"
+  | "publicServiceStaking"
+  | "preRegistrationUsername"
+  | "registrationUsername"
+  | "makeOffer"
+  | "withdrawOffer"
+  | "acceptOffer"
+  | "renewUsername"
+  | "addCustomMetadata"
+  | "removeCustomMetadata"
+  | "flushCustomMetadata"
+  | "flushUsername"
+>;
+
+export type FisherIntentKind = keyof FisherIntentInputs;
+
+export type FisherIntent = {
+  [K in FisherIntentKind]: { kind: K; input: FisherIntentInputs[K] };
+}[FisherIntentKind];
+
+/**
+ * Why an intent was refused or dropped from the pool.
+ * - MALFORMED: a payment field is invalid (address, negative amount, fee or nonce),
+ *   or a disperse payment lists invalid or repeated recipients or signs another total
+ * - DUPLICATE: a pooled intent of the signer consumes one of its nonces
+ * - INVALID_SIGNATURE: the signature does not belong to the signer
+ * - FOREIGN_EXECUTOR: the payment can only be executed by another address
+ * - NONCE_USED: the service or EVVM nonce was consumed on chain
+ */
+export type FisherIntentRejection =
+  | "MALFORMED"
+  | "DUPLICATE"
+  | "INVALID_SIGNATURE"
+  | "FOREIGN_EXECUTOR"
+  | "NONCE_USED";
+
+export type FisherIntentAddResult =
+  | { accepted: true; key: string }
+  | { accepted: false; key: string; reason: FisherIntentRejection };
+
+export type DroppedFisherIntent = {
+  key: string;
+  intent: FisherIntent;
+  reason: FisherIntentRejection;
+};
+
+export type RankedFisherIntent = {
+  key: string;
+  intent: FisherIntent;
+  // priority fee collected, in `feeToken`
+  priorityFee: bigint;
+  feeToken: `0x${string}`;
+  // principal tokens rewarded by the Evvm
+  reward: bigint;
+  // estimated gas cost, in wei
+  gasCost: bigint;
+  // fee and reward valued in wei, minus the gas cost
+  profit: bigint;
+};
+
+export type FisherIntentPoolConfig = {
+  publicClient: PublicClient;
+  evvmAddress: `0x${string}`;
+  evvmID: bigint;
+  // Address of the fisher submitting the transactions
+  executor: `0x${string}`;
+  // Needed to check the nonces of NameService and Staking intents
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+  // Gas price in wei, read with getGasPrice when omitted
+  gasPrice?: bigint;
+  // Gas used per intent, merged over DEFAULT_FISHER_GAS_ESTIMATES
+  gasEstimates?: Partial<Record<FisherIntentKind, bigint>>;
+  // Multiples of getRewardAmount paid per intent, 1 when omitted
+  rewardUnits?: Partial<Record<FisherIntentKind, bigint>>;
+  // Values a token amount in wei, amounts are taken 1:1 when omitted
+  valueInWei?: (token: `0x${string}`, amount: bigint) => bigint;
+};
+
+/**
+ * Rough gas used by each intent, meant to be tuned per deployment.
+ */
+export const DEFAULT_FISHER_GAS_ESTIMATES: Record<FisherIntentKind, bigint> = {
+  pay: 90_000n,
+  dispersePay: 150_000n,
+  publicStaking: 300_000n,
+  publicServiceStaking: 300_000n,
+  preRegistrationUsername: 200_000n,
+  registrationUsername: 250_000n,
+  makeOffer: 250_000n,
+  withdrawOffer: 200_000n,
+  acceptOffer: 250_000n,
+  renewUsername: 200_000n,
+  addCustomMetadata: 200_000n,
+  removeCustomMetadata: 200_000n,
+  flushCustomMetadata: 250_000n,
+  flushUsername: 250_000n,
+};
+
+// Nonces and fee of an intent, in the shape the pool works with
+type IntentTerms = {
+  signer: `0x${string}`;
+  service?: { kind: ServiceNonceKind; nonce: bigint };
+  // absent when the intent carries no EVVM payment
+  evvm?: { async: boolean; nonce: bigint };
+  feeToken: `0x${string}`;
+  priorityFee: bigint;
+};
+
+/**
+ * Extracts the nonces and fee of an intent.
+ */
+function intentTerms(intent: FisherIntent): IntentTerms {
+  switch (intent.kind) {
+    case "pay":
+    case "dispersePay":
+      return {
+        signer: intent.input.from,
+        evvm: { async: intent.input.priority, nonce: intent.input.nonce },
+        feeToken: intent.input.token,
+        priorityFee: intent.input.priorityFee,
+      };
+  }
+
+  const { input } = intent;
+  const kind: ServiceNonceKind =
+    intent.kind === "publicStaking" || intent.kind === "publicServiceStaking"
+      ? "staking"
+      : "nameService";
+  // unpaid actions are signed with an empty EVVM signature
+  const paid = input.signature_EVVM !== "" && input.signature_EVVM !== "0x";
+
+  return {
+    signer: input.user,
+    service: { kind, nonce: input.nonce },
+    evvm: paid
+      ? { async: input.priorityFlag_EVVM, nonce: input.nonce_EVVM }
+      : undefined,
+    feeToken: PRINCIPAL_TOKEN_ADDRESS,
+    priorityFee: input.priorityFee_EVVM,
+  };
+}
+
+/**
+ * Keys of every nonce an intent consumes, by signer and nonce space: the
+ * service nonce first, then the nonce of its EVVM payment.
+ */
+function intentNonceKeys(intent: FisherIntent): string[] {
+  const { signer, service, evvm } = intentTerms(intent);
+  const spaces: [NonceKind, bigint][] = [];
+  if (service) spaces.push([service.kind, service.nonce]);
+  if (evvm) spaces.push([evvm.async ? "evvmAsync" : "evvmSync", evvm.nonce]);
+
+  return spaces.map(([kind, nonce]) => `${kind}:${signer.toLowerCase()}:${nonce}`);
+}
+
+/**
+ * Key identifying an intent by its first nonce.
+ */
+function intentKey(intent: FisherIntent): string {
+  return intentNonceKeys(intent)[0];
+}
+
+/**
+ * Verifies offline that the action signature of an intent belongs to its signer.
+ * The EVVM payment of service intents is signed over contract-defined prices
+ * and is left to the contracts.
+ */
+async function verifyIntentSignature(
+  intent: FisherIntent,
+  evvmID: bigint,
+): Promise<boolean> {
+  switch (intent.kind) {
+    case "pay": {
+      const { input } = intent;
+      return await verifyPaySignature(
+        {
+          evvmID,
+          to: input.to_identity || input.to_address,
+          tokenAddress: input.token,
+          amount: input.amount,
+          priorityFee: input.priorityFee,
+          nonce: input.nonce,
+          priorityFlag: input.priority,
+          executor: input.executor as `0x${string}`,
+        },
+        input.signature as `0x${string}`,
+        input.from,
+      );
+    }
+    case "dispersePay": {
+      const { input } = intent;
+      return await verifyDispersePaySignature(
+        {
+          evvmID,
+          toData: input.toData,
+          tokenAddress: input.token,
+          amount: input.amount,
+          priorityFee: input.priorityFee,
+          nonce: input.nonce,
+          priorityFlag: input.priority,
+          executor: input.executor as `0x${string}`,
+        },
+        input.signature as `0x${string}`,
+        input.from,
+      );
+    }
+  }
+
+  const { input } = intent;
+  const signature = input.signature as `0x${string}`;
+
+  switch (intent.kind) {
+    case "publicStaking":
+      return await verifyPublicStakingSignature(
+        {
+          evvmID,
+          isStaking: intent.input.isStaking,
+          amountOfStaking: intent.input.amountOfStaking,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "publicServiceStaking":
+      return await verifyPublicServiceStakingSignature(
+        {
+          evvmID,
+          serviceAddress: intent.input.service,
+          isStaking: intent.input.isStaking,
+          amountOfStaking: intent.input.amountOfStaking,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "preRegistrationUsername":
+      return await verifyPreRegistrationUsernameSignature(
+        {
+          evvmID,
+          hashUsername: intent.input.hashPreRegisteredUsername as `0x${string}`,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "registrationUsername":
+      return await verifyRegistrationUsernameSignature(
+        {
+          evvmID,
+          username: intent.input.username,
+          clowNumber: intent.input.clowNumber,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "makeOffer":
+      return await verifyMakeOfferSignature(
+        {
+          evvmID,
+          username: intent.input.username,
+          dateExpire: intent.input.expireDate,
+          amount: intent.input.amount,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "withdrawOffer":
+      return await verifyWithdrawOfferSignature(
+        {
+          evvmID,
+          username: intent.input.username,
+          offerId: intent.input.offerID,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "acceptOffer":
+      return await verifyAcceptOfferSignature(
+        {
+          evvmID,
+          username: intent.input.username,
+          offerId: intent.input.offerID,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "renewUsername":
+      return await verifyRenewUsernameSignature(
+        { evvmID, username: intent.input.username, nonce: input.nonce },
+        signature,
+        input.user,
+      );
+    case "addCustomMetadata":
+      return await verifyAddCustomMetadataSignature(
+        {
+          evvmID,
+          identity: intent.input.identity,
+          value: intent.input.value,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "removeCustomMetadata":
+      return await verifyRemoveCustomMetadataSignature(
+        {
+          evvmID,
+          identity: intent.input.identity,
+          key: intent.input.key,
+          nonce: input.nonce,
+        },
+        signature,
+        input.user,
+      );
+    case "flushCustomMetadata":
+      return await verifyFlushCustomMetadataSignature(
+        { evvmID, identity: intent.input.identity, nonce: input.nonce },
+        signature,
+        input.user,
+      );
+    case "flushUsername":
+      return await verifyFlushUsernameSignature(
+        { evvmID, username: intent.input.username, nonce: input.nonce },
+        signature,
+        input.user,
+      );
+  }
+}
+
+/**
+ * Fisher Intent Pool
+ *
+ * In-memory pool of signed intents waiting to be executed by a fisher.
+ * `add()` deduplicates by signer and nonce, verifies the signature offline and
+ * refuses payments bound to another executor. `prune()` drops intents whose
+ * nonce was consumed on chain, `rank()` orders the executable ones by profit and
+ * `takePayMultipleBatch()` moves the best payments into a `payMultiple` batch.
+ * Fees and rewards only go to staker executors, so the profit of a non-staker
+ * is the negative gas cost.
+ */
+export class FisherIntentPool {
+  private readonly intents = new Map<string, FisherIntent>();
+  private readonly nonces: NonceManager;
+
+  constructor(private readonly config: FisherIntentPoolConfig) {
+    this.nonces = new NonceManager({
+      publicClient: config.publicClient,
+      evvmAddress: config.evvmAddress,
+      nameServiceAddress: config.nameServiceAddress,
+      stakingAddress: config.stakingAddress,
+    });
+  }
+
+  /**
+   * Number of pooled intents.
+   */
+  get size(): number {
+    return this.intents.size;
+  }
+
+  /**
+   * Pooled intents, in arrival order.
+   */
+  list(): { key: string; intent: FisherIntent }[] {
+    return [...this.intents].map(([key, intent]) => ({ key, intent }));
+  }
+
+  /**
+   * Checks an intent offline and pools it.
+   * @param intent Signed intent received from a user
+   * @returns The pool key of the intent, or why it was refused
+   */
+  async add(intent: FisherIntent): Promise<FisherIntentAddResult> {
+    const key = intentKey(intent);
+
+    if (this.consumesPooledNonce(intent)) {
+      return { accepted: false, key, reason: "DUPLICATE" };
+    }
+    try {
+      if (intent.kind === "pay") PayMultipleBatch.assertValidPayment(intent.input);
+      if (intent.kind === "dispersePay") {
+        await DispersePayBuilder.assertValidInput(intent.input);
+      }
+    } catch {
+      return { accepted: false, key, reason: "MALFORMED" };
+    }
+    if (
+      (intent.kind === "pay" || intent.kind === "dispersePay") &&
+      !isAddressEqual(intent.input.executor as `0x${string}`, zeroAddress) &&
+      !isAddressEqual(intent.input.executor as `0x${string}`, this.config.executor)
+    ) {
+      return { accepted: false, key, reason: "FOREIGN_EXECUTOR" };
+    }
+    if (!(await verifyIntentSignature(intent, this.config.evvmID))) {
+      return { accepted: false, key, reason: "INVALID_SIGNATURE" };
+    }
+    // another call may have pooled it while verifying
+    if (this.consumesPooledNonce(intent)) {
+      return { accepted: false, key, reason: "DUPLICATE" };
+    }
+
+    this.intents.set(key, intent);
+    return { accepted: true, key };
+  }
+
+  /**
+   * Removes an intent, for example after executing it.
+   * @param key Pool key returned by add()
+   * @returns True if the intent was pooled
+   */
+  remove(key: string): boolean {
+    return this.intents.delete(key);
+  }
+
+  /**
+   * Drops every pooled intent.
+   */
+  clear(): void {
+    this.intents.clear();
+  }
+
+  /**
+   * Drops the intents whose service or EVVM nonce was consumed on chain.
+   * @returns Promise resolving to the dropped intents
+   * @throws Error if a service intent is pooled without its contract address
+   */
+  async prune(): Promise<DroppedFisherIntent[]> {
+    const { dropped } = await this.sweep();
+    return dropped;
+  }
+
+  /**
+   * Prunes the pool and ranks the executable intents by profit, best first.
+   * Sync intents waiting for an earlier nonce are kept but left out.
+   * @returns Promise resolving to the ranked intents
+   */
+  async rank(): Promise<RankedFisherIntent[]> {
+    return (await this.rankExecutable()).ranked;
+  }
+
+  /**
+   * Moves the most profitable payments into a batch for `payMultiple`.
+   * Sync payments of a user are taken in nonce order, without gaps. The taken
+   * payments leave the pool once the batch is complete; a payment the batch
+   * refuses is dropped from the pool and the others are still taken.
+   * @param options.maxSize Maximum payments in the batch, defaults to 20
+   * @param options.minProfit Minimum profit of a payment, defaults to 0
+   * @returns Promise resolving to the batch, or undefined if no payment qualifies
+   */
+  async takePayMultipleBatch(
+    options: { maxSize?: number; minProfit?: bigint } = {},
+  ): Promise<PayMultipleBatch | undefined> {
+    const { maxSize = 20, minProfit = 0n } = options;
+    const { ranked, nextSyncNonces } = await this.rankExecutable();
+
+    const candidates = ranked.filter(
+      (item) => item.intent.kind === "pay" && item.profit >= minProfit,
+    );
+    const batch = new PayMultipleBatch({
+      evvmID: this.config.evvmID,
+      executor: this.config.executor,
+      maxSize,
+    });
+
+    const takenKeys: string[] = [];
+    const refusedKeys: string[] = [];
+
+    // each pass takes the sync payments unlocked by the previous one
+    let taken = true;
+    while (taken && batch.size < maxSize) {
+      taken = false;
+
+      for (const item of [...candidates]) {
+        if (batch.size >= maxSize) break;
+        const input = item.intent.input as PayInputData;
+        const user = input.from.toLowerCase();
+
+        if (!input.priority && input.nonce !== nextSyncNonces.get(user)) continue;
+        candidates.splice(candidates.indexOf(item), 1);
+
+        try {
+          await batch.add(input);
+        } catch {
+          refusedKeys.push(item.key);
+          continue;
+        }
+        if (!input.priority) nextSyncNonces.set(user, input.nonce + 1n);
+        takenKeys.push(item.key);
+        taken = true;
+      }
+    }
+
+    [...takenKeys, ...refusedKeys].forEach((key) => this.intents.delete(key));
+    return batch.size > 0 ? batch : undefined;
+  }
+
+  private consumesPooledNonce(intent: FisherIntent): boolean {
+    const keys = new Set(intentNonceKeys(intent));
+    for (const pooled of this.intents.values()) {
+      if (intentNonceKeys(pooled).some((key) => keys.has(key))) return true;
+    }
+    return false;
+  }
+
+  private async rankExecutable(): Promise<{
+    ranked: RankedFisherIntent[];
+    nextSyncNonces: Map<string, bigint>;
+  }> {
+    const { config } = this;
+    const { nextSyncNonces } = await this.sweep();
+
+    const [rewardAmount, isStaker, gasPrice] = await Promise.all([
+      config.publicClient.readContract({
+        address: config.evvmAddress,
+        abi: EvvmABI,
+        functionName: "getRewardAmount",
+      }),
+      config.publicClient.readContract({
+        address: config.evvmAddress,
+        abi: EvvmABI,
+        functionName: "isAddressStaker",
+        args: [config.executor],
+      }),
+      config.gasPrice ?? config.publicClient.getGasPrice(),
+    ]);
+
+    // sync nonces executable in a row from the on-chain one
+    const pooledSync = new Map<string, Set<bigint>>();
+    for (const intent of this.intents.values()) {
+      const { signer, evvm } = intentTerms(intent);
+      if (!evvm || evvm.async) continue;
+      const user = signer.toLowerCase();
+      pooledSync.set(user, (pooledSync.get(user) ?? new Set()).add(evvm.nonce));
+    }
+    const syncLimit = new Map<string, bigint>();
+    for (const [user, pooled] of pooledSync) {
+      let nonce = nextSyncNonces.get(user)!;
+      while (pooled.has(nonce)) nonce++;
+      syncLimit.set(user, nonce);
+    }
+
+    const valueInWei = config.valueInWei ?? ((_token, amount) => amount);
+    const ranked: RankedFisherIntent[] = [];
+
+    for (const [key, intent] of this.intents) {
+      const { signer, evvm, feeToken, priorityFee } = intentTerms(intent);
+      if (evvm && !evvm.async && evvm.nonce >= syncLimit.get(signer.toLowerCase())!) {
+        continue;
+      }
+
+      const gas =
+        config.gasEstimates?.[intent.kind] ?? DEFAULT_FISHER_GAS_ESTIMATES[intent.kind];
+      const fee = isStaker ? priorityFee : 0n;
+      const reward = isStaker
+        ? rewardAmount * (config.rewardUnits?.[intent.kind] ?? 1n)
+        : 0n;
+      const gasCost = gas * gasPrice;
+
+      ranked.push({
+        key,
+        intent,
+        priorityFee: fee,
+        feeToken,
+        reward,
+        gasCost,
+        profit:
+          valueInWei(feeToken, fee) +
+          valueInWei(PRINCIPAL_TOKEN_ADDRESS, reward) -
+          gasCost,
+      });
+    }
+
+    ranked.sort((a, b) => (a.profit === b.profit ? 0 : a.profit > b.profit ? -1 : 1));
+    return { ranked, nextSyncNonces };
+  }
+
+  /**
+   * Checks every pooled nonce on chain and drops the consumed ones.
+   * @returns The dropped intents and the next sync nonce of each sync signer
+   */
+  private async sweep(): Promise<{
+    dropped: DroppedFisherIntent[];
+    nextSyncNonces: Map<string, bigint>;
+  }> {
+    const { publicClient, evvmAddress } = this.config;
+    const nextSyncNonces = new Map<string, bigint>();
+    const dropped: DroppedFisherIntent[] = [];
+
+    for (const [key, intent] of [...this.intents]) {
+      const { signer, service, evvm } = intentTerms(intent);
+      let used =
+        service !== undefined &&
+        (await this.nonces.isServiceNonceUsed(service.kind, signer, service.nonce));
+
+      if (!used && evvm?.async) {
+        used = await publicClient.readContract({
+          address: evvmAddress,
+          abi: EvvmABI,
+          functionName: "getIfUsedAsyncNonce",
+          args: [signer, evvm.nonce],
+        });
+      } else if (!used && evvm) {
+        const user = signer.toLowerCase();
+        let next = nextSyncNonces.get(user);
+        if (next === undefined) {
+          next = await publicClient.readContract({
+            address: evvmAddress,
+            abi: EvvmABI,
+            functionName: "getNextCurrentSyncNonce",
+            args: [signer],
+          });
+          nextSyncNonces.set(user, next);
+        }
+        used = evvm.nonce < next;
+      }
+
+      if (used) {
+        this.intents.delete(key);
+        dropped.push({ key, intent, reason: "NONCE_USED" });
+      }
+    }
+
+    return { dropped, nextSyncNonces };
+  }
+}
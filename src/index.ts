@@ -2,7 +2,7 @@
  * @evvm/ts-library
  * 
  * TypeScript library for EVVM blockchain interactions, signature building, and transaction execution.
- * Provides comprehensive tools for interacting with EVVM, NameService, and Staking contracts.
+ * Provides comprehensive tools for interacting with EVVM, NameService, Staking and P2PSwap contracts.
  */
 
 // Export all types
@@ -14,6 +14,36 @@ export * from './utils';
 // Export signature builders
 export * from './signatures';
 
+// Export transaction executors
+export * from './executors';
+
+// Export nonce management
+export * from './nonces';
+
+// Export username registration workflow
+export * from './registration';
+
+// Export contract error decoding
+export * from './errors';
+
+// Export token registry and amount helpers
+export * from './tokens';
+
+// Export fisher toolkit
+export * from './fisher';
+
+// Export deployment guard
+export * from './deployment';
+
+// Export read-only query client
+export * from './reader';
+
+// Export recipient resolution
+export * from './recipients';
+
+// Export bulk payouts
+export * from './payouts';
+
 // Export ABIs
 export * from './abi';
 
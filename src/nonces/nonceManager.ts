@@ -0,0 +1,265 @@
+import { PublicClient } from "viem";
+import { EvvmABI, NameServiceABI, P2PSwapABI, StakingABI } from "../abi";
+
+/**
+ * Nonce spaces handled by the manager.
+ * - evvmSync: sequential EVVM nonce (priorityFlag = false)
+ * - evvmAsync: arbitrary EVVM nonce (priorityFlag = true)
+ * - nameService / staking / p2pSwap: service level nonces
+ */
+export type NonceKind =
+  | "evvmSync"
+  | "evvmAsync"
+  | "nameService"
+  | "staking"
+  | "p2pSwap";
+
+export type ServiceNonceKind = Exclude<NonceKind, "evvmSync" | "evvmAsync">;
+
+export type NonceManagerConfig = {
+  publicClient: PublicClient;
+  evvmAddress: `0x${string}`;
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+  p2pSwapAddress?: `0x${string}`;
+  // Source of candidate async nonces, defaults to a random 64 bit value
+  generateNonce?: () => bigint;
+  // Candidates tried before giving up on an async nonce, defaults to 10
+  maxAttempts?: number;
+};
+
+/**
+ * Generates a random 64 bit nonce.
+ * @returns Random nonce
+ */
+function randomNonce(): bigint {
+  const [high, low] = crypto.getRandomValues(new Uint32Array(2));
+  return (BigInt(high) << 32n) | BigInt(low);
+}
+
+/**
+ * Nonce Manager
+ *
+ * Works out the nonces every signer method expects and reserves them locally,
+ * so concurrent signings in the same session never reuse one.
+ * Sync EVVM nonces follow `getNextCurrentSyncNonce`; async EVVM and service
+ * nonces are generated and checked against the contracts before being handed out.
+ */
+export class NonceManager {
+  private readonly reserved = new Map<string, Set<bigint>>();
+
+  constructor(private readonly config: NonceManagerConfig) {}
+
+  /**
+   * Reserves the next sync EVVM nonce of a user.
+   * Reserved but unsubmitted nonces are skipped, so each call returns the following one.
+   * @param user Address of the signer
+   * @returns Promise resolving to the reserved nonce
+   */
+  async reserveSyncNonce(user: `0x${string}`): Promise<bigint> {
+    const onChain = await this.config.publicClient.readContract({
+      address: this.config.evvmAddress,
+      abi: EvvmABI,
+      functionName: "getNextCurrentSyncNonce",
+      args: [user],
+    });
+
+    const reserved = this.reservedSet("evvmSync", user);
+    // nonces below the on-chain value were consumed already
+    for (const nonce of reserved) {
+      if (nonce < onChain) reserved.delete(nonce);
+    }
+
+    let nonce = onChain;
+    while (reserved.has(nonce)) nonce++;
+    reserved.add(nonce);
+    return nonce;
+  }
+
+  /**
+   * Reserves an unused async EVVM nonce of a user.
+   * @param user Address of the signer
+   * @returns Promise resolving to the reserved nonce
+   */
+  async reserveAsyncNonce(user: `0x${string}`): Promise<bigint> {
+    return await this.reserveUnused("evvmAsync", user, (nonce) =>
+      this.isEvvmNonceUsed(user, nonce, true),
+    );
+  }
+
+  /**
+   * Reserves the EVVM nonce matching a priority flag.
+   * @param user Address of the signer
+   * @param priorityFlag True for async, false for sync
+   * @returns Promise resolving to the reserved nonce
+   */
+  async reserveEvvmNonce(
+    user: `0x${string}`,
+    priorityFlag: boolean,
+  ): Promise<bigint> {
+    return priorityFlag
+      ? await this.reserveAsyncNonce(user)
+      : await this.reserveSyncNonce(user);
+  }
+
+  /**
+   * Checks on-chain whether an EVVM nonce was already used.
+   * A sync nonce is used once the next sync nonce of the user is above it.
+   * @param user Address of the signer
+   * @param nonce Nonce to check
+   * @param priorityFlag True for async, false for sync
+   * @returns Promise resolving to true if the nonce is used
+   */
+  async isEvvmNonceUsed(
+    user: `0x${string}`,
+    nonce: bigint,
+    priorityFlag: boolean,
+  ): Promise<boolean> {
+    const { publicClient, evvmAddress } = this.config;
+
+    if (priorityFlag) {
+      return await publicClient.readContract({
+        address: evvmAddress,
+        abi: EvvmABI,
+        functionName: "getIfUsedAsyncNonce",
+        args: [user, nonce],
+      });
+    }
+    const onChain = await publicClient.readContract({
+      address: evvmAddress,
+      abi: EvvmABI,
+      functionName: "getNextCurrentSyncNonce",
+      args: [user],
+    });
+    return nonce < onChain;
+  }
+
+  /**
+   * Reserves an unused service nonce (NameService, Staking or P2PSwap) of a user.
+   * @param service Service whose nonce is needed
+   * @param user Address of the signer
+   * @returns Promise resolving to the reserved nonce
+   * @throws Error if the service address is not configured
+   */
+  async reserveServiceNonce(
+    service: ServiceNonceKind,
+    user: `0x${string}`,
+  ): Promise<bigint> {
+    return await this.reserveUnused(service, user, (nonce) =>
+      this.isServiceNonceUsed(service, user, nonce),
+    );
+  }
+
+  /**
+   * Checks on-chain whether a service nonce was already used.
+   * @param service Service owning the nonce
+   * @param user Address of the signer
+   * @param nonce Nonce to check
+   * @returns Promise resolving to true if the nonce is used
+   */
+  async isServiceNonceUsed(
+    service: ServiceNonceKind,
+    user: `0x${string}`,
+    nonce: bigint,
+  ): Promise<boolean> {
+    const { publicClient } = this.config;
+
+    switch (service) {
+      case "nameService":
+        return !(await publicClient.readContract({
+          address: this.requireAddress("nameServiceAddress"),
+          abi: NameServiceABI,
+          functionName: "checkIfNameServiceNonceIsAvailable",
+          args: [user, nonce],
+        }));
+      case "staking":
+        return await publicClient.readContract({
+          address: this.requireAddress("stakingAddress"),
+          abi: StakingABI,
+          functionName: "checkIfStakeNonceUsed",
+          args: [user, nonce],
+        });
+      case "p2pSwap":
+        return await publicClient.readContract({
+          address: this.requireAddress("p2pSwapAddress"),
+          abi: P2PSwapABI,
+          functionName: "checkIfANonceP2PSwapIsUsed",
+          args: [user, nonce],
+        });
+    }
+  }
+
+  /**
+   * Checks whether a nonce is reserved locally.
+   */
+  isReserved(kind: NonceKind, user: `0x${string}`, nonce: bigint): boolean {
+    return this.reservedSet(kind, user).has(nonce);
+  }
+
+  /**
+   * Reserves a known nonce, for example one signed in an earlier session and
+   * not submitted yet, so it is not handed out again.
+   */
+  reserve(kind: NonceKind, user: `0x${string}`, nonce: bigint): void {
+    this.reservedSet(kind, user).add(nonce);
+  }
+
+  /**
+   * Releases a reservation, for example when the user rejected the signature.
+   * Releasing a sync nonce lets the next reservation reuse it.
+   */
+  release(kind: NonceKind, user: `0x${string}`, nonce: bigint): void {
+    this.reservedSet(kind, user).delete(nonce);
+  }
+
+  /**
+   * Drops every local reservation.
+   */
+  clear(): void {
+    this.reserved.clear();
+  }
+
+  private reservedSet(kind: NonceKind, user: `0x${string}`): Set<bigint> {
+    const key = `${kind}:${user.toLowerCase()}`;
+    let set = this.reserved.get(key);
+    if (!set) {
+      set = new Set();
+      this.reserved.set(key, set);
+    }
+    return set;
+  }
+
+  private requireAddress(
+    key: "nameServiceAddress" | "stakingAddress" | "p2pSwapAddress",
+  ): `0x${string}` {
+    const address = this.config[key];
+    if (!address) {
+      throw new Error(`NonceManager: '${key}' is not configured`);
+    }
+    return address;
+  }
+
+  private async reserveUnused(
+    kind: NonceKind,
+    user: `0x${string}`,
+    isUsed: (nonce: bigint) => Promise<boolean>,
+  ): Promise<bigint> {
+    const generate = this.config.generateNonce ?? randomNonce;
+    const maxAttempts = this.config.maxAttempts ?? 10;
+    const reserved = this.reservedSet(kind, user);
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const nonce = generate();
+      if (reserved.has(nonce) || (await isUsed(nonce))) continue;
+      // another call may have reserved it while waiting for the chain
+      if (reserved.has(nonce)) continue;
+
+      reserved.add(nonce);
+      return nonce;
+    }
+
+    throw new Error(
+      `NonceManager: no unused ${kind} nonce found after ${maxAttempts} attempts`,
+    );
+  }
+}
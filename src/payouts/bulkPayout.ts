@@ -0,0 +1,504 @@
+import { PublicClient, TransactionReceiptNotFoundError } from "viem";
+import { toEvvmError } from "../errors";
+import { NonceManager } from "../nonces";
+import { DispersePayBuilder } from "../signatures";
+import {
+  Amount,
+  DispersePayInputData,
+  DispersePayMetadata,
+  EvvmTokenInfo,
+} from "../types";
+import {
+  decodeEvvmIntent,
+  encodeEvvmIntent,
+  EVVM_INTENT_ENVELOPE_VERSION,
+  hashDispersePaymentUsersToPay,
+} from "../utils";
+import {
+  assertPayoutImport,
+  importPayouts,
+  PayoutFormat,
+  PayoutImport,
+  PayoutRow,
+} from "./payoutImport";
+import type { EVVMTransactionExecutor } from "../executors";
+import type { RecipientResolver } from "../recipients";
+import type { EVVMSignatureBuilder } from "../signatures";
+
+/**
+ * Gas used by a dispersePay: a fixed part plus a part per recipient.
+ * Usernames cost more since the Evvm contract looks up their owner.
+ */
+export type DispersePayGasEstimate = {
+  base: bigint;
+  perAddress: bigint;
+  perUsername: bigint;
+};
+
+/**
+ * Rough dispersePay gas usage, meant to be tuned per deployment.
+ */
+export const DEFAULT_DISPERSE_PAY_GAS_ESTIMATE: DispersePayGasEstimate = {
+  base: 80_000n,
+  perAddress: 35_000n,
+  perUsername: 50_000n,
+};
+
+// Gas budget of one dispersePay, well under the block gas limit of most chains
+const DEFAULT_MAX_GAS_PER_CHUNK = 5_000_000n;
+
+export type PayoutChunkOptions = {
+  // Gas budget of one dispersePay, defaults to 5M
+  maxGasPerChunk?: bigint;
+  // Merged over DEFAULT_DISPERSE_PAY_GAS_ESTIMATE
+  gasEstimate?: Partial<DispersePayGasEstimate>;
+  // Maximum number of recipients per dispersePay
+  maxRecipientsPerChunk?: number;
+};
+
+export type PayoutChunk = {
+  // position of the chunk in the payout
+  index: number;
+  // file lines of the recipients, in toData order
+  lines: number[];
+  toData: DispersePayMetadata[];
+  // amount signed: the sum of toData
+  total: bigint;
+  // estimated gas of the dispersePay
+  gas: bigint;
+};
+
+/**
+ * Progress of a chunk.
+ * - signed: signature ready, not executed yet
+ * - failed: signing or execution failed, see `error`; `resign()` retries it
+ * - executed: dispersePay mined, or its nonce found consumed by `resign()`
+ * - review: its sync nonce was consumed without a confirmed transaction of the
+ *   chunk; check the account history, then mark it executed, or failed without
+ *   a nonce to sign it again
+ */
+export type PayoutChunkStatus = "signed" | "failed" | "executed" | "review";
+
+export type PayoutChunkReport = PayoutChunk & {
+  status: PayoutChunkStatus;
+  // hashDispersePaymentUsersToPay(toData), the value the signature commits to
+  hash: `0x${string}`;
+  // nonce of the signature, absent when signing failed; kept when execution
+  // failed since the signature stays valid
+  nonce?: bigint;
+  // signed input data, absent while failed
+  input?: DispersePayInputData;
+  error?: string;
+  transactionHash?: `0x${string}`;
+};
+
+export type PayoutReport = {
+  evvmID: bigint;
+  token: `0x${string}`;
+  from: `0x${string}`;
+  priority: boolean;
+  // sum of every chunk
+  total: bigint;
+  chunks: PayoutChunkReport[];
+};
+
+export type BulkPayoutConfig = PayoutChunkOptions & {
+  // Signature builder of the paying account
+  builder: EVVMSignatureBuilder;
+  nonceManager: NonceManager;
+  evvmID: bigint;
+  // Token paid, its decimals apply to the file amounts
+  token: EvvmTokenInfo;
+  // Address that will submit the chunks
+  executor: `0x${string}`;
+  // Async nonces when true; sequential sync nonces otherwise, chunks then execute in order
+  priority?: boolean;
+  // Priority fee paid by each chunk, defaults to 0
+  priorityFee?: Amount;
+  // Checks usernames on chain during the import
+  resolver?: RecipientResolver;
+  // Reads the receipts of failed sync chunks in resign()
+  publicClient?: PublicClient;
+};
+
+// Version written in every serialized report
+const PAYOUT_REPORT_VERSION = 1;
+
+// JSON form of a report, bigints as decimal strings
+type PayoutReportWire = {
+  version: number;
+  evvmID: string;
+  token: `0x${string}`;
+  from: `0x${string}`;
+  priority: boolean;
+  total: string;
+  chunks: {
+    index: number;
+    status: PayoutChunkStatus;
+    lines: number[];
+    toData: (Omit<DispersePayMetadata, "amount"> & { amount: string })[];
+    total: string;
+    gas: string;
+    hash: `0x${string}`;
+    nonce?: string;
+    // base64url intent envelope of the signed input data
+    intent?: string;
+    error?: string;
+    transactionHash?: `0x${string}`;
+  }[];
+};
+
+/**
+ * Splits rows into dispersePay recipient lists that fit the gas budget.
+ * Rows keep their order; a chunk is closed as soon as the next row would
+ * exceed the budget or the recipient limit.
+ * @param rows Validated rows
+ * @param options Gas budget, gas estimate and recipient limit
+ * @returns Chunks in payment order
+ * @throws Error if the budget cannot hold a single recipient
+ */
+function chunkPayouts(
+  rows: readonly PayoutRow[],
+  options: PayoutChunkOptions = {},
+): PayoutChunk[] {
+  const maxGas = options.maxGasPerChunk ?? DEFAULT_MAX_GAS_PER_CHUNK;
+  const estimate = { ...DEFAULT_DISPERSE_PAY_GAS_ESTIMATE, ...options.gasEstimate };
+  const maxRecipients = options.maxRecipientsPerChunk ?? Infinity;
+
+  const chunks: PayoutChunk[] = [];
+  let chunk: PayoutChunk | undefined;
+
+  for (const row of rows) {
+    const gas = row.to_identity ? estimate.perUsername : estimate.perAddress;
+    if (estimate.base + gas > maxGas) {
+      throw new Error(
+        `Gas budget of ${maxGas} cannot hold the recipient on line ${row.line}`,
+      );
+    }
+
+    if (!chunk || chunk.gas + gas > maxGas || chunk.toData.length >= maxRecipients) {
+      chunk = { index: chunks.length, lines: [], toData: [], total: 0n, gas: estimate.base };
+      chunks.push(chunk);
+    }
+    chunk.lines.push(row.line);
+    chunk.toData.push({
+      amount: row.amount,
+      to_address: row.to_address,
+      to_identity: row.to_identity,
+    });
+    chunk.total += row.amount;
+    chunk.gas += gas;
+  }
+
+  return chunks;
+}
+
+/**
+ * Bulk Payout
+ *
+ * Pays thousands of recipients from a CSV or JSON file: the file is imported
+ * and validated, split into gas-bounded dispersePay chunks, and each chunk is
+ * signed with its own nonce. The result is a reconciliation report tracking
+ * every chunk; failed chunks (rejected signature, reverted execution) are
+ * re-signed with `resign()`, and `serializePayoutReport` keeps the report
+ * between sessions.
+ */
+export class BulkPayout {
+  constructor(private readonly config: BulkPayoutConfig) {}
+
+  /**
+   * Parses and validates a recipient file.
+   * @param content File content
+   * @param format File format, detected when omitted
+   * @returns Promise resolving to the valid rows and the issues, by line
+   */
+  async import(content: string, format?: PayoutFormat): Promise<PayoutImport> {
+    return await importPayouts(content, {
+      token: this.config.token,
+      format,
+      resolver: this.config.resolver,
+    });
+  }
+
+  /**
+   * Imports a recipient file, splits it into chunks and signs them.
+   * @param content File content
+   * @param format File format, detected when omitted
+   * @returns Promise resolving to the reconciliation report
+   * @throws PayoutImportError listing the issues of the file by line
+   */
+  async signFile(content: string, format?: PayoutFormat): Promise<PayoutReport> {
+    const result = await this.import(content, format);
+    assertPayoutImport(result);
+    return await this.sign(result.rows);
+  }
+
+  /**
+   * Splits validated rows into chunks and signs each one.
+   * A chunk whose signing fails is marked failed and its nonce released.
+   * @param rows Rows returned by the import
+   * @returns Promise resolving to the reconciliation report
+   */
+  async sign(rows: readonly PayoutRow[]): Promise<PayoutReport> {
+    const { builder, evvmID, token, priority = false } = this.config;
+    const chunks = chunkPayouts(rows, this.config);
+
+    const report: PayoutReport = {
+      evvmID,
+      token: token.address,
+      from: builder.signerAddress,
+      priority,
+      total: chunks.reduce((total, chunk) => total + chunk.total, 0n),
+      chunks: chunks.map((chunk) => ({
+        ...chunk,
+        status: "failed",
+        hash: hashDispersePaymentUsersToPay(chunk.toData),
+      })),
+    };
+
+    // sync nonces are reserved in chunk order, so chunks execute in file order
+    for (const chunk of report.chunks) {
+      await this.signChunk(report, chunk);
+    }
+    return report;
+  }
+
+  /**
+   * Signs the failed chunks of a report again.
+   * A chunk that was signed before may have been paid even though its execution
+   * reported an error, and its signature stays valid, so it is re-signed with
+   * the same nonce while that nonce is unused. A consumed async nonce means the
+   * chunk was paid. Any transaction of the account consumes sync nonces, so a
+   * sync chunk is only marked executed when the receipt of its transaction
+   * succeeded, and goes to review otherwise. Chunks whose signing failed get
+   * new nonces.
+   * Nonces of chunks still waiting for execution are kept reserved, so a report
+   * loaded in a new session does not reuse them.
+   * @param report Report to update
+   * @returns Promise resolving to the same report
+   * @throws Error if the report was signed by another account
+   */
+  async resign(report: PayoutReport): Promise<PayoutReport> {
+    this.assertSigner(report);
+    const { nonceManager } = this.config;
+    const kind = report.priority ? "evvmAsync" : "evvmSync";
+
+    for (const chunk of report.chunks) {
+      if (chunk.status === "signed" && chunk.nonce !== undefined) {
+        nonceManager.reserve(kind, report.from, chunk.nonce);
+      }
+    }
+    for (const chunk of report.chunks) {
+      if (chunk.status !== "failed") continue;
+      if (chunk.nonce === undefined) {
+        await this.signChunk(report, chunk);
+      } else if (
+        await nonceManager.isEvvmNonceUsed(report.from, chunk.nonce, report.priority)
+      ) {
+        if (report.priority || (await this.isMined(chunk.transactionHash))) {
+          chunk.status = "executed";
+          chunk.error = undefined;
+        } else {
+          chunk.status = "review";
+          chunk.error = `Nonce ${chunk.nonce} consumed without a confirmed transaction`;
+        }
+      } else {
+        nonceManager.reserve(kind, report.from, chunk.nonce);
+        await this.signChunk(report, chunk, chunk.nonce);
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Submits the signed chunks and records the outcome of each one.
+   * With sync nonces the chunks are submitted in nonce order, which differs
+   * from the file order once a chunk has been re-signed.
+   * Failed executions keep their error and nonce and can be re-signed.
+   * @param report Report to update
+   * @param executor EVVM transaction executor submitting the chunks
+   * @returns Promise resolving to the same report
+   */
+  async execute(
+    report: PayoutReport,
+    executor: EVVMTransactionExecutor,
+  ): Promise<PayoutReport> {
+    const signed = report.chunks.filter((chunk) => chunk.status === "signed" && chunk.input);
+    if (!report.priority) {
+      signed.sort((a, b) => (a.nonce! < b.nonce! ? -1 : a.nonce! > b.nonce! ? 1 : 0));
+    }
+
+    for (const chunk of signed) {
+      try {
+        const transaction = await executor.executeDispersePay(chunk.input!);
+        chunk.status = "executed";
+        chunk.transactionHash = transaction.hash;
+        chunk.error = undefined;
+      } catch (error) {
+        chunk.status = "failed";
+        chunk.input = undefined;
+        chunk.error = toEvvmError(error)?.message ?? (error as Error).message;
+        // receipt errors name the sent transaction, resign() checks it again
+        chunk.transactionHash = /0x[0-9a-fA-F]{64}(?![0-9a-fA-F])/.exec(
+          (error as Error).message,
+        )?.[0] as `0x${string}` | undefined;
+      }
+    }
+    return report;
+  }
+
+  private async isMined(hash: `0x${string}` | undefined): Promise<boolean> {
+    const { publicClient } = this.config;
+    if (!hash || !publicClient) return false;
+
+    try {
+      return (await publicClient.getTransactionReceipt({ hash })).status === "success";
+    } catch (error) {
+      if (error instanceof TransactionReceiptNotFoundError) return false;
+      throw error;
+    }
+  }
+
+  // signs with a fresh nonce, or with `signedNonce` reserved by the caller
+  private async signChunk(
+    report: PayoutReport,
+    chunk: PayoutChunkReport,
+    signedNonce?: bigint,
+  ): Promise<void> {
+    const { builder, nonceManager, evvmID, token, executor, priorityFee = 0n } =
+      this.config;
+
+    let nonce: bigint | undefined;
+    try {
+      nonce =
+        signedNonce ?? (await nonceManager.reserveEvvmNonce(report.from, report.priority));
+      chunk.nonce = nonce;
+
+      const dispersePay = new DispersePayBuilder({ evvmID, token: token.address });
+      for (const entry of chunk.toData) await dispersePay.addMetadata(entry);
+
+      chunk.input = await dispersePay.sign(builder, {
+        priorityFee,
+        nonce,
+        priority: report.priority,
+        executor,
+      });
+      chunk.status = "signed";
+      chunk.error = undefined;
+    } catch (error) {
+      // the released nonce may go to the next chunk, unless it was signed before
+      if (nonce !== undefined && signedNonce === undefined) {
+        nonceManager.release(report.priority ? "evvmAsync" : "evvmSync", report.from, nonce);
+        chunk.nonce = undefined;
+      }
+      chunk.status = "failed";
+      chunk.input = undefined;
+      chunk.error = (error as Error).message;
+    }
+  }
+
+  private assertSigner(report: PayoutReport): void {
+    if (
+      report.from.toLowerCase() !== this.config.builder.signerAddress.toLowerCase() ||
+      report.evvmID !== this.config.evvmID ||
+      report.token.toLowerCase() !== this.config.token.address.toLowerCase()
+    ) {
+      throw new Error(
+        `Report was signed by ${report.from} for token ${report.token} on evvmID ${report.evvmID}`,
+      );
+    }
+  }
+}
+
+/**
+ * Serializes a report to JSON, bigints as decimal strings and signed input data
+ * as base64url intent envelopes.
+ * @param report Reconciliation report
+ * @returns JSON string
+ */
+function serializePayoutReport(report: PayoutReport): string {
+  const wire: PayoutReportWire = {
+    version: PAYOUT_REPORT_VERSION,
+    evvmID: report.evvmID.toString(),
+    token: report.token,
+    from: report.from,
+    priority: report.priority,
+    total: report.total.toString(),
+    chunks: report.chunks.map((chunk) => ({
+      index: chunk.index,
+      status: chunk.status,
+      lines: chunk.lines,
+      toData: chunk.toData.map((entry) => ({
+        ...entry,
+        amount: entry.amount.toString(),
+      })),
+      total: chunk.total.toString(),
+      gas: chunk.gas.toString(),
+      hash: chunk.hash,
+      nonce: chunk.nonce?.toString(),
+      intent: chunk.input
+        ? encodeEvvmIntent({
+            version: EVVM_INTENT_ENVELOPE_VERSION,
+            action: "dispersePay",
+            evvmID: report.evvmID,
+            payload: chunk.input,
+          })
+        : undefined,
+      error: chunk.error,
+      transactionHash: chunk.transactionHash,
+    })),
+  };
+  return JSON.stringify(wire, null, 2);
+}
+
+/**
+ * Parses a report written by serializePayoutReport.
+ * @param json JSON string
+ * @returns Report with bigints and signed input data restored
+ * @throws Error if the JSON is not a report of a known version, or a signed
+ * chunk is not a dispersePay of the report evvmID
+ * @throws EvvmIntentEnvelopeError if a signed chunk is malformed
+ */
+function deserializePayoutReport(json: string): PayoutReport {
+  const wire = JSON.parse(json) as PayoutReportWire;
+  if (wire?.version !== PAYOUT_REPORT_VERSION || !Array.isArray(wire.chunks)) {
+    throw new Error("Not a payout report, or written by an unknown version");
+  }
+  const evvmID = BigInt(wire.evvmID);
+
+  const signedInput = (intent: string, index: number): DispersePayInputData => {
+    const envelope = decodeEvvmIntent(intent);
+    if (envelope.action !== "dispersePay" || envelope.evvmID !== evvmID) {
+      throw new Error(
+        `Chunk ${index} holds a ${envelope.action} intent for evvmID ${envelope.evvmID}, expected a dispersePay for evvmID ${evvmID}`,
+      );
+    }
+    return envelope.payload;
+  };
+
+  return {
+    evvmID,
+    token: wire.token,
+    from: wire.from,
+    priority: wire.priority,
+    total: BigInt(wire.total),
+    chunks: wire.chunks.map((chunk) => ({
+      index: chunk.index,
+      status: chunk.status,
+      lines: chunk.lines,
+      toData: chunk.toData.map((entry) => ({
+        ...entry,
+        amount: BigInt(entry.amount),
+      })),
+      total: BigInt(chunk.total),
+      gas: BigInt(chunk.gas),
+      hash: chunk.hash,
+      nonce: chunk.nonce === undefined ? undefined : BigInt(chunk.nonce),
+      input: chunk.intent ? signedInput(chunk.intent, chunk.index) : undefined,
+      error: chunk.error,
+      transactionHash: chunk.transactionHash,
+    })),
+  };
+}
+
+export { chunkPayouts, serializePayoutReport, deserializePayoutReport };
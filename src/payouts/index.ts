@@ -0,0 +1,2 @@
+export * from './payoutImport';
+export * from './bulkPayout';
@@ -0,0 +1,362 @@
+/**
+ * payoutImport
+ *
+ * Reads the recipient files of bulk payouts (payroll, airdrops). A file lists
+ * one recipient per row, an address or a username, with an amount in decimal
+ * units of the paid token:
+ * - CSV: `to,amount` rows, an optional header naming the `to` (or `recipient`,
+ *   `address`, `username`) and `amount` columns, `#` comment lines
+ * - JSON: an array of `{ "to": ..., "amount": ... }` objects, amounts as decimal
+ *   strings since JSON numbers lose precision beyond 15 significant digits
+ * The format is detected from the first character when not given.
+ * Every row is validated and each issue carries the line of the file it comes
+ * from, so operators can fix the file in one pass.
+ */
+import {
+  recipientKeys,
+  RecipientEntry,
+  RecipientResolutionCode,
+  RecipientResolutionError,
+  toRecipientEntry,
+} from "../recipients";
+import type { RecipientResolver } from "../recipients";
+import { parseAmount } from "../tokens";
+import { DispersePayMetadata, EvvmTokenInfo } from "../types";
+
+export type PayoutFormat = "csv" | "json";
+
+export type PayoutIssueCode =
+  | "EMPTY_FILE"
+  | "MALFORMED_FILE"
+  | "MISSING_COLUMN"
+  | "MALFORMED_ROW"
+  | "INVALID_AMOUNT"
+  | "DUPLICATE_RECIPIENT"
+  | RecipientResolutionCode;
+
+export type PayoutIssue = {
+  code: PayoutIssueCode;
+  // line of the file, 1-based
+  line: number;
+  message: string;
+};
+
+export type PayoutRow = DispersePayMetadata &
+  RecipientEntry & {
+    // line of the file the row comes from
+    line: number;
+    // recipient as written in the file
+    recipient: string;
+  };
+
+export type PayoutImport = {
+  valid: boolean;
+  // rows that passed validation, in file order
+  rows: PayoutRow[];
+  issues: PayoutIssue[];
+  // sum of the valid rows
+  total: bigint;
+};
+
+export type PayoutImportOptions = {
+  // Token paid, its decimals apply to the amounts
+  token: EvvmTokenInfo;
+  // Detected from the content when omitted
+  format?: PayoutFormat;
+  // Checks usernames on chain, without it they are only format-checked
+  resolver?: RecipientResolver;
+};
+
+/**
+ * Error thrown by assertPayoutImport when a file has issues.
+ * `code` is the first issue, `issues` lists all of them.
+ */
+export class PayoutImportError extends Error {
+  public readonly code: PayoutIssueCode;
+
+  constructor(public readonly issues: PayoutIssue[]) {
+    super(
+      issues
+        .slice(0, 10)
+        .map((issue) => `line ${issue.line}: ${issue.message}`)
+        .join("; ") + (issues.length > 10 ? ` (and ${issues.length - 10} more)` : ""),
+    );
+    this.name = "PayoutImportError";
+    this.code = issues[0].code;
+  }
+}
+
+// Header names accepted for the recipient column
+const RECIPIENT_COLUMNS = ["to", "recipient", "address", "username"];
+
+const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+// Row before validation
+type RawRow = { line: number; to: unknown; amount: unknown };
+
+/**
+ * Splits a CSV line, honoring double-quoted fields ("" escapes a quote).
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function readCsv(content: string, issues: PayoutIssue[]): RawRow[] {
+  const rows: RawRow[] = [];
+  let columns: { to: number; amount: number; count?: number } | undefined;
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    if (text.trim() === "" || text.trim().startsWith("#")) return;
+    const fields = splitCsvLine(text);
+
+    if (!columns) {
+      const names = fields.map((name) => name.toLowerCase());
+      if (names.includes("amount")) {
+        const to = names.findIndex((name) => RECIPIENT_COLUMNS.includes(name));
+        if (to === -1) {
+          issues.push({
+            code: "MISSING_COLUMN",
+            line,
+            message: `Header has no recipient column (${RECIPIENT_COLUMNS.join(", ")})`,
+          });
+        }
+        columns = { to, amount: names.indexOf("amount") };
+        return;
+      }
+      columns = { to: 0, amount: 1, count: 2 };
+    }
+    if (columns.to === -1) return;
+
+    if (
+      columns.count !== undefined
+        ? fields.length !== columns.count
+        : fields.length <= Math.max(columns.to, columns.amount)
+    ) {
+      issues.push({
+        code: "MALFORMED_ROW",
+        line,
+        message: `Expected a recipient and an amount, found ${fields.length} column(s)`,
+      });
+      return;
+    }
+    rows.push({ line, to: fields[columns.to], amount: fields[columns.amount] });
+  });
+
+  return rows;
+}
+
+/**
+ * Lines on which the elements of a top-level JSON array start.
+ */
+function elementLines(content: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectElement = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (char === "\n") line++;
+
+    if (inString) {
+      if (char === "\\") index++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (depth === 1 && expectElement && !/\s/.test(char) && char !== "]") {
+      lines.push(line);
+      expectElement = false;
+    }
+    if (char === '"') inString = true;
+    else if (char === "[" || char === "{") {
+      depth++;
+      if (depth === 1) expectElement = true;
+    } else if (char === "]" || char === "}") depth--;
+    else if (char === "," && depth === 1) expectElement = true;
+  }
+
+  return lines;
+}
+
+function readJson(content: string, issues: PayoutIssue[]): RawRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    issues.push({
+      code: "MALFORMED_FILE",
+      line: 1,
+      message: `Invalid JSON: ${(error as Error).message}`,
+    });
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    issues.push({
+      code: "MALFORMED_FILE",
+      line: 1,
+      message: "Expected an array of { to, amount } objects",
+    });
+    return [];
+  }
+
+  const lines = elementLines(content);
+  const rows: RawRow[] = [];
+  parsed.forEach((element: unknown, index) => {
+    const line = lines[index] ?? 1;
+    if (typeof element !== "object" || element === null || Array.isArray(element)) {
+      issues.push({
+        code: "MALFORMED_ROW",
+        line,
+        message: `Element ${index} is not a { to, amount } object`,
+      });
+      return;
+    }
+    const { to, amount } = element as Record<string, unknown>;
+    rows.push({ line, to, amount });
+  });
+
+  return rows;
+}
+
+/**
+ * Parses and validates a recipient file.
+ * Invalid rows are reported in `issues` and left out of `rows`.
+ * @param content File content
+ * @param options Paid token, file format and optional resolver for usernames
+ * @returns Promise resolving to the valid rows and the issues, by line
+ * @throws Error if a resolver read fails for another reason than an unregistered username
+ */
+async function importPayouts(
+  content: string,
+  options: PayoutImportOptions,
+): Promise<PayoutImport> {
+  const { token, resolver } = options;
+  const issues: PayoutIssue[] = [];
+
+  if (content.trim() === "") {
+    issues.push({ code: "EMPTY_FILE", line: 1, message: "File has no recipients" });
+    return { valid: false, rows: [], issues, total: 0n };
+  }
+
+  const format = options.format ?? (/^\s*[[{]/.test(content) ? "json" : "csv");
+  const rawRows = format === "json" ? readJson(content, issues) : readCsv(content, issues);
+
+  const rows: PayoutRow[] = [];
+  // recipientKeys() => line of the first row paying it
+  const listed = new Map<string, number>();
+
+  for (const { line, to, amount } of rawRows) {
+    if (typeof to !== "string" || to.trim() === "") {
+      issues.push({ code: "MALFORMED_ROW", line, message: "Missing recipient" });
+      continue;
+    }
+    const recipient = to.trim();
+
+    if (typeof amount === "number") {
+      issues.push({
+        code: "INVALID_AMOUNT",
+        line,
+        message: `Amount of ${recipient} must be a decimal string, found the number ${amount} which may have lost precision`,
+      });
+      continue;
+    }
+    if (typeof amount !== "string" || !DECIMAL_AMOUNT.test(amount.trim())) {
+      issues.push({
+        code: "INVALID_AMOUNT",
+        line,
+        message: `Amount of ${recipient} must be a decimal number, found "${String(amount ?? "")}"`,
+      });
+      continue;
+    }
+    let value: bigint;
+    try {
+      value = parseAmount(amount, token).value;
+    } catch (error) {
+      issues.push({ code: "INVALID_AMOUNT", line, message: (error as Error).message });
+      continue;
+    }
+    if (value === 0n) {
+      issues.push({
+        code: "INVALID_AMOUNT",
+        line,
+        message: `Amount of ${recipient} must be positive`,
+      });
+      continue;
+    }
+
+    let row: PayoutRow;
+    try {
+      const entry = await toRecipientEntry(recipient, resolver);
+      row = { line, recipient, amount: value, ...entry };
+    } catch (error) {
+      if (!(error instanceof RecipientResolutionError)) throw error;
+      issues.push({ code: error.code, line, message: error.message });
+      continue;
+    }
+
+    const keys = recipientKeys(row);
+    const firstLine = keys.map((key) => listed.get(key)).find((first) => first);
+    if (firstLine) {
+      issues.push({
+        code: "DUPLICATE_RECIPIENT",
+        line,
+        message: `${recipient} is already paid on line ${firstLine}`,
+      });
+      continue;
+    }
+    keys.forEach((key) => listed.set(key, line));
+    rows.push(row);
+  }
+
+  if (rows.length === 0 && issues.length === 0) {
+    issues.push({ code: "EMPTY_FILE", line: 1, message: "File has no recipients" });
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return {
+    valid: issues.length === 0,
+    rows,
+    issues,
+    total: rows.reduce((total, row) => total + row.amount, 0n),
+  };
+}
+
+/**
+ * Throws when an import has issues.
+ * @param result Result of importPayouts
+ * @throws PayoutImportError listing the issues by line
+ */
+function assertPayoutImport(result: PayoutImport): void {
+  if (!result.valid) {
+    throw new PayoutImportError(result.issues);
+  }
+}
+
+export { importPayouts, assertPayoutImport };
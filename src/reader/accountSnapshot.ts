@@ -0,0 +1,228 @@
+import {
+  ChainDoesNotSupportContract,
+  ContractFunctionReturnType,
+  PublicClient,
+} from "viem";
+import { EvvmABI, NameServiceABI, P2PSwapABI, StakingABI } from "../abi";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens";
+
+export type AccountSnapshotContracts = {
+  publicClient: PublicClient;
+  evvmAddress: `0x${string}`;
+  // Each service section is read only when its address is given
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+  p2pSwapAddress?: `0x${string}`;
+};
+
+export type AccountSnapshotOptions = {
+  // Tokens whose balance is read, defaults to the principal token
+  tokens?: readonly `0x${string}`[];
+  // Usernames whose owner and expiry date are read, NameService cannot list them
+  usernames?: readonly string[];
+  // P2PSwap markets searched for orders, every market when omitted
+  markets?: readonly bigint[];
+  // false forces sequential reads, e.g. to compare with a multicall result
+  multicall?: boolean;
+  // Multicall3 address for chains whose definition lacks one
+  multicallAddress?: `0x${string}`;
+  // Maximum calldata bytes per multicall, passed to viem
+  batchSize?: number;
+  // Current unix time in seconds for username expiry, defaults to the local clock
+  now?: () => bigint;
+};
+
+export type P2PSwapOrder = ContractFunctionReturnType<
+  typeof P2PSwapABI,
+  "view",
+  "getMyOrdersInSpecificMarket"
+>[number];
+
+export type AccountSnapshotUsername = {
+  username: string;
+  owner: `0x${string}`;
+  // false when the username expired or belongs to someone else
+  isOwner: boolean;
+  // unix time (seconds)
+  expireDate: bigint;
+};
+
+export type AccountSnapshot = {
+  address: `0x${string}`;
+  balances: { token: `0x${string}`; balance: bigint }[];
+  nextSyncNonce: bigint;
+  isStaker: boolean;
+  // present when a Staking address is configured
+  staking?: {
+    amountStaked: bigint;
+    // unix times (seconds) from which the user can stake again / fully unstake
+    unlockStakingTime: bigint;
+    unlockFullUnstakingTime: bigint;
+  };
+  // present when a NameService address is configured
+  usernames?: AccountSnapshotUsername[];
+  // open orders of the user, present when a P2PSwap address is configured
+  p2pSwapOrders?: P2PSwapOrder[];
+};
+
+function currentTime(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+type SnapshotCall = {
+  address: `0x${string}`;
+  abi: typeof EvvmABI | typeof NameServiceABI | typeof StakingABI | typeof P2PSwapABI;
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+/**
+ * Runs reads in multicall batches, or one by one when the chain has no multicall.
+ */
+async function readAll(
+  publicClient: PublicClient,
+  calls: SnapshotCall[],
+  options: AccountSnapshotOptions,
+): Promise<unknown[]> {
+  const { multicall = true, multicallAddress, batchSize } = options;
+
+  if (multicall && (multicallAddress || publicClient.chain?.contracts?.multicall3)) {
+    try {
+      return await publicClient.multicall({
+        // the calls mix ABIs, results are narrowed by the caller
+        contracts: calls as Parameters<PublicClient["multicall"]>[0]["contracts"],
+        allowFailure: false,
+        multicallAddress,
+        batchSize,
+      });
+    } catch (error) {
+      if (!(error instanceof ChainDoesNotSupportContract)) throw error;
+    }
+  }
+
+  const results: unknown[] = [];
+  for (const call of calls) {
+    results.push(
+      await publicClient.readContract(
+        call as Parameters<PublicClient["readContract"]>[0],
+      ),
+    );
+  }
+  return results;
+}
+
+/**
+ * Reads the state a wallet screen shows for an account in as few requests as
+ * possible: balances, next sync nonce, staker status, staked amount and unlock
+ * times, username expiry dates and open P2PSwap orders.
+ * Reads are grouped into multicall batches and fall back to sequential calls on
+ * chains without multicall.
+ * @param contracts Public client and contract addresses
+ * @param address Account to read
+ * @param options Tokens, usernames and markets to include
+ * @returns Promise resolving to the snapshot
+ */
+async function getAccountSnapshot(
+  contracts: AccountSnapshotContracts,
+  address: `0x${string}`,
+  options: AccountSnapshotOptions = {},
+): Promise<AccountSnapshot> {
+  const { publicClient, evvmAddress, nameServiceAddress, stakingAddress, p2pSwapAddress } =
+    contracts;
+  const tokens = options.tokens ?? [PRINCIPAL_TOKEN_ADDRESS];
+  const usernames = nameServiceAddress ? (options.usernames ?? []) : [];
+  const listMarkets = p2pSwapAddress !== undefined && options.markets === undefined;
+
+  const evvm = (functionName: string, args: readonly unknown[]): SnapshotCall => ({
+    address: evvmAddress,
+    abi: EvvmABI,
+    functionName,
+    args,
+  });
+
+  const calls: SnapshotCall[] = [
+    ...tokens.map((token) => evvm("getBalance", [address, token])),
+    evvm("getNextCurrentSyncNonce", [address]),
+    evvm("isAddressStaker", [address]),
+  ];
+  if (stakingAddress) {
+    for (const functionName of [
+      "getUserAmountStaked",
+      "getTimeToUserUnlockStakingTime",
+      "getTimeToUserUnlockFullUnstakingTime",
+    ]) {
+      calls.push({ address: stakingAddress, abi: StakingABI, functionName, args: [address] });
+    }
+  }
+  for (const username of usernames) {
+    for (const functionName of ["getOwnerOfIdentity", "getExpireDateOfIdentity"]) {
+      calls.push({
+        address: nameServiceAddress!,
+        abi: NameServiceABI,
+        functionName,
+        args: [username],
+      });
+    }
+  }
+  if (listMarkets) {
+    calls.push({ address: p2pSwapAddress, abi: P2PSwapABI, functionName: "getAllMarketsMetadata" });
+  }
+
+  const results = await readAll(publicClient, calls, options);
+  let cursor = 0;
+  const next = <T>() => results[cursor++] as T;
+
+  const snapshot: AccountSnapshot = {
+    address,
+    balances: tokens.map((token) => ({ token, balance: next<bigint>() })),
+    nextSyncNonce: next<bigint>(),
+    isStaker: next<boolean>(),
+  };
+
+  if (stakingAddress) {
+    snapshot.staking = {
+      amountStaked: next<bigint>(),
+      unlockStakingTime: next<bigint>(),
+      unlockFullUnstakingTime: next<bigint>(),
+    };
+  }
+  if (nameServiceAddress) {
+    const now = (options.now ?? currentTime)();
+    snapshot.usernames = usernames.map((username) => {
+      const owner = next<`0x${string}`>();
+      const expireDate = next<bigint>();
+      return {
+        username,
+        owner,
+        isOwner: owner.toLowerCase() === address.toLowerCase() && expireDate > now,
+        expireDate,
+      };
+    });
+  }
+
+  if (p2pSwapAddress) {
+    // market ids start at 1, in the order of getAllMarketsMetadata
+    const markets = listMarkets
+      ? next<readonly unknown[]>().map((_market, index) => BigInt(index + 1))
+      : options.markets!;
+
+    const orders = await readAll(
+      publicClient,
+      markets.map((market) => ({
+        address: p2pSwapAddress,
+        abi: P2PSwapABI,
+        functionName: "getMyOrdersInSpecificMarket",
+        args: [address, market],
+      })),
+      options,
+    );
+    // the getter pads its result with empty slots
+    snapshot.p2pSwapOrders = (orders as P2PSwapOrder[][])
+      .flat()
+      .filter((order) => order.seller.toLowerCase() === address.toLowerCase());
+  }
+
+  return snapshot;
+}
+
+export { getAccountSnapshot };
@@ -0,0 +1,277 @@
+import {
+  Abi,
+  AbiFunction,
+  AbiParameter,
+  AbiParameterToPrimitiveType,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  ContractFunctionReturnType,
+  PublicClient,
+} from "viem";
+import {
+  EstimatorABI,
+  EvvmABI,
+  NameServiceABI,
+  P2PSwapABI,
+  StakingABI,
+} from "../abi";
+import type { TransactionExecutor } from "../executors";
+import {
+  AccountSnapshot,
+  AccountSnapshotOptions,
+  getAccountSnapshot,
+} from "./accountSnapshot";
+
+type ReadMutability = "pure" | "view";
+
+type OutputsOf<abi extends Abi, name extends string> = Extract<
+  abi[number],
+  { type: "function"; name: name }
+>["outputs"];
+
+/**
+ * Object keyed by the output names of a getter.
+ */
+type NamedOutputs<outputs extends readonly AbiParameter[]> = {
+  [P in outputs[number] as P["name"] & string]: AbiParameterToPrimitiveType<P>;
+};
+
+/**
+ * Value returned by a reader method: getters with several outputs resolve to an
+ * object keyed by output name, the others to the decoded value.
+ */
+export type EvvmReadResult<
+  abi extends Abi,
+  name extends ContractFunctionName<abi, ReadMutability>,
+> = OutputsOf<abi, name> extends readonly [AbiParameter, AbiParameter, ...AbiParameter[]]
+  ? NamedOutputs<OutputsOf<abi, name>>
+  : ContractFunctionReturnType<abi, ReadMutability, name>;
+
+/**
+ * One method per view function of a contract ABI.
+ * `overrides` replaces the methods of getters whose outputs have no names in the ABI.
+ */
+export type ContractReader<abi extends Abi, overrides = object> = Omit<
+  {
+    [name in ContractFunctionName<abi, ReadMutability>]: (
+      ...args: ContractFunctionArgs<abi, ReadMutability, name> & readonly unknown[]
+    ) => Promise<EvvmReadResult<abi, name>>;
+  },
+  keyof overrides
+> &
+  overrides;
+
+export type NameServiceReaderOverrides = {
+  getIdentityBasicMetadata(
+    username: string,
+  ): Promise<{ owner: `0x${string}`; expireDate: bigint }>;
+};
+
+export type StakingReaderOverrides = {
+  getPresaleStaker(
+    account: `0x${string}`,
+  ): Promise<{ isAllow: boolean; stakingAmount: bigint }>;
+};
+
+export type P2PSwapReaderOverrides = {
+  getProposedWithdrawal(): Promise<{
+    tokenToWithdraw: `0x${string}`;
+    amountToWithdraw: bigint;
+    recipientToWithdraw: `0x${string}`;
+    timeToWithdrawal: bigint;
+  }>;
+};
+
+export type EvvmReaderContract =
+  | "evvm"
+  | "nameService"
+  | "staking"
+  | "p2pSwap"
+  | "estimator";
+
+export type EvvmReaderConfig = {
+  publicClient: PublicClient;
+  evvmAddress: `0x${string}`;
+  nameServiceAddress?: `0x${string}`;
+  stakingAddress?: `0x${string}`;
+  p2pSwapAddress?: `0x${string}`;
+  estimatorAddress?: `0x${string}`;
+  // Milliseconds a read is reused, defaults to 10 seconds, 0 disables the cache
+  cacheTtl?: number;
+  // Clock in milliseconds, defaults to Date.now
+  now?: () => number;
+};
+
+// Output names of the getters returning several unnamed values
+const OUTPUT_NAMES: Record<string, readonly string[]> = {
+  getIdentityBasicMetadata: ["owner", "expireDate"],
+  getPresaleStaker: ["isAllow", "stakingAmount"],
+  getProposedWithdrawal: [
+    "tokenToWithdraw",
+    "amountToWithdraw",
+    "recipientToWithdraw",
+    "timeToWithdrawal",
+  ],
+};
+
+const ADDRESS_KEYS: Record<
+  EvvmReaderContract,
+  | "evvmAddress"
+  | "nameServiceAddress"
+  | "stakingAddress"
+  | "p2pSwapAddress"
+  | "estimatorAddress"
+> = {
+  evvm: "evvmAddress",
+  nameService: "nameServiceAddress",
+  staking: "stakingAddress",
+  p2pSwap: "p2pSwapAddress",
+  estimator: "estimatorAddress",
+};
+
+/**
+ * Cache key of a read, bigint-safe.
+ */
+function cacheKey(
+  contract: EvvmReaderContract,
+  functionName: string,
+  args: readonly unknown[],
+): string {
+  return `${contract}:${functionName}:${JSON.stringify(args, (_key, value) =>
+    typeof value === "bigint" ? `${value}n` : value,
+  )}`;
+}
+
+/**
+ * Turns the array returned for several outputs into an object keyed by output name.
+ */
+function nameOutputs(item: AbiFunction, result: unknown): unknown {
+  if (item.outputs.length < 2 || !Array.isArray(result)) return result;
+
+  const names = OUTPUT_NAMES[item.name] ?? item.outputs.map((output) => output.name);
+  return Object.fromEntries(
+    names.map((name, index) => [name || `${index}`, result[index]]),
+  );
+}
+
+/**
+ * EVVM Reader
+ *
+ * Read-only client with a method per getter of the Evvm, NameService, Staking,
+ * P2PSwap and Estimator contracts, e.g. `reader.evvm.getBalance(user, token)`.
+ * Struct results come back as the objects decoded by viem and getters with
+ * several outputs as objects keyed by output name. Reads are cached for
+ * `cacheTtl` milliseconds; `watch()` clears the cache whenever an executor
+ * confirms one of our transactions.
+ */
+export class EvvmReader {
+  readonly evvm: ContractReader<typeof EvvmABI>;
+  readonly nameService: ContractReader<typeof NameServiceABI, NameServiceReaderOverrides>;
+  readonly staking: ContractReader<typeof StakingABI, StakingReaderOverrides>;
+  readonly p2pSwap: ContractReader<typeof P2PSwapABI, P2PSwapReaderOverrides>;
+  readonly estimator: ContractReader<typeof EstimatorABI>;
+
+  private readonly cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(private readonly config: EvvmReaderConfig) {
+    this.evvm = this.contractReader("evvm", EvvmABI) as EvvmReader["evvm"];
+    this.nameService = this.contractReader(
+      "nameService",
+      NameServiceABI,
+    ) as EvvmReader["nameService"];
+    this.staking = this.contractReader("staking", StakingABI) as EvvmReader["staking"];
+    this.p2pSwap = this.contractReader("p2pSwap", P2PSwapABI) as EvvmReader["p2pSwap"];
+    this.estimator = this.contractReader(
+      "estimator",
+      EstimatorABI,
+    ) as EvvmReader["estimator"];
+  }
+
+  /**
+   * Drops cached reads.
+   * @param contract Contract whose reads are dropped, every contract when omitted
+   */
+  invalidate(contract?: EvvmReaderContract): void {
+    if (!contract) {
+      this.cache.clear();
+      return;
+    }
+    for (const key of [...this.cache.keys()]) {
+      if (key.startsWith(`${contract}:`)) this.cache.delete(key);
+    }
+  }
+
+  /**
+   * Clears the cache each time the executor confirms a transaction.
+   * Any action can move balances and nonces across contracts, so every read is dropped.
+   * @param executor Executor submitting our actions
+   * @returns Function that stops watching
+   */
+  watch(executor: TransactionExecutor): () => void {
+    return executor.onConfirmed(() => this.invalidate());
+  }
+
+  /**
+   * Reads the balances, nonce, staking state, usernames and P2PSwap orders of
+   * an account in multicall batches, bypassing the cache.
+   * @param address Account to read
+   * @param options Tokens, usernames and markets to include
+   * @returns Promise resolving to the snapshot
+   */
+  async getAccountSnapshot(
+    address: `0x${string}`,
+    options?: AccountSnapshotOptions,
+  ): Promise<AccountSnapshot> {
+    return await getAccountSnapshot(this.config, address, options);
+  }
+
+  // typed by the readonly fields, the methods are built from the ABI at runtime
+  private contractReader(contract: EvvmReaderContract, abi: Abi): unknown {
+    const methods: Record<string, (...args: readonly unknown[]) => Promise<unknown>> = {};
+
+    for (const item of abi) {
+      if (
+        item.type !== "function" ||
+        (item.stateMutability !== "view" && item.stateMutability !== "pure")
+      ) {
+        continue;
+      }
+      methods[item.name] = (...args) => this.read(contract, abi, item, args);
+    }
+
+    return methods;
+  }
+
+  private async read(
+    contract: EvvmReaderContract,
+    abi: Abi,
+    item: AbiFunction,
+    args: readonly unknown[],
+  ): Promise<unknown> {
+    const address = this.config[ADDRESS_KEYS[contract]];
+    if (!address) {
+      throw new Error(`EvvmReader: '${ADDRESS_KEYS[contract]}' is not configured`);
+    }
+
+    const ttl = this.config.cacheTtl ?? 10_000;
+    const now = (this.config.now ?? Date.now)();
+    const key = cacheKey(contract, item.name, args);
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) return await cached.value;
+
+    const value = this.config.publicClient
+      .readContract({ address, abi, functionName: item.name, args })
+      .then((result) => nameOutputs(item, result));
+
+    if (ttl > 0) {
+      this.cache.set(key, { expiresAt: now + ttl, value });
+      // failed reads are not reused
+      value.catch(() => {
+        if (this.cache.get(key)?.value === value) this.cache.delete(key);
+      });
+    }
+
+    return await value;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './evvmReader';
+export * from './accountSnapshot';
@@ -0,0 +1,2 @@
+export * from './recipientResolver';
+export * from './recipientEntry';
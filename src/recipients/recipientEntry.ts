@@ -0,0 +1,56 @@
+import { zeroAddress } from "viem";
+import { classifyRecipient, RecipientResolver, RecipientWarning } from "./recipientResolver";
+
+/**
+ * Payment fields of a recipient, as listed by payout imports and disperse payments.
+ */
+export type RecipientEntry = {
+  to_address: `0x${string}`;
+  to_identity: string;
+  // account receiving the amount, unknown for usernames read without a resolver
+  owner?: `0x${string}`;
+  // expiry warnings of the username
+  warnings: RecipientWarning[];
+};
+
+/**
+ * Turns an address or username into payment fields: resolved on chain when a
+ * resolver is given, only classified offline otherwise.
+ * @param recipient Address or username
+ * @param resolver Resolver checking usernames on chain
+ * @returns Promise resolving to the payment fields
+ * @throws RecipientResolutionError if the recipient cannot be paid
+ */
+async function toRecipientEntry(
+  recipient: string,
+  resolver?: RecipientResolver,
+): Promise<RecipientEntry> {
+  if (resolver) {
+    const { to_address, to_identity, owner, warnings } = await resolver.resolve(recipient);
+    return { to_address, to_identity, owner, warnings };
+  }
+
+  const value = recipient.trim();
+  const isAddress = classifyRecipient(value) === "address";
+  return {
+    to_address: isAddress ? (value as `0x${string}`) : zeroAddress,
+    to_identity: isAddress ? "" : value,
+    owner: isAddress ? (value as `0x${string}`) : undefined,
+    warnings: [],
+  };
+}
+
+/**
+ * Keys under which a recipient is listed: the username or address it is paid
+ * to, then the account it pays when known. Two entries sharing a `recipient:`
+ * key are the same recipient, two sharing an `owner:` key pay the same account.
+ * @param entry Payment fields of the recipient
+ * @returns Recipient key, followed by the owner key when the owner is known
+ */
+function recipientKeys(entry: RecipientEntry): string[] {
+  const keys = [`recipient:${entry.to_identity || entry.to_address.toLowerCase()}`];
+  if (entry.owner) keys.push(`owner:${entry.owner.toLowerCase()}`);
+  return keys;
+}
+
+export { toRecipientEntry, recipientKeys };
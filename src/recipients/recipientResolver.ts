@@ -0,0 +1,300 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  isAddress,
+  isAddressEqual,
+  PublicClient,
+  zeroAddress,
+} from "viem";
+import { NameServiceABI } from "../abi";
+import { NameServiceValidationIssue, validateUsernameFormat } from "../utils";
+
+/**
+ * How a free-form recipient is paid:
+ * - address: `to_address` is the recipient, `to_identity` is empty
+ * - username: `to_identity` is the recipient, the Evvm contract pays its owner
+ */
+export type RecipientKind = "address" | "username";
+
+export type RecipientResolutionCode =
+  | "INVALID_ADDRESS"
+  | "ZERO_ADDRESS"
+  | "INVALID_USERNAME"
+  | "USERNAME_NOT_REGISTERED";
+
+export type RecipientWarningCode = "USERNAME_EXPIRES_SOON" | "USERNAME_EXPIRED";
+
+export type RecipientWarning = {
+  code: RecipientWarningCode;
+  // values to interpolate in a localized message
+  params: Record<string, string | number>;
+  // English default message
+  message: string;
+};
+
+export type ResolvedRecipient = {
+  // recipient as typed, without surrounding whitespace
+  recipient: string;
+  kind: RecipientKind;
+  // fields of PayInputData and DispersePayMetadata
+  to_address: `0x${string}`;
+  to_identity: string;
+  // account receiving the funds
+  owner: `0x${string}`;
+  // username to display: the one paid, or the reverse lookup of an address
+  username?: string;
+  // unix time (seconds), read when expiry warnings are enabled
+  expireDate?: bigint;
+  warnings: RecipientWarning[];
+};
+
+export type RecipientResolverConfig = {
+  publicClient: PublicClient;
+  nameServiceAddress: `0x${string}`;
+  // Seconds before expiry from which a username gets a warning, expiry is not read when omitted
+  expiryWarningWindow?: bigint;
+  // Current unix time in seconds, defaults to the local clock
+  now?: () => bigint;
+  // Usernames possibly owned by an address (e.g. from an indexer), NameService has no reverse record
+  lookupUsernames?: (address: `0x${string}`) => Promise<readonly string[]>;
+};
+
+export type ResolveRecipientOptions = {
+  // Looks up a username to display for address recipients
+  reverseLookup?: boolean;
+};
+
+/**
+ * Error thrown when a recipient cannot be paid.
+ * `issues` lists the format issues of an invalid username.
+ */
+export class RecipientResolutionError extends Error {
+  constructor(
+    public readonly code: RecipientResolutionCode,
+    public readonly recipient: string,
+    message: string,
+    public readonly issues: NameServiceValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = "RecipientResolutionError";
+  }
+}
+
+function currentTime(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Tells whether a recipient is an address or a username, offline.
+ * Anything starting with `0x` is read as an address, so a mistyped address is
+ * refused instead of being sent as a username; mixed-case addresses must have a
+ * valid checksum.
+ * @param recipient Recipient as typed by the user
+ * @returns Kind of the recipient
+ * @throws RecipientResolutionError if it is neither a valid address nor a valid username
+ */
+function classifyRecipient(recipient: string): RecipientKind {
+  const value = recipient.trim();
+
+  if (/^0x/i.test(value)) {
+    if (!isAddress(value)) {
+      throw new RecipientResolutionError(
+        "INVALID_ADDRESS",
+        value,
+        `"${value}" is not a valid address`,
+      );
+    }
+    if (isAddressEqual(value, zeroAddress)) {
+      throw new RecipientResolutionError(
+        "ZERO_ADDRESS",
+        value,
+        "Payments to the zero address are lost",
+      );
+    }
+    return "address";
+  }
+
+  const format = validateUsernameFormat(value);
+  if (!format.valid) {
+    throw new RecipientResolutionError(
+      "INVALID_USERNAME",
+      value,
+      `"${value}" is not a valid address or username: ${format.issues[0].message}`,
+      format.issues,
+    );
+  }
+  return "username";
+}
+
+/**
+ * Recipient Resolver
+ *
+ * Turns what a user typed in a "to" field into the `to_address` / `to_identity`
+ * pair of PayInputData and DispersePayMetadata. Usernames are checked with
+ * `verifyStrictAndGetOwnerOfIdentity` before anything is signed, so payments to
+ * unregistered or mistyped names are refused instead of reverting on execution.
+ * Addresses can be reverse-looked-up to a username for display.
+ */
+export class RecipientResolver {
+  private readonly now: () => bigint;
+  // owners of the usernames resolved so far, lowercase address to usernames
+  private readonly seen = new Map<string, Set<string>>();
+
+  constructor(private readonly config: RecipientResolverConfig) {
+    this.now = config.now ?? currentTime;
+  }
+
+  /**
+   * Resolves a recipient to the fields of a payment.
+   * @param recipient Address or username as typed by the user
+   * @param options Reverse lookup of address recipients
+   * @returns Promise resolving to the recipient, with expiry warnings when enabled
+   * @throws RecipientResolutionError if the recipient cannot be paid
+   */
+  async resolve(
+    recipient: string,
+    options: ResolveRecipientOptions = {},
+  ): Promise<ResolvedRecipient> {
+    const value = recipient.trim();
+
+    if (classifyRecipient(value) === "address") {
+      const address = value as `0x${string}`;
+      return {
+        recipient: value,
+        kind: "address",
+        to_address: address,
+        to_identity: "",
+        owner: address,
+        username: options.reverseLookup
+          ? await this.lookupUsername(address)
+          : undefined,
+        warnings: [],
+      };
+    }
+
+    const owner = await this.ownerOf(value);
+    if (!owner) {
+      throw new RecipientResolutionError(
+        "USERNAME_NOT_REGISTERED",
+        value,
+        `Username "${value}" is not registered`,
+      );
+    }
+    this.remember(owner, value);
+
+    const resolved: ResolvedRecipient = {
+      recipient: value,
+      kind: "username",
+      to_address: zeroAddress,
+      to_identity: value,
+      owner,
+      username: value,
+      warnings: [],
+    };
+
+    const { expiryWarningWindow } = this.config;
+    if (expiryWarningWindow !== undefined) {
+      resolved.expireDate = await this.config.publicClient.readContract({
+        address: this.config.nameServiceAddress,
+        abi: NameServiceABI,
+        functionName: "getExpireDateOfIdentity",
+        args: [value],
+      });
+      const warning = this.expiryWarning(value, resolved.expireDate, expiryWarningWindow);
+      if (warning) resolved.warnings.push(warning);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Finds a username owned by an address, for display.
+   * Candidates are the usernames this resolver resolved to the address and those
+   * returned by `lookupUsernames`; each is checked on chain, so stale candidates
+   * are skipped.
+   * @param address Address to look up
+   * @returns Promise resolving to the first username the address still owns, or undefined
+   */
+  async lookupUsername(address: `0x${string}`): Promise<string | undefined> {
+    const candidates = new Set(this.seen.get(address.toLowerCase()));
+    for (const username of (await this.config.lookupUsernames?.(address)) ?? []) {
+      candidates.add(username);
+    }
+
+    for (const username of candidates) {
+      const { owner, expireDate } = await this.basicMetadata(username);
+      if (isAddressEqual(owner, address) && expireDate > this.now()) {
+        this.remember(address, username);
+        return username;
+      }
+    }
+    return undefined;
+  }
+
+  private async ownerOf(username: string): Promise<`0x${string}` | undefined> {
+    try {
+      const owner = await this.config.publicClient.readContract({
+        address: this.config.nameServiceAddress,
+        abi: NameServiceABI,
+        functionName: "verifyStrictAndGetOwnerOfIdentity",
+        args: [username],
+      });
+      return isAddressEqual(owner, zeroAddress) ? undefined : owner;
+    } catch (error) {
+      // the strict check reverts for usernames that do not exist
+      if (
+        error instanceof BaseError &&
+        error.walk((cause) => cause instanceof ContractFunctionRevertedError)
+      ) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async basicMetadata(
+    username: string,
+  ): Promise<{ owner: `0x${string}`; expireDate: bigint }> {
+    const [owner, expireDate] = await this.config.publicClient.readContract({
+      address: this.config.nameServiceAddress,
+      abi: NameServiceABI,
+      functionName: "getIdentityBasicMetadata",
+      args: [username],
+    });
+    return { owner, expireDate };
+  }
+
+  private expiryWarning(
+    username: string,
+    expireDate: bigint,
+    window: bigint,
+  ): RecipientWarning | undefined {
+    const now = this.now();
+
+    if (expireDate <= now) {
+      return {
+        code: "USERNAME_EXPIRED",
+        params: { username, expireDate: expireDate.toString() },
+        message: `Username "${username}" has expired and can be claimed by someone else`,
+      };
+    }
+    if (expireDate - now <= window) {
+      const days = Number((expireDate - now) / 86_400n);
+      return {
+        code: "USERNAME_EXPIRES_SOON",
+        params: { username, expireDate: expireDate.toString(), days },
+        message: `Username "${username}" expires in ${days} day(s)`,
+      };
+    }
+    return undefined;
+  }
+
+  private remember(owner: `0x${string}`, username: string): void {
+    const key = owner.toLowerCase();
+    const usernames = this.seen.get(key) ?? new Set<string>();
+    usernames.add(username);
+    this.seen.set(key, usernames);
+  }
+}
+
+export { classifyRecipient };
@@ -0,0 +1,339 @@
+import {
+  assertNameServiceInput,
+  hashPreRegisteredUsername,
+  validateUsernameFormat,
+} from "../utils";
+import {
+  Amount,
+  PreRegistrationUsernameInputData,
+  RegistrationUsernameInputData,
+} from "../types";
+import { NameServiceSignatureBuilder } from "../signatures";
+
+/**
+ * Key/value storage keeping registration secrets between sessions.
+ * Same shape as the Web Storage API, so `localStorage` can be passed as is.
+ */
+export interface RegistrationSecretStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Registration progress of a username.
+ * - pending: secret generated, pre-registration signed but not confirmed on chain
+ * - preRegistered: pre-registration mined, waiting for the registration window
+ * - registered: registration mined, the secret is no longer needed
+ */
+export type UsernameRegistrationStatus = "pending" | "preRegistered" | "registered";
+
+export type UsernameRegistrationRecord = {
+  username: string;
+  user: `0x${string}`;
+  // secret committed in the pre-registration, revealed in the registration
+  clowNumber: bigint;
+  hashPreRegisteredUsername: `0x${string}`;
+  status: UsernameRegistrationStatus;
+  // unix time (seconds) the pre-registration was mined
+  preRegisteredAt?: bigint;
+  // unix time (seconds) from which registrationUsername is accepted
+  registrableAt?: bigint;
+};
+
+export type UsernameRegistrationConfig = {
+  builder: NameServiceSignatureBuilder;
+  evvmID: bigint;
+  nameServiceAddress: `0x${string}`;
+  // Defaults to an in-memory storage, lost when the session ends
+  storage?: RegistrationSecretStorage;
+  // Seconds between pre-registration and registration, defaults to 30 minutes
+  waitTime?: bigint;
+  // Current unix time in seconds, defaults to the local clock
+  now?: () => bigint;
+  // Source of the clowNumber, defaults to a random 256 bit value
+  generateClowNumber?: () => bigint;
+};
+
+export type PreRegistrationUsernameParams = {
+  nonce: bigint;
+  priorityFee_EVVM: Amount;
+  nonce_EVVM: bigint;
+  priorityFlag_EVVM: boolean;
+};
+
+export type RegistrationUsernameParams = PreRegistrationUsernameParams & {
+  mateReward: Amount;
+};
+
+// Wait enforced by NameService between pre-registration and registration
+const DEFAULT_WAIT_TIME = 30n * 60n;
+
+const STORAGE_PREFIX = "evvm:usernameRegistration";
+
+type StoredRecord = Omit<
+  UsernameRegistrationRecord,
+  "clowNumber" | "preRegisteredAt" | "registrableAt"
+> & {
+  clowNumber: string;
+  preRegisteredAt?: string;
+  registrableAt?: string;
+};
+
+/**
+ * In-memory registration secret storage, used when none is configured.
+ */
+export class InMemoryRegistrationSecretStorage
+  implements RegistrationSecretStorage
+{
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Generates a random 256 bit clowNumber.
+ * @returns Random clowNumber
+ */
+function randomClowNumber(): bigint {
+  return crypto
+    .getRandomValues(new Uint32Array(8))
+    .reduce((value, word) => (value << 32n) | BigInt(word), 0n);
+}
+
+function currentTime(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Username Registration
+ *
+ * Drives the NameService commit-reveal registration of a username:
+ * `preRegistrationUsername` commits to `hashPreRegisteredUsername(username, clowNumber)`,
+ * and once the wait time has passed `registrationUsername` reveals the same clowNumber.
+ * The clowNumber is generated here and persisted before anything is signed,
+ * so losing the session does not lose the pre-registration.
+ */
+export class UsernameRegistration {
+  private readonly storage: RegistrationSecretStorage;
+  private readonly waitTime: bigint;
+  private readonly now: () => bigint;
+  private readonly generateClowNumber: () => bigint;
+
+  constructor(private readonly config: UsernameRegistrationConfig) {
+    this.storage = config.storage ?? new InMemoryRegistrationSecretStorage();
+    this.waitTime = config.waitTime ?? DEFAULT_WAIT_TIME;
+    this.now = config.now ?? currentTime;
+    this.generateClowNumber = config.generateClowNumber ?? randomClowNumber;
+  }
+
+  /**
+   * Signs the pre-registration of a username.
+   * Reuses the stored clowNumber of a pending registration, so a retried
+   * pre-registration commits to the same secret.
+   * @param username Username to register
+   * @param params NameService nonce and EVVM payment fields
+   * @returns Promise resolving to the preRegistrationUsername input data
+   * @throws NameServiceValidationError if the username breaks the NameService format rules
+   * @throws Error if the username is already pre-registered or registered
+   */
+  async preRegister(
+    username: string,
+    params: PreRegistrationUsernameParams,
+  ): Promise<PreRegistrationUsernameInputData> {
+    assertNameServiceInput(validateUsernameFormat(username));
+
+    let record = await this.get(username);
+
+    if (record && record.status !== "pending") {
+      throw new Error(
+        `Username "${username}" is already ${record.status}, pre-registration not needed`,
+      );
+    }
+
+    if (!record) {
+      const clowNumber = this.generateClowNumber();
+      record = {
+        username,
+        user: this.user,
+        clowNumber,
+        hashPreRegisteredUsername: hashPreRegisteredUsername(username, clowNumber),
+        status: "pending",
+      };
+      await this.save(record);
+    }
+
+    return await this.config.builder.signPreRegistrationUsername(
+      this.config.evvmID,
+      this.config.nameServiceAddress,
+      username,
+      record.clowNumber,
+      params.nonce,
+      params.priorityFee_EVVM,
+      params.nonce_EVVM,
+      params.priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Records that the pre-registration was mined and starts the wait time.
+   * @param username Pre-registered username
+   * @param preRegisteredAt Timestamp (seconds) of the block including the pre-registration, defaults to now
+   * @returns Promise resolving to the updated record
+   * @throws Error if no pre-registration was signed for the username
+   */
+  async confirmPreRegistration(
+    username: string,
+    preRegisteredAt: bigint = this.now(),
+  ): Promise<UsernameRegistrationRecord> {
+    const record = await this.require(username);
+
+    const updated: UsernameRegistrationRecord = {
+      ...record,
+      status: "preRegistered",
+      preRegisteredAt,
+      registrableAt: preRegisteredAt + this.waitTime,
+    };
+    await this.save(updated);
+    return updated;
+  }
+
+  /**
+   * Seconds left before the registration can be signed.
+   * @param username Pre-registered username
+   * @returns Promise resolving to the remaining seconds, 0n once the window is open
+   * @throws Error if the pre-registration was not confirmed
+   */
+  async timeUntilRegistration(username: string): Promise<bigint> {
+    const record = await this.require(username);
+
+    if (record.registrableAt === undefined) {
+      throw new Error(
+        `Pre-registration of "${username}" is not confirmed, call confirmPreRegistration first`,
+      );
+    }
+
+    const now = this.now();
+    return record.registrableAt > now ? record.registrableAt - now : 0n;
+  }
+
+  /**
+   * Signs the registration of a pre-registered username with the stored clowNumber.
+   * @param username Pre-registered username
+   * @param params NameService nonce, mate reward and EVVM payment fields
+   * @returns Promise resolving to the registrationUsername input data
+   * @throws Error if the pre-registration is not confirmed or the wait time has not passed
+   */
+  async register(
+    username: string,
+    params: RegistrationUsernameParams,
+  ): Promise<RegistrationUsernameInputData> {
+    const record = await this.require(username);
+
+    if (record.status !== "preRegistered") {
+      throw new Error(
+        `Username "${username}" is ${record.status}, registration needs a confirmed pre-registration`,
+      );
+    }
+
+    const remaining = await this.timeUntilRegistration(username);
+    if (remaining > 0n) {
+      throw new Error(
+        `Registration of "${username}" opens in ${remaining} seconds`,
+      );
+    }
+
+    return await this.config.builder.signRegistrationUsername(
+      this.config.evvmID,
+      this.config.nameServiceAddress,
+      username,
+      record.clowNumber,
+      params.nonce,
+      params.mateReward,
+      params.priorityFee_EVVM,
+      params.nonce_EVVM,
+      params.priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Records that the registration was mined and drops the stored secret.
+   * @param username Registered username
+   * @returns Promise resolving to the final record
+   */
+  async confirmRegistration(
+    username: string,
+  ): Promise<UsernameRegistrationRecord> {
+    const record = await this.require(username);
+    await this.storage.removeItem(this.key(username));
+    return { ...record, status: "registered" };
+  }
+
+  /**
+   * Forgets a registration, e.g. after its pre-registration expired.
+   * @param username Username to forget
+   */
+  async discard(username: string): Promise<void> {
+    await this.storage.removeItem(this.key(username));
+  }
+
+  /**
+   * Reads the stored registration of a username for the builder account.
+   * @param username Username
+   * @returns Promise resolving to the record, or undefined if none is stored
+   */
+  async get(username: string): Promise<UsernameRegistrationRecord | undefined> {
+    const raw = await this.storage.getItem(this.key(username));
+    if (raw === null) return undefined;
+
+    const stored = JSON.parse(raw) as StoredRecord;
+    return {
+      ...stored,
+      clowNumber: BigInt(stored.clowNumber),
+      preRegisteredAt:
+        stored.preRegisteredAt === undefined
+          ? undefined
+          : BigInt(stored.preRegisteredAt),
+      registrableAt:
+        stored.registrableAt === undefined
+          ? undefined
+          : BigInt(stored.registrableAt),
+    };
+  }
+
+  private get user(): `0x${string}` {
+    return this.config.builder.signerAddress;
+  }
+
+  private key(username: string): string {
+    return `${STORAGE_PREFIX}:${this.config.evvmID}:${this.user.toLowerCase()}:${username}`;
+  }
+
+  private async require(username: string): Promise<UsernameRegistrationRecord> {
+    const record = await this.get(username);
+    if (!record) {
+      throw new Error(`No registration of "${username}" found for ${this.user}`);
+    }
+    return record;
+  }
+
+  private async save(record: UsernameRegistrationRecord): Promise<void> {
+    const stored: StoredRecord = {
+      ...record,
+      clowNumber: record.clowNumber.toString(),
+      preRegisteredAt: record.preRegisteredAt?.toString(),
+      registrableAt: record.registrableAt?.toString(),
+    };
+    await this.storage.setItem(this.key(record.username), JSON.stringify(stored));
+  }
+}
@@ -0,0 +1,236 @@
+import { isAddress, zeroAddress } from "viem";
+import { recipientKeys, RecipientEntry, toRecipientEntry } from "../recipients";
+import { Amount, DispersePayInputData, DispersePayMetadata } from "../types";
+import { toRawAmount } from "../tokens";
+import { hashDispersePaymentUsersToPay } from "../utils";
+import { EVVMSignatureBuilder } from "./evvm";
+import type { RecipientResolver } from "../recipients";
+
+export type DispersePayBuilderOptions = {
+  evvmID: bigint;
+  // Token paid to every recipient
+  token: `0x${string}`;
+  // Checks usernames on chain, without it they are only format-checked
+  resolver?: RecipientResolver;
+  // Maximum number of recipients accepted
+  maxRecipients?: number;
+};
+
+export type DispersePayRecipient = DispersePayMetadata & RecipientEntry;
+
+export type DispersePaySignParams = {
+  priorityFee: Amount;
+  nonce: bigint;
+  priority: boolean;
+  executor: `0x${string}`;
+};
+
+/**
+ * Whether a `to_address` field is left empty.
+ */
+function isEmptyAddress(address: string): boolean {
+  return address === "" || address.toLowerCase() === zeroAddress;
+}
+
+/**
+ * DispersePay Builder
+ *
+ * Assembles the recipient list of a `dispersePay` and signs it. Each recipient
+ * is an address or a username, validated (and resolved when a resolver is
+ * given) as it is added; duplicates and empty amounts are refused. The signed
+ * amount is the sum of the recipient amounts, so it always matches `toData`,
+ * and `hash()` exposes the `hashDispersePaymentUsersToPay` value the signature
+ * commits to.
+ */
+export class DispersePayBuilder {
+  private readonly recipients: DispersePayRecipient[] = [];
+  // recipientKeys() of the listed recipients
+  private readonly listed = new Map<string, DispersePayRecipient>();
+
+  constructor(private readonly options: DispersePayBuilderOptions) {}
+
+  /**
+   * Checks the fields of signed disperse payment input data, leaving its
+   * signature aside: each `toData` entry as `addMetadata()` does, and the
+   * signed amount against the sum of the entries.
+   * @param input Signed disperse payment input data
+   * @throws RecipientResolutionError if a recipient cannot be paid
+   * @throws Error if an address is malformed, a recipient is invalid or listed
+   * twice, or the amount is not the sum of the recipient amounts
+   */
+  static async assertValidInput(input: DispersePayInputData): Promise<void> {
+    if (
+      !isAddress(input.from, { strict: false }) ||
+      !isAddress(input.token, { strict: false }) ||
+      !isAddress(input.executor, { strict: false })
+    ) {
+      throw new Error("Invalid 'from', 'token' or 'executor' address in disperse payment");
+    }
+    if (input.priorityFee < 0n || input.nonce < 0n) {
+      throw new Error("Disperse payment priority fee and nonce must not be negative");
+    }
+
+    // only sign() reads the EVVM ID
+    const recipients = new DispersePayBuilder({ evvmID: 0n, token: input.token });
+    for (const entry of input.toData) await recipients.addMetadata(entry);
+    if (recipients.size === 0) {
+      throw new Error("Disperse payment has no recipients");
+    }
+    if (recipients.total !== input.amount) {
+      throw new Error(
+        `Disperse payment signs ${input.amount} but its recipients add up to ${recipients.total}`,
+      );
+    }
+  }
+
+  /**
+   * Number of recipients.
+   */
+  get size(): number {
+    return this.recipients.length;
+  }
+
+  /**
+   * Amount signed and paid: the sum of the recipient amounts.
+   */
+  get total(): bigint {
+    return this.recipients.reduce((total, recipient) => total + recipient.amount, 0n);
+  }
+
+  /**
+   * Recipients in the order they are paid, with their owner and warnings.
+   */
+  getRecipients(): readonly DispersePayRecipient[] {
+    return this.recipients;
+  }
+
+  /**
+   * The `toData` array of DispersePayInputData.
+   */
+  toData(): DispersePayMetadata[] {
+    return this.recipients.map(({ amount, to_address, to_identity }) => ({
+      amount,
+      to_address,
+      to_identity,
+    }));
+  }
+
+  /**
+   * Hash of the recipient list included in the signed message.
+   * @returns `hashDispersePaymentUsersToPay(toData)`
+   */
+  hash(): `0x${string}` {
+    return hashDispersePaymentUsersToPay(this.toData());
+  }
+
+  /**
+   * Validates a recipient and adds it to the list.
+   * @param to Address or username
+   * @param amount Amount paid to the recipient
+   * @returns Promise resolving to the added recipient
+   * @throws RecipientResolutionError if the recipient cannot be paid
+   * @throws Error if the list is full, the amount is not positive or the recipient is already listed
+   */
+  async add(to: string, amount: Amount): Promise<DispersePayRecipient> {
+    const { maxRecipients, resolver, token } = this.options;
+
+    if (maxRecipients !== undefined && this.recipients.length >= maxRecipients) {
+      throw new Error(`Recipient list is full: maximum of ${maxRecipients} recipients`);
+    }
+    const rawAmount = toRawAmount(amount, token);
+    if (rawAmount <= 0n) {
+      throw new Error(`Amount paid to ${to.trim()} must be positive`);
+    }
+
+    const recipient: DispersePayRecipient = {
+      amount: rawAmount,
+      ...(await toRecipientEntry(to, resolver)),
+    };
+
+    const keys = recipientKeys(recipient);
+    this.assertNotListed(recipient, keys);
+    keys.forEach((key) => this.listed.set(key, recipient));
+    this.recipients.push(recipient);
+    return recipient;
+  }
+
+  /**
+   * Validates a DispersePayMetadata entry and adds it to the list.
+   * Exactly one of `to_address` and `to_identity` must be set.
+   * @param entry Recipient entry
+   * @returns Promise resolving to the added recipient
+   * @throws Error if both or neither recipient fields are set, or as `add()`
+   */
+  async addMetadata(entry: DispersePayMetadata): Promise<DispersePayRecipient> {
+    const hasAddress = !isEmptyAddress(entry.to_address);
+    const hasIdentity = entry.to_identity !== "";
+
+    if (hasAddress === hasIdentity) {
+      throw new Error(
+        hasAddress
+          ? `Recipient sets both 'to_address' (${entry.to_address}) and 'to_identity' (${entry.to_identity})`
+          : "Recipient needs a 'to_address' or a 'to_identity'",
+      );
+    }
+    return await this.add(hasIdentity ? entry.to_identity : entry.to_address, entry.amount);
+  }
+
+  /**
+   * Signs the disperse payment for the listed recipients.
+   * @param builder Signature builder of the paying user
+   * @param params Priority fee, nonce, priority flag and executor
+   * @returns Promise resolving to the complete input data
+   * @throws Error if the list is empty
+   */
+  async sign(
+    builder: EVVMSignatureBuilder,
+    params: DispersePaySignParams,
+  ): Promise<DispersePayInputData> {
+    if (this.recipients.length === 0) {
+      throw new Error("Cannot sign a disperse payment without recipients");
+    }
+
+    const { evvmID, token } = this.options;
+    const toData = this.toData();
+    const amount = this.total;
+    const priorityFee = toRawAmount(params.priorityFee, token);
+
+    const signature = await builder.signDispersePay(
+      evvmID,
+      toData,
+      token,
+      amount,
+      priorityFee,
+      params.nonce,
+      params.priority,
+      params.executor,
+    );
+
+    return {
+      from: builder.signerAddress,
+      toData,
+      token,
+      amount,
+      priorityFee,
+      priority: params.priority,
+      nonce: params.nonce,
+      executor: params.executor,
+      signature,
+    };
+  }
+
+  private assertNotListed(recipient: DispersePayRecipient, [key, ownerKey]: string[]): void {
+    if (this.listed.has(key)) {
+      throw new Error(
+        `Recipient ${recipient.to_identity || recipient.to_address} is already listed`,
+      );
+    }
+    // a username and its owner's address pay the same account
+    const listed = ownerKey ? this.listed.get(ownerKey) : undefined;
+    if (listed) {
+      throw new Error(
+        `${recipient.to_identity || recipient.to_address} and ${listed.to_identity || listed.to_address} pay the same account ${recipient.owner}`,
+      );
+    }
+  }
+}
@@ -3,7 +3,8 @@ import {
   buildMessageSignedForPay,
   hashDispersePaymentUsersToPay,
 } from "../utils";
-import { DispersePayMetadata } from "../types";
+import { Amount, DispersePayMetadata } from "../types";
+import { toRawAmount } from "../tokens";
 import { SignatureBuilder } from "./signature-builder";
 
 /**
@@ -30,8 +31,8 @@ export class EVVMSignatureBuilder extends SignatureBuilder {
     evvmID: bigint,
     to: string,
     tokenAddress: `0x${string}`,
-    amount: bigint,
-    priorityFee: bigint,
+    amount: Amount,
+    priorityFee: Amount,
     nonce: bigint,
     priorityFlag: boolean,
     executor: `0x${string}`,
@@ -40,8 +41,8 @@ export class EVVMSignatureBuilder extends SignatureBuilder {
       evvmID,
       to,
       tokenAddress,
-      amount,
-      priorityFee,
+      toRawAmount(amount, tokenAddress),
+      toRawAmount(priorityFee, tokenAddress),
       nonce,
       priorityFlag,
       executor,
@@ -66,8 +67,8 @@ export class EVVMSignatureBuilder extends SignatureBuilder {
     evvmID: bigint,
     toData: DispersePayMetadata[],
     tokenAddress: `0x${string}`,
-    amount: bigint,
-    priorityFee: bigint,
+    amount: Amount,
+    priorityFee: Amount,
     nonce: bigint,
     priorityFlag: boolean,
     executor: `0x${string}`,
@@ -77,8 +78,8 @@ export class EVVMSignatureBuilder extends SignatureBuilder {
       evvmID,
       hashedEncodedData,
       tokenAddress,
-      amount,
-      priorityFee,
+      toRawAmount(amount, tokenAddress),
+      toRawAmount(priorityFee, tokenAddress),
       nonce,
       priorityFlag,
       executor,
@@ -0,0 +1,141 @@
+import { Account, PublicClient, WalletClient } from "viem";
+import { EvvmABI } from "../abi";
+import { constructMessageForDepositFisher } from "../utils";
+import { Amount, FisherBridgeInputData } from "../types";
+import { ETH_TOKEN_ADDRESS, toRawAmount } from "../tokens";
+import { SignatureBuilder } from "./signature-builder";
+
+export type FisherBridgeConfig = {
+  // Needed to fetch deposit nonces with getNextFisherDepositNonce
+  publicClient?: PublicClient;
+  evvmAddress?: `0x${string}`;
+};
+
+/**
+ * Fisher Bridge Signature Builder
+ *
+ * Signs the deposits fishers relay from an external chain into EVVM. Native
+ * messages are "<receiver>,<nonce>,<priorityFee>,<amount>" and ERC20 messages
+ * add the token after the nonce (see constructMessageForDepositFisher).
+ * Deposit nonces are fetched from `getNextFisherDepositNonce` when not given.
+ *
+ * There are no withdrawal signers: the message carries no direction, so a
+ * withdrawal signed in this format would also authorize a deposit with the same
+ * fields.
+ */
+export class FisherBridgeSignatureBuilder extends SignatureBuilder {
+  constructor(
+    walletClient: WalletClient,
+    account: Account,
+    private readonly bridge: FisherBridgeConfig = {},
+  ) {
+    super(walletClient, account);
+  }
+
+  /**
+   * Reads the next fisher deposit nonce of a user.
+   * @param user Depositor, defaults to the builder account
+   * @returns Promise resolving to the nonce
+   * @throws Error if no public client or Evvm address is configured
+   */
+  async getNextDepositNonce(
+    user: `0x${string}` = this.account.address,
+  ): Promise<bigint> {
+    const { publicClient, evvmAddress } = this.bridge;
+    if (!publicClient || !evvmAddress) {
+      throw new Error(
+        "FisherBridgeSignatureBuilder needs a public client and the Evvm address to fetch nonces",
+      );
+    }
+
+    return await publicClient.readContract({
+      address: evvmAddress,
+      abi: EvvmABI,
+      functionName: "getNextFisherDepositNonce",
+      args: [user],
+    });
+  }
+
+  /**
+   * Signs a deposit of native currency into EVVM.
+   * @param addressToReceive EVVM address credited with the deposit
+   * @param amount Amount deposited
+   * @param priorityFee Fee paid to the fisher
+   * @param nonce Deposit nonce, fetched when omitted
+   * @returns Promise resolving to the signed deposit
+   */
+  async signNativeDeposit(
+    addressToReceive: `0x${string}`,
+    amount: Amount,
+    priorityFee: Amount,
+    nonce?: bigint,
+  ): Promise<FisherBridgeInputData> {
+    return await this.signFisherBridge(
+      addressToReceive,
+      ETH_TOKEN_ADDRESS,
+      false,
+      amount,
+      priorityFee,
+      nonce ?? (await this.getNextDepositNonce()),
+    );
+  }
+
+  /**
+   * Signs a deposit of an ERC20 token into EVVM.
+   * @param addressToReceive EVVM address credited with the deposit
+   * @param tokenAddress ERC20 token deposited
+   * @param amount Amount deposited
+   * @param priorityFee Fee paid to the fisher
+   * @param nonce Deposit nonce, fetched when omitted
+   * @returns Promise resolving to the signed deposit
+   */
+  async signERC20Deposit(
+    addressToReceive: `0x${string}`,
+    tokenAddress: `0x${string}`,
+    amount: Amount,
+    priorityFee: Amount,
+    nonce?: bigint,
+  ): Promise<FisherBridgeInputData> {
+    return await this.signFisherBridge(
+      addressToReceive,
+      tokenAddress,
+      true,
+      amount,
+      priorityFee,
+      nonce ?? (await this.getNextDepositNonce()),
+    );
+  }
+
+  private async signFisherBridge(
+    addressToReceive: `0x${string}`,
+    tokenAddress: `0x${string}`,
+    isERC20: boolean,
+    amount: Amount,
+    priorityFee: Amount,
+    nonce: bigint,
+  ): Promise<FisherBridgeInputData> {
+    const rawAmount = toRawAmount(amount, tokenAddress);
+    const fee = toRawAmount(priorityFee, tokenAddress);
+
+    const message = constructMessageForDepositFisher(
+      isERC20,
+      addressToReceive,
+      nonce,
+      tokenAddress,
+      fee.toString(),
+      rawAmount.toString(),
+    );
+
+    return {
+      user: this.account.address,
+      addressToReceive,
+      nonce,
+      tokenAddress,
+      isERC20,
+      priorityFee: fee,
+      amount: rawAmount,
+      message,
+      signature: await this.signERC191Message(message),
+    };
+  }
+}
@@ -3,3 +3,7 @@ export * from './nameService';
 export * from './staking';
 export * from './p2pSwap';
 export * from './generic';
+export * from './payMultiple';
+export * from './pricedNameService';
+export * from './fisherBridge';
+export * from './dispersePay';
@@ -1,3 +1,4 @@
+import { PublicClient } from "viem";
 import {
   buildMessageSignedForPay,
   buildMessageSignedForPreRegistrationUsername,
@@ -11,7 +12,27 @@ import {
   buildMessageSignedForFlushCustomMetadata,
   buildMessageSignedForFlushUsername,
   hashPreRegisteredUsername,
+  assertNameServiceInput,
+  NameServiceValidationOptions,
+  NameServiceValidationResult,
+  validateCustomMetadataValue,
+  validateIdentity,
+  validateUsernameRegistration,
 } from "../utils";
+import {
+  AcceptOfferInputData,
+  AddCustomMetadataInputData,
+  Amount,
+  FlushCustomMetadataInputData,
+  FlushUsernameInputData,
+  MakeOfferInputData,
+  PreRegistrationUsernameInputData,
+  RegistrationUsernameInputData,
+  RemoveCustomMetadataInputData,
+  RenewUsernameInputData,
+  WithdrawOfferInputData,
+} from "../types";
+import { PRINCIPAL_TOKEN_ADDRESS, toRawAmount } from "../tokens";
 import { SignatureBuilder } from "./signature-builder";
 
 export interface DualSignatureResult {
@@ -25,8 +46,25 @@ export interface DualSignatureResult {
  * Utility class for building and signing NameService messages (offers, registration, metadata, etc).
  * Provides functions for each NameService action, using viem for EIP-191 signatures.
  * Includes dual-signature logic for priority fee payments.
+ * Every signer returns the ready-to-submit input data of its contract call,
+ * with the user taken from the builder account.
+ * Inputs are validated before signing: username and metadata formats offline,
+ * availability and ownership once `useOnChainValidation` is given a client.
  */
 export class NameServiceSignatureBuilder extends SignatureBuilder {
+  private validationClient?: PublicClient;
+
+  /**
+   * Reads NameService before every following signature, so taken usernames
+   * and identities the signer does not own are refused instead of signed.
+   * @param publicClient Public client, undefined to only run the offline checks
+   * @returns The builder, for chaining
+   */
+  useOnChainValidation(publicClient: PublicClient | undefined): this {
+    this.validationClient = publicClient;
+    return this;
+  }
+
   /**
    * Signs a NameService username pre-registration message.
    * If priorityFee_EVVM > 0, also signs a payment message for the priority fee.
@@ -37,10 +75,17 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     username: string,
     clowNumber: bigint,
     nonce: bigint,
-    priorityFee_EVVM: bigint,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<PreRegistrationUsernameInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateUsernameRegistration(username, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+
     const hashPreReg = hashPreRegisteredUsername(username, clowNumber);
     const preRegistrationMessage = buildMessageSignedForPreRegistrationUsername(
       evvmId,
@@ -53,13 +98,13 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     );
 
     let paySignature: `0x${string}` | undefined;
-    if (priorityFee_EVVM > 0n) {
+    if (priorityFee > 0n) {
       const payMessage = buildMessageSignedForPay(
         evvmId,
         addressNameService,
-        "0x0000000000000000000000000000000000000001", // Native token
+        PRINCIPAL_TOKEN_ADDRESS,
         0n,
-        priorityFee_EVVM,
+        priorityFee,
         nonce_EVVM,
         priorityFlag_EVVM,
         addressNameService,
@@ -68,13 +113,20 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     }
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      hashPreRegisteredUsername: hashPreReg,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature ?? "0x",
     };
   }
 
   /**
    * Signs a NameService username registration message.
+   * The payment defaults to `mateReward * 100`; pass `priceOfRegistration` to pay a quoted price.
    */
   async signRegistrationUsername(
     evvmId: bigint,
@@ -82,11 +134,24 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     username: string,
     clowNumber: bigint,
     nonce: bigint,
-    mateReward: bigint,
-    priorityFee_EVVM: bigint,
+    mateReward: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+    priceOfRegistration?: Amount,
+  ): Promise<RegistrationUsernameInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateUsernameRegistration(username, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const reward = toRawAmount(mateReward, PRINCIPAL_TOKEN_ADDRESS);
+    const price =
+      priceOfRegistration === undefined
+        ? reward * BigInt(100)
+        : toRawAmount(priceOfRegistration, PRINCIPAL_TOKEN_ADDRESS);
+
     const registrationMessage = buildMessageSignedForRegistrationUsername(
       evvmId,
       username,
@@ -97,9 +162,9 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmId,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      mateReward * BigInt(100),
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -110,8 +175,15 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      clowNumber,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -123,26 +195,34 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     addressNameService: `0x${string}`,
     username: string,
     expirationDate: bigint,
-    amount: bigint,
+    amount: Amount,
     nonce: bigint,
-    priorityFee_EVVM: bigint,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<MakeOfferInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(username, undefined, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const offerAmount = toRawAmount(amount, PRINCIPAL_TOKEN_ADDRESS);
+
     const makeOfferMessage = buildMessageSignedForMakeOffer(
       evvmID,
       username,
       expirationDate,
-      amount,
+      offerAmount,
       nonce,
     );
 
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      amount,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      offerAmount,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -152,8 +232,16 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      expireDate: expirationDate,
+      amount: offerAmount,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -166,10 +254,17 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     username: string,
     offerId: bigint,
     nonce: bigint,
-    priorityFee_EVVM: bigint,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<WithdrawOfferInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(username, undefined, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+
     const withdrawOfferMessage = buildMessageSignedForWithdrawOffer(
       evvmID,
       username,
@@ -180,13 +275,13 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const actionSignature = await this.signERC191Message(withdrawOfferMessage);
 
     let paySignature: `0x${string}` | undefined;
-    if (priorityFee_EVVM > 0n) {
+    if (priorityFee > 0n) {
       const payMessage = buildMessageSignedForPay(
         evvmID,
         addressNameService,
-        "0x0000000000000000000000000000000000000001",
+        PRINCIPAL_TOKEN_ADDRESS,
         0n,
-        priorityFee_EVVM,
+        priorityFee,
         nonce_EVVM,
         priorityFlag_EVVM,
         addressNameService,
@@ -195,8 +290,15 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     }
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      offerID: offerId,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature ?? "0x",
     };
   }
 
@@ -209,10 +311,17 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     username: string,
     offerId: bigint,
     nonce: bigint,
-    priorityFee_EVVM: bigint,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<AcceptOfferInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(username, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+
     const acceptOfferMessage = buildMessageSignedForAcceptOffer(
       evvmID,
       username,
@@ -223,13 +332,13 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const actionSignature = await this.signERC191Message(acceptOfferMessage);
 
     let paySignature: `0x${string}` | undefined;
-    if (priorityFee_EVVM > 0n) {
+    if (priorityFee > 0n) {
       const payMessage = buildMessageSignedForPay(
         evvmID,
         addressNameService,
-        "0x0000000000000000000000000000000000000001",
+        PRINCIPAL_TOKEN_ADDRESS,
         0n,
-        priorityFee_EVVM,
+        priorityFee,
         nonce_EVVM,
         priorityFlag_EVVM,
         addressNameService,
@@ -238,8 +347,15 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     }
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      offerID: offerId,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature ?? "0x",
     };
   }
 
@@ -251,11 +367,19 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     addressNameService: `0x${string}`,
     username: string,
     nonce: bigint,
-    amountToRenew: bigint,
-    priorityFee_EVVM: bigint,
+    amountToRenew: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<RenewUsernameInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(username, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const price = toRawAmount(amountToRenew, PRINCIPAL_TOKEN_ADDRESS);
+
     const renewUsernameMessage = buildMessageSignedForRenewUsername(
       evvmID,
       username,
@@ -264,9 +388,9 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      amountToRenew,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -276,8 +400,14 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -290,11 +420,20 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     nonce: bigint,
     identity: string,
     value: string,
-    amountToAddCustomMetadata: bigint,
-    priorityFee_EVVM: bigint,
+    amountToAddCustomMetadata: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<AddCustomMetadataInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    assertNameServiceInput(validateCustomMetadataValue(value));
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(identity, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const price = toRawAmount(amountToAddCustomMetadata, PRINCIPAL_TOKEN_ADDRESS);
+
     const addCustomMetadataMessage = buildMessageSignedForAddCustomMetadata(
       evvmID,
       identity,
@@ -304,9 +443,9 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      amountToAddCustomMetadata,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -319,8 +458,15 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      identity,
+      value,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -333,20 +479,28 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     identity: string,
     key: bigint,
     nonce: bigint,
-    amountToRemoveCustomMetadata: bigint,
-    priorityFee_EVVM: bigint,
+    amountToRemoveCustomMetadata: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<RemoveCustomMetadataInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(identity, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const price = toRawAmount(amountToRemoveCustomMetadata, PRINCIPAL_TOKEN_ADDRESS);
+
     const removeCustomMetadataMessage =
       buildMessageSignedForRemoveCustomMetadata(evvmID, identity, key, nonce);
 
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      amountToRemoveCustomMetadata,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -359,8 +513,15 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      identity,
+      key,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -372,11 +533,19 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     addressNameService: `0x${string}`,
     identity: string,
     nonce: bigint,
-    priceToFlushCustomMetadata: bigint,
-    priorityFee_EVVM: bigint,
+    priceToFlushCustomMetadata: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<FlushCustomMetadataInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(identity, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const price = toRawAmount(priceToFlushCustomMetadata, PRINCIPAL_TOKEN_ADDRESS);
+
     const flushCustomMetadataMessage = buildMessageSignedForFlushCustomMetadata(
       evvmID,
       identity,
@@ -386,9 +555,9 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      priceToFlushCustomMetadata,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -401,8 +570,14 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      identity,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
 
@@ -414,11 +589,19 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     addressNameService: `0x${string}`,
     username: string,
     nonce: bigint,
-    priceToFlushUsername: bigint,
-    priorityFee_EVVM: bigint,
+    priceToFlushUsername: Amount,
+    priorityFee_EVVM: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
-  ): Promise<DualSignatureResult> {
+  ): Promise<FlushUsernameInputData> {
+    await this.assertServiceAddress("nameService", addressNameService);
+    await this.validate(addressNameService, (options) =>
+      validateIdentity(username, this.account.address, options),
+    );
+
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+    const price = toRawAmount(priceToFlushUsername, PRINCIPAL_TOKEN_ADDRESS);
+
     const flushUsernameMessage = buildMessageSignedForFlushUsername(
       evvmID,
       username,
@@ -428,9 +611,9 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmID,
       addressNameService,
-      "0x0000000000000000000000000000000000000001",
-      priceToFlushUsername,
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      price,
+      priorityFee,
       nonce_EVVM,
       priorityFlag_EVVM,
       addressNameService,
@@ -441,8 +624,32 @@ export class NameServiceSignatureBuilder extends SignatureBuilder {
     const paySignature = await this.signERC191Message(payMessage);
 
     return {
-      paySignature,
-      actionSignature,
+      user: this.account.address,
+      username,
+      nonce,
+      signature: actionSignature,
+      priorityFee_EVVM: priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM: paySignature,
     };
   }
+
+  /**
+   * Runs a validation against the NameService being signed for.
+   * @throws NameServiceValidationError listing the issues
+   */
+  protected async validate(
+    addressNameService: `0x${string}`,
+    check: (
+      options: NameServiceValidationOptions,
+    ) => Promise<NameServiceValidationResult>,
+  ): Promise<void> {
+    assertNameServiceInput(
+      await check({
+        publicClient: this.validationClient,
+        nameServiceAddress: addressNameService,
+      }),
+    );
+  }
 }
@@ -2,7 +2,16 @@ import {
   buildMessageSignedForCancelOrder,
   buildMessageSignedForDispatchOrder,
   buildMessageSignedForMakeOrder,
+  buildMessageSignedForPay,
 } from "../utils";
+import {
+  Amount,
+  CancelOrderInputData,
+  DispatchOrderFillFixedFeeInputData,
+  DispatchOrderFillPropotionalFeeInputData,
+  MakeOrderInputData,
+} from "../types";
+import { PRINCIPAL_TOKEN_ADDRESS, toRawAmount } from "../tokens";
 import { SignatureBuilder } from "./signature-builder";
 
 /**
@@ -10,6 +19,8 @@ import { SignatureBuilder } from "./signature-builder";
  *
  * Utility class for building and signing P2PSwap order transactions.
  * Provides functions for each P2PSwap action, using viem for EIP-191 signatures.
+ * The sign* methods also sign the EVVM payment required by the P2PSwap contract
+ * and return ready-to-submit input data.
  */
 export class P2PSwapSignatureBuilder extends SignatureBuilder {
   /**
@@ -27,16 +38,16 @@ export class P2PSwapSignatureBuilder extends SignatureBuilder {
     nonce: bigint,
     tokenA: `0x${string}`,
     tokenB: `0x${string}`,
-    amountA: `0x${string}`,
-    amountB: `0x${string}`,
+    amountA: Amount,
+    amountB: Amount,
   ): Promise<`0x${string}`> {
     const message = buildMessageSignedForMakeOrder(
       evvmID,
       nonce,
       tokenA,
       tokenB,
-      amountA,
-      amountB,
+      toRawAmount(amountA, tokenA),
+      toRawAmount(amountB, tokenB),
     );
 
     return await this.signERC191Message(message);
@@ -95,4 +106,244 @@ export class P2PSwapSignatureBuilder extends SignatureBuilder {
 
     return await this.signERC191Message(message);
   }
+
+  /**
+   * Signs an order creation and the EVVM payment escrowing `amountA` of tokenA.
+   * @param evvmID EVVM chain ID
+   * @param addressP2PSwap P2PSwap contract address (payment receiver and executor)
+   * @param nonce P2PSwap nonce
+   * @param tokenA Token being offered by the order creator
+   * @param tokenB Token being requested in exchange
+   * @param amountA Amount of tokenA being offered
+   * @param amountB Amount of tokenB being requested
+   * @param priorityFee Priority fee of the EVVM payment
+   * @param nonce_EVVM Nonce of the EVVM payment
+   * @param priorityFlag_EVVM Priority flag (async/sync) of the EVVM payment
+   * @returns Promise resolving to the makeOrder input data
+   */
+  async signMakeOrder(
+    evvmID: bigint,
+    addressP2PSwap: `0x${string}`,
+    nonce: bigint,
+    tokenA: `0x${string}`,
+    tokenB: `0x${string}`,
+    amountA: Amount,
+    amountB: Amount,
+    priorityFee: Amount,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<MakeOrderInputData> {
+    const amountOfTokenA = toRawAmount(amountA, tokenA);
+    const amountOfTokenB = toRawAmount(amountB, tokenB);
+    const fee = toRawAmount(priorityFee, tokenA);
+
+    const signature = await this.makeOrder(
+      evvmID,
+      nonce,
+      tokenA,
+      tokenB,
+      amountOfTokenA,
+      amountOfTokenB,
+    );
+
+    const payMessage = buildMessageSignedForPay(
+      evvmID,
+      addressP2PSwap,
+      tokenA,
+      amountOfTokenA,
+      fee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      addressP2PSwap,
+    );
+    const signature_EVVM = await this.signERC191Message(payMessage);
+
+    return {
+      user: this.account.address,
+      metadata: {
+        nonce,
+        tokenA,
+        tokenB,
+        amountA: amountOfTokenA,
+        amountB: amountOfTokenB,
+      },
+      signature,
+      priorityFee: fee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM,
+    };
+  }
+
+  /**
+   * Signs an order cancellation.
+   * If priorityFee > 0, also signs the EVVM payment of the fee in principal tokens.
+   * @param evvmID EVVM chain ID
+   * @param addressP2PSwap P2PSwap contract address (payment receiver and executor)
+   * @param nonce P2PSwap nonce
+   * @param tokenA Token that was offered in the original order
+   * @param tokenB Token that was requested in the original order
+   * @param orderId The ID of the order to be cancelled
+   * @param priorityFee Priority fee of the EVVM payment
+   * @param nonce_EVVM Nonce of the EVVM payment
+   * @param priorityFlag_EVVM Priority flag (async/sync) of the EVVM payment
+   * @returns Promise resolving to the cancelOrder input data
+   */
+  async signCancelOrder(
+    evvmID: bigint,
+    addressP2PSwap: `0x${string}`,
+    nonce: bigint,
+    tokenA: `0x${string}`,
+    tokenB: `0x${string}`,
+    orderId: bigint,
+    priorityFee: Amount,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<CancelOrderInputData> {
+    const fee = toRawAmount(priorityFee, PRINCIPAL_TOKEN_ADDRESS);
+
+    const signature = await this.cancelOrder(
+      evvmID,
+      nonce,
+      tokenA,
+      tokenB,
+      orderId,
+    );
+
+    let signature_EVVM: `0x${string}` = "0x";
+    if (fee > 0n) {
+      const payMessage = buildMessageSignedForPay(
+        evvmID,
+        addressP2PSwap,
+        PRINCIPAL_TOKEN_ADDRESS,
+        0n,
+        fee,
+        nonce_EVVM,
+        priorityFlag_EVVM,
+        addressP2PSwap,
+      );
+      signature_EVVM = await this.signERC191Message(payMessage);
+    }
+
+    return {
+      user: this.account.address,
+      metadata: { nonce, tokenA, tokenB, orderId, signature },
+      priorityFee: fee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM,
+    };
+  }
+
+  /**
+   * Signs an order fill paying a proportional fee, with the EVVM payment of
+   * `amountOfTokenBToFill` (order amountB plus fee) in tokenB.
+   * @param evvmID EVVM chain ID
+   * @param addressP2PSwap P2PSwap contract address (payment receiver and executor)
+   * @param nonce P2PSwap nonce
+   * @param tokenA Token that was offered in the original order
+   * @param tokenB Token that was requested in the original order
+   * @param orderId The ID of the order to be dispatched
+   * @param amountOfTokenBToFill Amount of tokenB paid, including the fee
+   * @param priorityFee Priority fee of the EVVM payment
+   * @param nonce_EVVM Nonce of the EVVM payment
+   * @param priorityFlag_EVVM Priority flag (async/sync) of the EVVM payment
+   * @returns Promise resolving to the dispatchOrder_fillPropotionalFee input data
+   */
+  async signDispatchOrderFillPropotionalFee(
+    evvmID: bigint,
+    addressP2PSwap: `0x${string}`,
+    nonce: bigint,
+    tokenA: `0x${string}`,
+    tokenB: `0x${string}`,
+    orderId: bigint,
+    amountOfTokenBToFill: Amount,
+    priorityFee: Amount,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<DispatchOrderFillPropotionalFeeInputData> {
+    const amountToFill = toRawAmount(amountOfTokenBToFill, tokenB);
+    const fee = toRawAmount(priorityFee, tokenB);
+
+    const signature = await this.dispatchOrder(
+      evvmID,
+      nonce,
+      tokenA,
+      tokenB,
+      orderId,
+    );
+
+    const payMessage = buildMessageSignedForPay(
+      evvmID,
+      addressP2PSwap,
+      tokenB,
+      amountToFill,
+      fee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      addressP2PSwap,
+    );
+    const signature_EVVM = await this.signERC191Message(payMessage);
+
+    return {
+      user: this.account.address,
+      metadata: {
+        nonce,
+        tokenA,
+        tokenB,
+        orderId,
+        amountOfTokenBToFill: amountToFill,
+        signature,
+      },
+      priorityFee: fee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      signature_EVVM,
+    };
+  }
+
+  /**
+   * Signs an order fill paying a fixed fee, with the EVVM payment of
+   * `amountOfTokenBToFill` (order amountB plus fee) in tokenB.
+   * @param evvmID EVVM chain ID
+   * @param addressP2PSwap P2PSwap contract address (payment receiver and executor)
+   * @param nonce P2PSwap nonce
+   * @param tokenA Token that was offered in the original order
+   * @param tokenB Token that was requested in the original order
+   * @param orderId The ID of the order to be dispatched
+   * @param amountOfTokenBToFill Amount of tokenB paid, including the fee
+   * @param amountOut Maximum fixed fee accepted, sent as `maxFillFixedFee`
+   * @param priorityFee Priority fee of the EVVM payment
+   * @param nonce_EVVM Nonce of the EVVM payment
+   * @param priorityFlag_EVVM Priority flag (async/sync) of the EVVM payment
+   * @returns Promise resolving to the dispatchOrder_fillFixedFee input data
+   */
+  async signDispatchOrderFillFixedFee(
+    evvmID: bigint,
+    addressP2PSwap: `0x${string}`,
+    nonce: bigint,
+    tokenA: `0x${string}`,
+    tokenB: `0x${string}`,
+    orderId: bigint,
+    amountOfTokenBToFill: Amount,
+    amountOut: Amount,
+    priorityFee: Amount,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<DispatchOrderFillFixedFeeInputData> {
+    const fill = await this.signDispatchOrderFillPropotionalFee(
+      evvmID,
+      addressP2PSwap,
+      nonce,
+      tokenA,
+      tokenB,
+      orderId,
+      amountOfTokenBToFill,
+      priorityFee,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+
+    return { ...fill, amountOut: toRawAmount(amountOut, tokenB) };
+  }
 }
@@ -0,0 +1,230 @@
+import { isAddress, isAddressEqual, zeroAddress } from "viem";
+import { PayInputData, PayMultipleResult, TransactionResult } from "../types";
+import { verifyPaySignature } from "../utils";
+import { EVVMSignatureBuilder } from "./evvm";
+import type { EVVMTransactionExecutor } from "../executors";
+
+export type PayMultipleBatchOptions = {
+  evvmID: bigint;
+  // Address that will submit the batch, intents for other executors are rejected
+  executor?: `0x${string}`;
+  // Maximum number of payments accepted in the batch
+  maxSize?: number;
+};
+
+export type PayMultipleItemResult = {
+  input: PayInputData;
+  success: boolean;
+};
+
+export type PayMultipleReconciliation = {
+  items: PayMultipleItemResult[];
+  successful: PayInputData[];
+  failed: PayInputData[];
+};
+
+/**
+ * PayMultiple Batch
+ *
+ * Collects signed payments from different users and assembles the `payData`
+ * array for the Evvm `payMultiple` call. Every payment is validated and its
+ * signature verified offline when added. After execution the returned `bool[]`
+ * is mapped back to each payment so failed ones can be retried or dropped.
+ */
+export class PayMultipleBatch {
+  private readonly payments: PayInputData[] = [];
+
+  constructor(private readonly options: PayMultipleBatchOptions) {}
+
+  /**
+   * Checks the fields of a signed payment, leaving its signature aside.
+   * @param input Signed payment input data
+   * @throws Error if an address is malformed or the amount, fee or nonce is negative
+   */
+  static assertValidPayment(
+    input: PayInputData,
+  ): asserts input is PayInputData & { executor: `0x${string}` } {
+    if (
+      !isAddress(input.from, { strict: false }) ||
+      !isAddress(input.token, { strict: false })
+    ) {
+      throw new Error("Invalid 'from' or 'token' address in payment");
+    }
+    if (!input.to_identity && !isAddress(input.to_address, { strict: false })) {
+      throw new Error("Payment needs a valid 'to_address' or a 'to_identity'");
+    }
+    if (!isAddress(input.executor, { strict: false })) {
+      throw new Error("Invalid 'executor' address in payment");
+    }
+    if (input.amount < 0n || input.priorityFee < 0n || input.nonce < 0n) {
+      throw new Error("Payment amount, priority fee and nonce must not be negative");
+    }
+  }
+
+  /**
+   * Number of payments in the batch.
+   */
+  get size(): number {
+    return this.payments.length;
+  }
+
+  /**
+   * Payments in the order they will be submitted.
+   */
+  getPayments(): readonly PayInputData[] {
+    return this.payments;
+  }
+
+  /**
+   * Validates a signed payment and adds it to the batch.
+   * @param input Signed payment input data
+   * @throws Error if the payment is malformed, duplicated, meant for another
+   *   executor, or its signature does not belong to `input.from`
+   */
+  async add(input: PayInputData): Promise<void> {
+    const { maxSize, executor } = this.options;
+
+    if (maxSize !== undefined && this.payments.length >= maxSize) {
+      throw new Error(`Batch is full: maximum of ${maxSize} payments`);
+    }
+    PayMultipleBatch.assertValidPayment(input);
+    if (
+      executor &&
+      !isAddressEqual(input.executor, zeroAddress) &&
+      !isAddressEqual(input.executor, executor)
+    ) {
+      throw new Error(
+        `Payment can only be executed by ${input.executor}, not by ${executor}`,
+      );
+    }
+    if (
+      this.payments.some(
+        (payment) =>
+          isAddressEqual(payment.from, input.from) &&
+          payment.nonce === input.nonce &&
+          payment.priority === input.priority,
+      )
+    ) {
+      throw new Error(
+        `Duplicated payment from ${input.from} with nonce ${input.nonce}`,
+      );
+    }
+
+    const isValid = await verifyPaySignature(
+      {
+        evvmID: this.options.evvmID,
+        // the signed recipient is the identity when one is given
+        to: input.to_identity || input.to_address,
+        tokenAddress: input.token,
+        amount: input.amount,
+        priorityFee: input.priorityFee,
+        nonce: input.nonce,
+        priorityFlag: input.priority,
+        executor: input.executor,
+      },
+      input.signature as `0x${string}`,
+      input.from,
+    );
+    if (!isValid) {
+      throw new Error(`Invalid signature for payment from ${input.from}`);
+    }
+
+    this.payments.push(input);
+  }
+
+  /**
+   * Signs a payment with the given builder and adds it to the batch.
+   * @param builder Signature builder of the paying user
+   * @param payment Payment data without signer and signature
+   * @returns Promise resolving to the signed payment input data
+   */
+  async signAndAdd(
+    builder: EVVMSignatureBuilder,
+    payment: Omit<PayInputData, "from" | "signature">,
+  ): Promise<PayInputData> {
+    const signature = await builder.signPay(
+      this.options.evvmID,
+      payment.to_identity || payment.to_address,
+      payment.token,
+      payment.amount,
+      payment.priorityFee,
+      payment.nonce,
+      payment.priority,
+      payment.executor as `0x${string}`,
+    );
+
+    const input: PayInputData = {
+      ...payment,
+      from: builder.signerAddress,
+      signature,
+    };
+    await this.add(input);
+    return input;
+  }
+
+  /**
+   * Assembles the `payData` tuple array expected by `payMultiple`.
+   */
+  toPayData() {
+    return this.payments.map((input) => ({
+      from: input.from,
+      to_address: input.to_address,
+      to_identity: input.to_identity,
+      token: input.token,
+      amount: input.amount,
+      priorityFee: input.priorityFee,
+      nonce: input.nonce,
+      priorityFlag: input.priority,
+      executor: input.executor as `0x${string}`,
+      signature: input.signature as `0x${string}`,
+    }));
+  }
+
+  /**
+   * Maps per-payment `payMultiple` outcomes back to each payment.
+   * Pass the outcomes of the mined transaction: the `bool[]` of a simulation can
+   * differ once another executor uses a nonce first.
+   * @param results Per-payment outcomes, in submission order
+   * @returns Payments split by outcome
+   * @throws Error if the number of results does not match the batch
+   */
+  reconcile(results: readonly boolean[]): PayMultipleReconciliation {
+    if (results.length !== this.payments.length) {
+      throw new Error(
+        `Expected ${this.payments.length} results, got ${results.length}`,
+      );
+    }
+
+    const items = this.payments.map((input, index) => ({
+      input,
+      success: results[index],
+    }));
+
+    return {
+      items,
+      successful: items.filter((item) => item.success).map((item) => item.input),
+      failed: items.filter((item) => !item.success).map((item) => item.input),
+    };
+  }
+
+  /**
+   * Submits the batch and reconciles the outcome of every payment, as read on
+   * chain once the transaction is mined.
+   * @param executor EVVM transaction executor of the fisher
+   * @returns Promise resolving to the transaction result and the reconciliation
+   */
+  async execute(executor: EVVMTransactionExecutor): Promise<{
+    transaction: TransactionResult<PayMultipleResult>;
+    reconciliation: PayMultipleReconciliation;
+  }> {
+    if (this.payments.length === 0) {
+      throw new Error("Cannot execute an empty batch");
+    }
+
+    const transaction = await executor.executePayMultiple([...this.payments]);
+    return {
+      transaction,
+      reconciliation: this.reconcile(transaction.result.results),
+    };
+  }
+}
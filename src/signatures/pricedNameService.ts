@@ -0,0 +1,256 @@
+import { Account, PublicClient, WalletClient } from "viem";
+import {
+  fetchNameServicePriceQuote,
+  NameServicePricedAction,
+  NameServicePriceQuote,
+  quoteNameServiceAction,
+} from "../utils";
+import {
+  AddCustomMetadataInputData,
+  Amount,
+  FlushCustomMetadataInputData,
+  FlushUsernameInputData,
+  RegistrationUsernameInputData,
+  RemoveCustomMetadataInputData,
+  RenewUsernameInputData,
+} from "../types";
+import { PRINCIPAL_TOKEN_ADDRESS, toRawAmount } from "../tokens";
+import { NameServiceSignatureBuilder } from "./nameService";
+
+export type PricedNameServiceConfig = {
+  nameServiceAddress: `0x${string}`;
+  // Needed to read prices, not when every quote is injected
+  publicClient?: PublicClient;
+  // Shown the quote before the wallet prompt, returning false aborts the signing
+  confirmCost?: (quote: NameServicePriceQuote) => boolean | Promise<boolean>;
+};
+
+/**
+ * Priced NameService Signature Builder
+ *
+ * NameService signer that pays the contract-defined price of each action.
+ * `quote()` reads the price (or wraps an injected one) and the sign*WithQuote
+ * methods sign the EVVM payment for exactly that price, after handing the
+ * total cost (price + priority fee) to `confirmCost`.
+ */
+export class PricedNameServiceSignatureBuilder extends NameServiceSignatureBuilder {
+  constructor(
+    walletClient: WalletClient,
+    account: Account,
+    private readonly pricing: PricedNameServiceConfig,
+  ) {
+    super(walletClient, account);
+  }
+
+  /**
+   * Quotes a priced NameService action.
+   * @param action Priced NameService action
+   * @param identity Username or identity the action applies to
+   * @param priorityFee_EVVM Priority fee of the EVVM payment
+   * @param price Known price, skips the contract read
+   * @returns Promise resolving to the price quote
+   * @throws Error if no price is given and no public client is configured
+   */
+  async quote(
+    action: NameServicePricedAction,
+    identity: string,
+    priorityFee_EVVM: Amount,
+    price?: Amount,
+  ): Promise<NameServicePriceQuote> {
+    const priorityFee = toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS);
+
+    if (price !== undefined) {
+      return quoteNameServiceAction(
+        action,
+        identity,
+        toRawAmount(price, PRINCIPAL_TOKEN_ADDRESS),
+        priorityFee,
+      );
+    }
+
+    if (!this.pricing.publicClient) {
+      throw new Error(
+        `No public client configured to read the price of ${action}, pass the price instead`,
+      );
+    }
+
+    return await fetchNameServicePriceQuote(
+      this.pricing.publicClient,
+      this.pricing.nameServiceAddress,
+      action,
+      identity,
+      priorityFee,
+    );
+  }
+
+  /**
+   * Signs a username registration paying the quoted registration price.
+   */
+  async signRegistrationUsernameWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    clowNumber: bigint,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<RegistrationUsernameInputData> {
+    await this.approve(quote, "registrationUsername");
+
+    return await this.signRegistrationUsername(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      quote.identity,
+      clowNumber,
+      nonce,
+      // the reward only derives the default price, the quoted price replaces it
+      0n,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+      quote.price,
+    );
+  }
+
+  /**
+   * Signs a username renewal paying the quoted renewal price.
+   */
+  async signRenewUsernameWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<RenewUsernameInputData> {
+    await this.approve(quote, "renewUsername");
+
+    return await this.signRenewUsername(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      quote.identity,
+      nonce,
+      quote.price,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Signs a custom metadata addition paying the quoted price.
+   */
+  async signAddCustomMetadataWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    value: string,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<AddCustomMetadataInputData> {
+    await this.approve(quote, "addCustomMetadata");
+
+    return await this.signAddCustomMetadata(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      nonce,
+      quote.identity,
+      value,
+      quote.price,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Signs a custom metadata removal paying the quoted price.
+   */
+  async signRemoveCustomMetadataWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    key: bigint,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<RemoveCustomMetadataInputData> {
+    await this.approve(quote, "removeCustomMetadata");
+
+    return await this.signRemoveCustomMetadata(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      quote.identity,
+      key,
+      nonce,
+      quote.price,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Signs a custom metadata flush paying the quoted price.
+   */
+  async signFlushCustomMetadataWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<FlushCustomMetadataInputData> {
+    await this.approve(quote, "flushCustomMetadata");
+
+    return await this.signFlushCustomMetadata(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      quote.identity,
+      nonce,
+      quote.price,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Signs a username flush paying the quoted price.
+   */
+  async signFlushUsernameWithQuote(
+    evvmID: bigint,
+    quote: NameServicePriceQuote,
+    nonce: bigint,
+    nonce_EVVM: bigint,
+    priorityFlag_EVVM: boolean,
+  ): Promise<FlushUsernameInputData> {
+    await this.approve(quote, "flushUsername");
+
+    return await this.signFlushUsername(
+      evvmID,
+      this.pricing.nameServiceAddress,
+      quote.identity,
+      nonce,
+      quote.price,
+      quote.priorityFee_EVVM,
+      nonce_EVVM,
+      priorityFlag_EVVM,
+    );
+  }
+
+  /**
+   * Checks the quote belongs to the action and lets the user confirm its cost.
+   * @throws Error if the quote is for another action or the cost is declined
+   */
+  private async approve(
+    quote: NameServicePriceQuote,
+    action: NameServicePricedAction,
+  ): Promise<void> {
+    if (quote.action !== action) {
+      throw new Error(`Quote is for ${quote.action}, cannot sign ${action}`);
+    }
+
+    if (this.pricing.confirmCost && !(await this.pricing.confirmCost(quote))) {
+      throw new Error(
+        `Total cost of ${quote.totalCost} for ${action} of "${quote.identity}" was declined`,
+      );
+    }
+  }
+}
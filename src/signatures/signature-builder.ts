@@ -1,24 +1,59 @@
 import { Account, WalletClient } from "viem";
+import type { DeploymentGuard, DeploymentService } from "../deployment";
 
 /**
  * Signature Builder
  * Base class for building and signing EVVM messages
  */
 export class SignatureBuilder {
+  protected deploymentGuard?: DeploymentGuard;
+
   constructor(
     protected walletClient: WalletClient,
     protected account: Account,
   ) {}
 
+  /**
+   * Address of the account used to sign.
+   */
+  get signerAddress(): `0x${string}` {
+    return this.account.address;
+  }
+
+  /**
+   * Checks every following signature against a deployment, so messages for
+   * another evvmID or service address are refused instead of signed.
+   * @param guard Deployment guard, undefined to stop checking
+   * @returns The builder, for chaining
+   */
+  useDeploymentGuard(guard: DeploymentGuard | undefined): this {
+    this.deploymentGuard = guard;
+    return this;
+  }
+
   /**
    * Signs a generic EIP-191 message.
    * @param message Message to sign
    * @returns Promise resolving to signature string
+   * @throws DeploymentMismatchError if a deployment guard rejects the evvmID
    */
   async signERC191Message(message: string): Promise<`0x${string}`> {
+    await this.deploymentGuard?.assertMessage(message);
+
     return await this.walletClient.signMessage({
       account: this.account,
       message,
     });
   }
+
+  /**
+   * Checks a service address against the deployment guard, if any.
+   * @throws DeploymentMismatchError if the address differs
+   */
+  protected async assertServiceAddress(
+    service: DeploymentService,
+    address: `0x${string}`,
+  ): Promise<void> {
+    await this.deploymentGuard?.assertServiceAddress(service, address);
+  }
 }
@@ -2,7 +2,10 @@ import {
   buildMessageSignedForPay,
   buildMessageSignedForPublicStaking,
   buildMessageSignedForPresaleStaking,
+  buildMessageSignedForPublicServiceStake,
 } from "../utils";
+import { Amount } from "../types";
+import { PRINCIPAL_TOKEN_ADDRESS, toRawAmount } from "../tokens";
 import { SignatureBuilder } from "./signature-builder";
 
 export interface StakingDualSignatureResult {
@@ -30,15 +33,17 @@ export class StakingSignatureBuilder extends SignatureBuilder {
   async signGoldenStaking(
     evvmID: bigint,
     stakingAddress: `0x${string}`,
-    totalPrice: bigint,
+    totalPrice: Amount,
     nonceEVVM: bigint,
     priorityFlag: boolean,
   ): Promise<`0x${string}`> {
+    await this.assertServiceAddress("staking", stakingAddress);
+
     const payMessage = buildMessageSignedForPay(
       evvmID,
       stakingAddress,
-      "0x0000000000000000000000000000000000000001" as `0x${string}`, // Native token
-      totalPrice,
+      PRINCIPAL_TOKEN_ADDRESS,
+      toRawAmount(totalPrice, PRINCIPAL_TOKEN_ADDRESS),
       0n,
       nonceEVVM,
       priorityFlag,
@@ -56,24 +61,28 @@ export class StakingSignatureBuilder extends SignatureBuilder {
     stakingAddress: `0x${string}`,
     isStaking: boolean,
     nonce: bigint,
-    priorityFee_EVVM: bigint,
-    totalPrice: bigint,
+    priorityFee_EVVM: Amount,
+    totalPrice: Amount,
     nonce_EVVM: bigint,
     priorityFlag_EVVM: boolean,
   ): Promise<StakingDualSignatureResult> {
+    await this.assertServiceAddress("staking", stakingAddress);
+
+    const price = toRawAmount(totalPrice, PRINCIPAL_TOKEN_ADDRESS);
+
     const stakingMessage = buildMessageSignedForPresaleStaking(
       evvmID,
       isStaking,
-      totalPrice,
+      price,
       nonce,
     );
 
     const payMessage = buildMessageSignedForPay(
       evvmID,
       stakingAddress,
-      "0x0000000000000000000000000000000000000001",
-      isStaking ? totalPrice : BigInt(0),
-      priorityFee_EVVM,
+      PRINCIPAL_TOKEN_ADDRESS,
+      isStaking ? price : BigInt(0),
+      toRawAmount(priorityFee_EVVM, PRINCIPAL_TOKEN_ADDRESS),
       nonce_EVVM,
       priorityFlag_EVVM,
       stakingAddress,
@@ -97,11 +106,13 @@ export class StakingSignatureBuilder extends SignatureBuilder {
     isStaking: boolean,
     stakingAmount: bigint,
     nonceStaking: bigint,
-    totalPrice: bigint,
-    priorityFee: bigint,
+    totalPrice: Amount,
+    priorityFee: Amount,
     nonceEVVM: bigint,
     priorityFlag: boolean,
   ): Promise<StakingDualSignatureResult> {
+    await this.assertServiceAddress("staking", stakingAddress);
+
     const stakingMessage = buildMessageSignedForPublicStaking(
       evvmID,
       isStaking,
@@ -112,9 +123,56 @@ export class StakingSignatureBuilder extends SignatureBuilder {
     const payMessage = buildMessageSignedForPay(
       evvmID,
       stakingAddress,
-      "0x0000000000000000000000000000000000000001",
-      isStaking ? totalPrice : BigInt(0),
-      priorityFee,
+      PRINCIPAL_TOKEN_ADDRESS,
+      isStaking ? toRawAmount(totalPrice, PRINCIPAL_TOKEN_ADDRESS) : BigInt(0),
+      toRawAmount(priorityFee, PRINCIPAL_TOKEN_ADDRESS),
+      nonceEVVM,
+      priorityFlag,
+      stakingAddress,
+    );
+
+    const actionSignature = await this.signERC191Message(stakingMessage);
+
+    const paySignature = await this.signERC191Message(payMessage);
+
+    return {
+      paySignature,
+      actionSignature,
+    };
+  }
+
+  /**
+   * Signs a public service staking message (dual signature: payment + staking).
+   * The staking signature names the service contract that stakes.
+   */
+  async signPublicServiceStaking(
+    evvmID: bigint,
+    stakingAddress: `0x${string}`,
+    serviceAddress: `0x${string}`,
+    isStaking: boolean,
+    stakingAmount: bigint,
+    nonceStaking: bigint,
+    totalPrice: Amount,
+    priorityFee: Amount,
+    nonceEVVM: bigint,
+    priorityFlag: boolean,
+  ): Promise<StakingDualSignatureResult> {
+    await this.assertServiceAddress("staking", stakingAddress);
+
+    const stakingMessage = buildMessageSignedForPublicServiceStake(
+      evvmID,
+      serviceAddress,
+      isStaking,
+      stakingAmount,
+      nonceStaking,
+    );
+
+    const payMessage = buildMessageSignedForPay(
+      evvmID,
+      stakingAddress,
+      PRINCIPAL_TOKEN_ADDRESS,
+      isStaking ? toRawAmount(totalPrice, PRINCIPAL_TOKEN_ADDRESS) : BigInt(0),
+      toRawAmount(priorityFee, PRINCIPAL_TOKEN_ADDRESS),
       nonceEVVM,
       priorityFlag,
       stakingAddress,
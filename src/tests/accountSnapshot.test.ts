@@ -0,0 +1,131 @@
+/**
+ * Test utilities for account snapshots
+ */
+
+import { PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getAccountSnapshot } from "../reader/accountSnapshot";
+import { EvvmReader } from "../reader/evvmReader";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const stakingAddress = "0x0000000000000000000000000000000000000b00" as `0x${string}`;
+const p2pSwapAddress = "0x0000000000000000000000000000000000000d00" as `0x${string}`;
+const otherAddress = "0x0000000000000000000000000000000000000c00" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000002" as `0x${string}`;
+
+const order = (seller: `0x${string}`, orderId: bigint) => ({
+  marketId: 1n,
+  orderId,
+  seller,
+  amountA: 10n,
+  amountB: 20n,
+});
+
+function read(functionName: string, args: readonly unknown[]): unknown {
+  switch (functionName) {
+    case "getBalance":
+      return args[1] === token ? 5n : 100n;
+    case "getNextCurrentSyncNonce":
+      return 3n;
+    case "isAddressStaker":
+      return true;
+    case "getUserAmountStaked":
+      return 2n;
+    case "getTimeToUserUnlockStakingTime":
+      return 0n;
+    case "getTimeToUserUnlockFullUnstakingTime":
+      return 500n;
+    case "getOwnerOfIdentity":
+      return args[0] === "bob" ? otherAddress : account.address;
+    case "getExpireDateOfIdentity":
+      return args[0] === "carol" ? 400n : 1000n;
+    case "getAllMarketsMetadata":
+      return [{}, {}];
+    case "getMyOrdersInSpecificMarket":
+      return args[1] === 1n
+        ? [order(account.address, 1n), order("0x0000000000000000000000000000000000000000", 0n)]
+        : [];
+  }
+  throw new Error(`unexpected read ${functionName}`);
+}
+
+type MockCall = { functionName: string; args?: readonly unknown[] };
+
+function mockClient(requests: string[], withMulticall: boolean): PublicClient {
+  return {
+    chain: withMulticall
+      ? { contracts: { multicall3: { address: "0x0000000000000000000000000000000000000f00" } } }
+      : undefined,
+    readContract: async ({ functionName, args = [] }: MockCall) => {
+      requests.push(functionName);
+      return read(functionName, args);
+    },
+    multicall: async ({ contracts }: { contracts: MockCall[] }) => {
+      requests.push("multicall");
+      return contracts.map(({ functionName, args = [] }) => read(functionName, args));
+    },
+  } as unknown as PublicClient;
+}
+
+describe("getAccountSnapshot", () => {
+  test("reads the account in two multicall batches", async () => {
+    const requests: string[] = [];
+    const snapshot = await getAccountSnapshot(
+      {
+        publicClient: mockClient(requests, true),
+        evvmAddress,
+        nameServiceAddress,
+        stakingAddress,
+        p2pSwapAddress,
+      },
+      account.address,
+      { tokens: [token], usernames: ["alice", "bob", "carol"], now: () => 500n },
+    );
+
+    expect(requests).toEqual(["multicall", "multicall"]);
+    expect(snapshot).toEqual({
+      address: account.address,
+      balances: [{ token, balance: 5n }],
+      nextSyncNonce: 3n,
+      isStaker: true,
+      staking: { amountStaked: 2n, unlockStakingTime: 0n, unlockFullUnstakingTime: 500n },
+      usernames: [
+        { username: "alice", owner: account.address, isOwner: true, expireDate: 1000n },
+        { username: "bob", owner: otherAddress, isOwner: false, expireDate: 1000n },
+        // expired usernames are no longer owned
+        { username: "carol", owner: account.address, isOwner: false, expireDate: 400n },
+      ],
+      p2pSwapOrders: [order(account.address, 1n)],
+    });
+  });
+
+  test("falls back to sequential reads without multicall", async () => {
+    const requests: string[] = [];
+    const reader = new EvvmReader({ publicClient: mockClient(requests, false), evvmAddress });
+
+    const snapshot = await reader.getAccountSnapshot(account.address);
+
+    expect(requests).toEqual(["getBalance", "getNextCurrentSyncNonce", "isAddressStaker"]);
+    expect(snapshot).toEqual({
+      address: account.address,
+      balances: [{ token: PRINCIPAL_TOKEN_ADDRESS, balance: 100n }],
+      nextSyncNonce: 3n,
+      isStaker: true,
+    });
+
+    requests.length = 0;
+    await getAccountSnapshot(
+      { publicClient: mockClient(requests, true), evvmAddress, p2pSwapAddress },
+      account.address,
+      { markets: [1n, 2n], multicall: false },
+    );
+    expect(requests).not.toContain("multicall");
+    expect(requests.filter((name) => name === "getMyOrdersInSpecificMarket")).toHaveLength(2);
+  });
+});
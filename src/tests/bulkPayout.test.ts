@@ -0,0 +1,356 @@
+/**
+ * Test utilities for bulk payouts
+ */
+
+import { createWalletClient, http, PublicClient, WalletClient, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMTransactionExecutor } from "../executors/evvm";
+import { NonceManager } from "../nonces/nonceManager";
+import {
+  BulkPayout,
+  chunkPayouts,
+  deserializePayoutReport,
+  serializePayoutReport,
+} from "../payouts/bulkPayout";
+import { importPayouts, PayoutImportError } from "../payouts/payoutImport";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { DispersePayInputData, EvvmTokenInfo } from "../types";
+import { encodeEvvmIntent, EVVM_INTENT_ENVELOPE_VERSION } from "../utils/intentEnvelope";
+import { verifyDispersePaySignature } from "../utils/verifySignature";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+const bob = privateKeyToAccount(
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+).address;
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const fisher = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const token: EvvmTokenInfo = {
+  address: "0x0000000000000000000000000000000000000001",
+  symbol: "MATE",
+  decimals: 2,
+};
+
+const nonceManager = () =>
+  new NonceManager({
+    publicClient: {
+      // next sync nonce, async nonces are never used
+      readContract: async ({ functionName }: { functionName: string }) =>
+        functionName === "getNextCurrentSyncNonce" ? 7n : false,
+    } as unknown as PublicClient,
+    evvmAddress,
+  });
+
+// one address and usernames user1..user(count - 1), amounts 1.00, 2.00, ...
+const csv = (count: number) =>
+  [
+    "to,amount",
+    `${bob},1`,
+    ...Array.from({ length: count - 1 }, (_, index) => `user${index + 1},${index + 2}`),
+  ].join("\n");
+
+describe("importPayouts", () => {
+  test("reports every invalid row with its line", async () => {
+    const result = await importPayouts(
+      [
+        "# payroll",
+        "recipient,amount,memo",
+        `${bob},10.5,rent`,
+        "alice,0.001,too precise",
+        "al,1,too short",
+        `${bob.toLowerCase()},1,again`,
+        "carol,-1,negative",
+        `"dave",2,quoted`,
+      ].join("\n"),
+      { token },
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.rows).toMatchObject([
+      { line: 3, to_address: bob, to_identity: "", amount: 1050n },
+      { line: 8, to_address: zeroAddress, to_identity: "dave", amount: 200n },
+    ]);
+    expect(result.total).toBe(1250n);
+    expect(result.issues.map((issue) => [issue.line, issue.code])).toEqual([
+      [4, "INVALID_AMOUNT"],
+      [5, "INVALID_USERNAME"],
+      [6, "DUPLICATE_RECIPIENT"],
+      [7, "INVALID_AMOUNT"],
+    ]);
+    expect(() => {
+      throw new PayoutImportError(result.issues);
+    }).toThrow("line 4:");
+  });
+
+  test("reads JSON arrays and points issues at the element line", async () => {
+    const result = await importPayouts(
+      `[
+  { "to": "alice", "amount": "1.5" },
+  {
+    "to": "0x12",
+    "amount": "2"
+  },
+  { "amount": "3" },
+  { "to": "bob", "amount": 0.123456789012345678 }
+]`,
+      { token },
+    );
+
+    expect(result.rows).toMatchObject([{ line: 2, to_identity: "alice", amount: 150n }]);
+    expect(result.issues.map((issue) => [issue.line, issue.code])).toEqual([
+      [3, "INVALID_ADDRESS"],
+      [7, "MALFORMED_ROW"],
+      [8, "INVALID_AMOUNT"],
+    ]);
+    // JSON numbers are refused, they may already have lost digits
+    expect(result.issues[2].message).toContain("must be a decimal string");
+    expect((await importPayouts("{}", { token })).issues[0].code).toBe("MALFORMED_FILE");
+  });
+});
+
+describe("chunkPayouts", () => {
+  test("closes a chunk before it exceeds the gas budget", async () => {
+    const { rows } = await importPayouts(csv(5), { token });
+    // base 80k + 35k per address + 50k per username
+    const chunks = chunkPayouts(rows, { maxGasPerChunk: 230_000n });
+
+    expect(chunks.map((chunk) => chunk.lines)).toEqual([[2, 3, 4], [5, 6]]);
+    expect(chunks.map((chunk) => [chunk.total, chunk.gas])).toEqual([
+      [600n, 215_000n],
+      [900n, 180_000n],
+    ]);
+    expect(() => chunkPayouts(rows, { maxGasPerChunk: 100_000n })).toThrow("line 2");
+    expect(chunkPayouts(rows, { maxRecipientsPerChunk: 2 })).toHaveLength(3);
+  });
+});
+
+describe("BulkPayout", () => {
+  test("signs one chunk per nonce and re-signs the failed ones", async () => {
+    let signatures = 0;
+    const wallet = {
+      ...walletClient,
+      signMessage: async (args: Parameters<WalletClient["signMessage"]>[0]) => {
+        if (++signatures === 2) throw new Error("User rejected the request");
+        return await walletClient.signMessage(args);
+      },
+    } as unknown as WalletClient;
+    const builder = new EVVMSignatureBuilder(wallet, account);
+    const payout = new BulkPayout({
+      builder,
+      nonceManager: nonceManager(),
+      evvmID: 1n,
+      token,
+      executor: fisher,
+      maxRecipientsPerChunk: 2,
+    });
+
+    const report = await payout.signFile(csv(5));
+    expect(report.total).toBe(1500n);
+    // the second signature is rejected, its nonce goes to the next chunk
+    expect(report.chunks.map((chunk) => [chunk.status, chunk.nonce])).toEqual([
+      ["signed", 7n],
+      ["failed", undefined],
+      ["signed", 8n],
+    ]);
+    expect(report.chunks[1].error).toBe("User rejected the request");
+
+    // a new session only knows the report
+    const restored = deserializePayoutReport(serializePayoutReport(report));
+    expect(restored).toEqual(report);
+    // a chunk holding an intent for another EVVM is refused
+    const foreign = JSON.parse(serializePayoutReport(report));
+    foreign.chunks[0].intent = encodeEvvmIntent({
+      version: EVVM_INTENT_ENVELOPE_VERSION,
+      action: "dispersePay",
+      evvmID: 2n,
+      payload: report.chunks[0].input!,
+    });
+    expect(() => deserializePayoutReport(JSON.stringify(foreign))).toThrow(
+      "expected a dispersePay for evvmID 1",
+    );
+    const resumed = new BulkPayout({
+      builder,
+      nonceManager: nonceManager(),
+      evvmID: 1n,
+      token,
+      executor: fisher,
+    });
+    await resumed.resign(restored);
+    expect(restored.chunks.map((chunk) => [chunk.status, chunk.nonce])).toEqual([
+      ["signed", 7n],
+      ["signed", 9n],
+      ["signed", 8n],
+    ]);
+
+    const executed: bigint[] = [];
+    await resumed.execute(restored, {
+      executeDispersePay: async (input: DispersePayInputData) => {
+        executed.push(input.nonce);
+        return { hash: "0x01" };
+      },
+    } as unknown as EVVMTransactionExecutor);
+    expect(executed).toEqual([7n, 8n, 9n]);
+
+    const input = restored.chunks[1].input!;
+    expect(input).toMatchObject({ amount: 700n, nonce: 9n, priority: false });
+    await expect(
+      verifyDispersePaySignature(
+        {
+          evvmID: 1n,
+          toData: input.toData,
+          tokenAddress: token.address,
+          amount: 700n,
+          priorityFee: 0n,
+          nonce: 9n,
+          priorityFlag: false,
+          executor: fisher,
+        },
+        input.signature as `0x${string}`,
+        account.address,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  test("records the outcome of each executed chunk", async () => {
+    const payout = new BulkPayout({
+      builder: new EVVMSignatureBuilder(walletClient, account),
+      nonceManager: nonceManager(),
+      evvmID: 1n,
+      token,
+      executor: fisher,
+      priority: true,
+      maxRecipientsPerChunk: 3,
+    });
+    await expect(payout.signFile("to,amount\nbob,1")).rejects.toThrow(PayoutImportError);
+
+    const report = await payout.signFile(csv(5));
+    const executor = {
+      executeDispersePay: async (input: DispersePayInputData) => {
+        if (input.toData.length === 2) throw new Error("Transaction 0x02 reverted");
+        return { hash: "0x01" };
+      },
+    } as unknown as EVVMTransactionExecutor;
+
+    await payout.execute(report, executor);
+    expect(report.chunks.map((chunk) => chunk.status)).toEqual(["executed", "failed"]);
+    expect(report.chunks[0].transactionHash).toBe("0x01");
+    expect(report.chunks[1]).toMatchObject({
+      error: "Transaction 0x02 reverted",
+      input: undefined,
+    });
+  });
+
+  test("re-signs failed async chunks with their nonce unless it was consumed", async () => {
+    const used = new Set<bigint>();
+    const payout = new BulkPayout({
+      builder: new EVVMSignatureBuilder(walletClient, account),
+      nonceManager: new NonceManager({
+        publicClient: {
+          readContract: async ({ args }: { args: readonly unknown[] }) =>
+            used.has(args[1] as bigint),
+        } as unknown as PublicClient,
+        evvmAddress,
+      }),
+      evvmID: 1n,
+      token,
+      executor: fisher,
+      priority: true,
+      maxRecipientsPerChunk: 2,
+    });
+
+    const report = await payout.signFile(csv(5));
+    const nonces = report.chunks.map((chunk) => chunk.nonce);
+    const signatures = report.chunks.map((chunk) => chunk.input!.signature);
+
+    // every receipt times out, but the first chunk was mined
+    await payout.execute(report, {
+      executeDispersePay: async () => {
+        throw new Error("Timed out while waiting for transaction");
+      },
+    } as unknown as EVVMTransactionExecutor);
+    expect(report.chunks.map((chunk) => [chunk.status, chunk.nonce])).toEqual(
+      nonces.map((nonce) => ["failed", nonce]),
+    );
+    used.add(nonces[0]!);
+
+    await payout.resign(report);
+    expect(report.chunks.map((chunk) => [chunk.status, chunk.nonce])).toEqual([
+      ["executed", nonces[0]],
+      ["signed", nonces[1]],
+      ["signed", nonces[2]],
+    ]);
+    expect(report.chunks[0].input).toBeUndefined();
+    expect(report.chunks.slice(1).map((chunk) => chunk.input!.signature)).toEqual(
+      signatures.slice(1),
+    );
+  });
+
+  test("confirms consumed sync nonces through the receipt of the chunk", async () => {
+    const mined = `0x${"1".repeat(64)}` as `0x${string}`;
+    const reverted = `0x${"2".repeat(64)}` as `0x${string}`;
+    let nextSyncNonce = 7n;
+    const publicClient = {
+      readContract: async () => nextSyncNonce,
+      getTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => ({
+        status: hash === mined ? "success" : "reverted",
+      }),
+    } as unknown as PublicClient;
+    const payout = new BulkPayout({
+      builder: new EVVMSignatureBuilder(walletClient, account),
+      nonceManager: new NonceManager({ publicClient, evvmAddress }),
+      publicClient,
+      evvmID: 1n,
+      token,
+      executor: fisher,
+      priority: false,
+      maxRecipientsPerChunk: 2,
+    });
+
+    const report = await payout.signFile(csv(5));
+    expect(report.chunks.map((chunk) => chunk.nonce)).toEqual([7n, 8n, 9n]);
+    const errors = [
+      `Timed out while waiting for transaction with hash "${mined}" to be confirmed.`,
+      `Transaction ${reverted} reverted`,
+      "execution reverted",
+    ];
+    await payout.execute(report, {
+      executeDispersePay: async () => {
+        throw new Error(errors.shift());
+      },
+    } as unknown as EVVMTransactionExecutor);
+    expect(report.chunks.map((chunk) => chunk.transactionHash)).toEqual([
+      mined,
+      reverted,
+      undefined,
+    ]);
+
+    // the first chunk was mined after the timeout, another transaction of the
+    // account consumed the nonce of the reverted second chunk
+    nextSyncNonce = 9n;
+    await payout.resign(report);
+    expect(report.chunks.map((chunk) => [chunk.status, chunk.nonce])).toEqual([
+      ["executed", 7n],
+      ["review", 8n],
+      ["signed", 9n],
+    ]);
+    expect(report.chunks[1].error).toBe("Nonce 8 consumed without a confirmed transaction");
+
+    // chunks under review are neither re-signed nor executed
+    await payout.resign(report);
+    await payout.execute(report, {
+      executeDispersePay: async () => ({ hash: mined }),
+    } as unknown as EVVMTransactionExecutor);
+    expect(report.chunks.map((chunk) => chunk.status)).toEqual([
+      "executed",
+      "review",
+      "executed",
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Test utilities for contract error decoding
+ */
+
+import { encodeErrorResult, parseAbi } from "viem";
+import { EvvmABI, StakingABI } from "../abi";
+import { decodeEvvmError } from "../errors/decodeEvvmError";
+import {
+  EvvmBalanceError,
+  EvvmContractError,
+  EvvmNonceError,
+  EvvmRevertError,
+  EvvmUnknownError,
+} from "../errors/evvmErrors";
+
+describe("decodeEvvmError", () => {
+  test("decodes custom errors into their category", () => {
+    const error = decodeEvvmError(
+      encodeErrorResult({ abi: EvvmABI, errorName: "InsufficientBalance" }),
+    );
+
+    expect(error).toBeInstanceOf(EvvmBalanceError);
+    expect(error).toBeInstanceOf(EvvmContractError);
+    expect(error.errorName).toBe("InsufficientBalance");
+    expect(error.contracts).toEqual(["Evvm"]);
+    expect(error.retryWithNewNonce).toBe(false);
+    expect(error.suggestion).not.toBe("");
+  });
+
+  test("flags nonce errors as retryable and keeps arguments", () => {
+    const nonce = decodeEvvmError(
+      encodeErrorResult({ abi: StakingABI, errorName: "StakingNonceAlreadyUsed" }),
+    );
+    expect(nonce).toBeInstanceOf(EvvmNonceError);
+    expect(nonce.retryWithNewNonce).toBe(true);
+
+    const amount = decodeEvvmError(
+      encodeErrorResult({
+        abi: StakingABI,
+        errorName: "ServiceDoesNotFulfillCorrectStakingAmount",
+        args: [5n],
+      }),
+    );
+    expect(amount.args).toEqual([5n]);
+  });
+
+  test("decodes revert strings and unknown selectors", () => {
+    const revert = decodeEvvmError(
+      encodeErrorResult({
+        abi: parseAbi(["error Error(string)"]),
+        errorName: "Error",
+        args: ["Invalid nonce"],
+      }),
+    );
+    expect(revert).toBeInstanceOf(EvvmRevertError);
+    expect(revert.explanation).toBe("Invalid nonce");
+    expect(revert.retryWithNewNonce).toBe(true);
+
+    const unknown = decodeEvvmError("0xdeadbeef");
+    expect(unknown).toBeInstanceOf(EvvmUnknownError);
+    expect(unknown.data).toBe("0xdeadbeef");
+  });
+});
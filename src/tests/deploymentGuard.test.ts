@@ -0,0 +1,96 @@
+/**
+ * Test utilities for the deployment guard
+ */
+
+import { createWalletClient, http, PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { DeploymentGuard, DeploymentMismatchError } from "../deployment/deploymentGuard";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { NameServiceSignatureBuilder } from "../signatures/nameService";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const stakingAddress = "0x0000000000000000000000000000000000000b00" as `0x${string}`;
+const otherAddress = "0x0000000000000000000000000000000000000c00" as `0x${string}`;
+
+function mockClient(reads: string[]): PublicClient {
+  return {
+    readContract: async ({ functionName }: { functionName: string }) => {
+      reads.push(functionName);
+      switch (functionName) {
+        case "getEvvmID":
+          return 7n;
+        case "getEvvmMetadata":
+          return { EvvmName: "Test EVVM", EvvmID: 7n };
+        case "getNameServiceAddress":
+          return nameServiceAddress;
+        case "getStakingContractAddress":
+          return stakingAddress;
+      }
+      throw new Error(`unexpected read ${functionName}`);
+    },
+  } as unknown as PublicClient;
+}
+
+const signPay = (builder: EVVMSignatureBuilder, evvmID: bigint) =>
+  builder.signPay(evvmID, "alice", PRINCIPAL_TOKEN_ADDRESS, 1n, 0n, 1n, true, evvmAddress);
+
+describe("DeploymentGuard", () => {
+  test("reads the deployment once and refuses other evvmIDs", async () => {
+    const reads: string[] = [];
+    const guard = new DeploymentGuard({ publicClient: mockClient(reads), evvmAddress });
+    const builder = new EVVMSignatureBuilder(walletClient, account).useDeploymentGuard(guard);
+
+    await expect(signPay(builder, 7n)).resolves.toMatch(/^0x/);
+    await expect(signPay(builder, 1n)).rejects.toThrow(DeploymentMismatchError);
+    expect((await guard.load()).metadata?.EvvmName).toBe("Test EVVM");
+    expect(reads).toHaveLength(4);
+
+    guard.refresh();
+    await guard.load();
+    expect(reads).toHaveLength(8);
+  });
+
+  test("refuses service addresses that differ from the deployment", async () => {
+    const guard = new DeploymentGuard({ publicClient: mockClient([]), evvmAddress });
+    const builder = new NameServiceSignatureBuilder(walletClient, account).useDeploymentGuard(
+      guard,
+    );
+    const sign = (address: `0x${string}`) =>
+      builder.signRenewUsername(7n, address, "alice", 1n, 10n, 0n, 2n, true);
+
+    await expect(sign(nameServiceAddress)).resolves.toMatchObject({ nonce: 1n });
+    await expect(sign(otherAddress)).rejects.toMatchObject({
+      field: "nameServiceAddress",
+      expected: nameServiceAddress,
+      actual: otherAddress,
+    });
+
+    const misconfigured = new DeploymentGuard({
+      publicClient: mockClient([]),
+      evvmAddress,
+      stakingAddress: otherAddress,
+    });
+    await expect(misconfigured.load()).rejects.toMatchObject({ field: "stakingAddress" });
+  });
+
+  test("checks against the configured values when offline", async () => {
+    const guard = new DeploymentGuard({ evvmAddress, evvmID: 7n, offline: true });
+    const builder = new EVVMSignatureBuilder(walletClient, account).useDeploymentGuard(guard);
+
+    await expect(signPay(builder, 7n)).resolves.toMatch(/^0x/);
+    await expect(signPay(builder, 8n)).rejects.toThrow("evvmID");
+    expect(() => new DeploymentGuard({ evvmAddress, offline: true })).toThrow("evvmID");
+    expect(() => new DeploymentGuard({ evvmAddress })).toThrow("public client");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test utilities for message previews
+ */
+
+import {
+  buildMessageSignedForPay,
+  buildMessageSignedForMakeOffer,
+  buildMessageSignedForMakeOrder,
+} from "../utils/constructMessage";
+import { describeEvvmMessage } from "../utils/describeMessage";
+
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+describe("Message Previews", () => {
+  test("describes a pay message with the default token list", () => {
+    const preview = describeEvvmMessage(
+      buildMessageSignedForPay(
+        1n,
+        "alice",
+        token,
+        1500000000000000000n,
+        10000000000000000n,
+        4n,
+        false,
+        "0x0000000000000000000000000000000000000000",
+      ),
+    );
+
+    expect(preview).toMatchObject({
+      action: "Payment",
+      recipient: "alice",
+      amount: "1.5 MATE",
+      priorityFee: "0.01 MATE",
+      mode: "sync",
+      executor: "anyone",
+    });
+    expect(preview.text.split("\n")[0]).toBe("Payment");
+    expect(preview.text).toContain("Nonce: 4 (sync)");
+  });
+
+  test("uses the token list for symbols and decimals", () => {
+    const usdc = "0x00000000000000000000000000000000000000c0" as `0x${string}`;
+    const message = buildMessageSignedForMakeOrder(
+      1n,
+      2n,
+      usdc,
+      token,
+      2500000n,
+      1000000000000000000n,
+    );
+
+    expect(
+      describeEvvmMessage(message, {
+        tokens: [{ address: usdc, symbol: "USDC", decimals: 6 }],
+      }).fields.slice(0, 2),
+    ).toEqual([
+      { label: "Sell", value: "2.5 USDC" },
+      { label: "Buy", value: "1 MATE" },
+    ]);
+    expect(describeEvvmMessage(message).amount).toBe(
+      `2500000 units of ${usdc}`,
+    );
+  });
+
+  test("shows offer expiry dates, raw when out of the Date range", () => {
+    const expiry = (dateExpire: bigint) =>
+      describeEvvmMessage(
+        buildMessageSignedForMakeOffer(1n, "alice", dateExpire, 1n, 1n),
+      ).fields.find((field) => field.label === "Expires")?.value;
+
+    expect(expiry(1700000000n)).toBe("2023-11-14T22:13:20.000Z");
+    expect(expiry(8640000000000n)).toBe("+275760-09-13T00:00:00.000Z");
+    expect(expiry(99999999999999n)).toBe("99999999999999");
+    expect(
+      describeEvvmMessage("1,makeOffer,alice,99999999999999,1,1").text,
+    ).toContain("Expires: 99999999999999");
+  });
+});
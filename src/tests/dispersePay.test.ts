@@ -0,0 +1,114 @@
+/**
+ * Test utilities for the disperse payment builder
+ */
+
+import { createWalletClient, http, PublicClient, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { RecipientResolver } from "../recipients/recipientResolver";
+import { DispersePayBuilder } from "../signatures/dispersePay";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { hashDispersePaymentUsersToPay } from "../utils/hashTools";
+import { verifyDispersePaySignature } from "../utils/verifySignature";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const builder = new EVVMSignatureBuilder(
+  createWalletClient({ account, transport: http("http://127.0.0.1:8545") }),
+  account,
+);
+
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const bob = privateKeyToAccount(
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+).address;
+const fisher = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+const resolver = new RecipientResolver({
+  nameServiceAddress,
+  publicClient: {
+    readContract: async ({ args }: { args: [string] }) =>
+      args[0] === "carol" ? bob : zeroAddress,
+  } as unknown as PublicClient,
+});
+
+const signParams = { priorityFee: 2n, nonce: 5n, priority: true, executor: fisher };
+
+describe("DispersePayBuilder", () => {
+  test("signs the sum of the recipient amounts and returns the input data", async () => {
+    const dispersePay = new DispersePayBuilder({ evvmID: 1n, token });
+    await dispersePay.add(bob, 100n);
+    await dispersePay.add(" alice ", { token, value: 50n });
+
+    const toData = [
+      { amount: 100n, to_address: bob, to_identity: "" },
+      { amount: 50n, to_address: zeroAddress, to_identity: "alice" },
+    ];
+    expect(dispersePay.total).toBe(150n);
+    expect(dispersePay.toData()).toEqual(toData);
+    expect(dispersePay.hash()).toBe(hashDispersePaymentUsersToPay(toData));
+
+    const input = await dispersePay.sign(builder, signParams);
+    expect(input).toMatchObject({
+      from: account.address,
+      toData,
+      token,
+      amount: 150n,
+      priorityFee: 2n,
+      nonce: 5n,
+      priority: true,
+      executor: fisher,
+    });
+    await expect(
+      verifyDispersePaySignature(
+        {
+          evvmID: 1n,
+          toData,
+          tokenAddress: token,
+          amount: 150n,
+          priorityFee: 2n,
+          nonce: 5n,
+          priorityFlag: true,
+          executor: fisher,
+        },
+        input.signature as `0x${string}`,
+        account.address,
+      ),
+    ).resolves.toBe(true);
+  });
+
+  test("refuses malformed entries, duplicates and empty lists", async () => {
+    const dispersePay = new DispersePayBuilder({ evvmID: 1n, token, maxRecipients: 2 });
+
+    await expect(dispersePay.sign(builder, signParams)).rejects.toThrow("without recipients");
+    await expect(
+      dispersePay.addMetadata({ amount: 1n, to_address: bob, to_identity: "alice" }),
+    ).rejects.toThrow("sets both");
+    await expect(
+      dispersePay.addMetadata({ amount: 1n, to_address: zeroAddress, to_identity: "" }),
+    ).rejects.toThrow("needs a 'to_address' or a 'to_identity'");
+    await expect(dispersePay.add(bob, 0n)).rejects.toThrow("must be positive");
+
+    await dispersePay.addMetadata({ amount: 1n, to_address: bob, to_identity: "" });
+    await expect(dispersePay.add(bob.toLowerCase(), 2n)).rejects.toThrow("already listed");
+    await dispersePay.add("alice", 1n);
+    await expect(dispersePay.add("carol", 1n)).rejects.toThrow("list is full");
+  });
+
+  test("resolves usernames and refuses two entries for the same account", async () => {
+    const dispersePay = new DispersePayBuilder({ evvmID: 1n, token, resolver });
+
+    expect(await dispersePay.add("carol", 10n)).toMatchObject({
+      to_address: zeroAddress,
+      to_identity: "carol",
+      owner: bob,
+    });
+    await expect(dispersePay.add(bob, 10n)).rejects.toThrow("pay the same account");
+    await expect(dispersePay.add("karol", 10n)).rejects.toMatchObject({
+      code: "USERNAME_NOT_REGISTERED",
+    });
+    expect(dispersePay.size).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Test utilities for the EVVM reader
+ */
+
+import { PublicClient, WalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMTransactionExecutor } from "../executors/evvm";
+import { EvvmReader } from "../reader/evvmReader";
+import { PayInputData } from "../types";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+function mockClient(reads: unknown[][]): PublicClient {
+  return {
+    readContract: async ({ functionName, args = [] }: { functionName: string; args?: unknown[] }) => {
+      reads.push([functionName, ...args]);
+      switch (functionName) {
+        case "getBalance":
+          return BigInt(reads.length);
+        case "getAdminFullDetails":
+          return [account.address, nameServiceAddress, 10n];
+        case "getIdentityBasicMetadata":
+          return [account.address, 99n];
+      }
+      throw new Error(`unexpected read ${functionName}`);
+    },
+    simulateContract: async () => ({ request: {} }),
+    waitForTransactionReceipt: async () => ({ status: "success" }),
+  } as unknown as PublicClient;
+}
+
+describe("EvvmReader", () => {
+  test("decodes several outputs into named objects", async () => {
+    const reader = new EvvmReader({
+      publicClient: mockClient([]),
+      evvmAddress,
+      nameServiceAddress,
+    });
+
+    expect(await reader.nameService.getAdminFullDetails()).toEqual({
+      currentAdmin: account.address,
+      proposalAdmin: nameServiceAddress,
+      timeToAcceptAdmin: 10n,
+    });
+    expect(await reader.nameService.getIdentityBasicMetadata("alice")).toEqual({
+      owner: account.address,
+      expireDate: 99n,
+    });
+    await expect(reader.staking.getUserAmountStaked(account.address)).rejects.toThrow(
+      "'stakingAddress' is not configured",
+    );
+  });
+
+  test("caches reads for the TTL", async () => {
+    const reads: unknown[][] = [];
+    let now = 0;
+    const reader = new EvvmReader({
+      publicClient: mockClient(reads),
+      evvmAddress,
+      cacheTtl: 1000,
+      now: () => now,
+    });
+
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(1n);
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(1n);
+    expect(await reader.evvm.getBalance(evvmAddress, token)).toBe(2n);
+
+    now = 1000;
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(3n);
+
+    reader.invalidate("nameService");
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(3n);
+    reader.invalidate("evvm");
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(4n);
+  });
+
+  test("drops the cache after a watched executor confirms a transaction", async () => {
+    const publicClient = mockClient([]);
+    const reader = new EvvmReader({ publicClient, evvmAddress });
+    const walletClient = {
+      writeContract: async () => "0x01",
+    } as unknown as WalletClient;
+    const executor = new EVVMTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      evvmAddress,
+    );
+    const stop = reader.watch(executor);
+
+    const before = await reader.evvm.getBalance(account.address, token);
+    await executor.executePay({ executor: evvmAddress, signature: "0x" } as PayInputData);
+    const after = await reader.evvm.getBalance(account.address, token);
+    expect(after).toBe(before + 1n);
+
+    stop();
+    await executor.executePay({ executor: evvmAddress, signature: "0x" } as PayInputData);
+    expect(await reader.evvm.getBalance(account.address, token)).toBe(after);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Test utilities for fisher bridge signatures
+ */
+
+import { createWalletClient, http, PublicClient, verifyMessage } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { FisherBridgeSignatureBuilder } from "../signatures/fisherBridge";
+import { constructMessageForDepositFisher } from "../utils/constructMessage";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const receiver = "0x742D35Cc6634C0532925a3b8D138068fd4C1B7a1" as `0x${string}`;
+const token = "0x00000000000000000000000000000000000000c0" as `0x${string}`;
+
+describe("FisherBridgeSignatureBuilder", () => {
+  test("signs a native deposit with the fetched nonce", async () => {
+    const reads: unknown[] = [];
+    const publicClient = {
+      readContract: async ({ functionName, args }: { functionName: string; args: unknown[] }) => {
+        reads.push([functionName, ...args]);
+        return 4n;
+      },
+    } as unknown as PublicClient;
+    const builder = new FisherBridgeSignatureBuilder(walletClient, account, {
+      publicClient,
+      evvmAddress,
+    });
+
+    const deposit = await builder.signNativeDeposit(receiver, 1000n, 10n);
+
+    expect(reads).toEqual([["getNextFisherDepositNonce", account.address]]);
+    expect(deposit).toMatchObject({
+      user: account.address,
+      nonce: 4n,
+      isERC20: false,
+      amount: 1000n,
+      priorityFee: 10n,
+    });
+    expect(deposit.message).toBe(
+      `${receiver.toLowerCase()},4,10,1000`,
+    );
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: deposit.message,
+        signature: deposit.signature,
+      }),
+    ).toBe(true);
+  });
+
+  test("signs ERC20 deposits with the token in the message", async () => {
+    const builder = new FisherBridgeSignatureBuilder(walletClient, account);
+
+    const deposit = await builder.signERC20Deposit(receiver, token, 500n, 0n, 2n);
+    expect(deposit.message).toBe(
+      constructMessageForDepositFisher(true, receiver, 2n, token, "0", "500"),
+    );
+
+    const paid = await builder.signERC20Deposit(receiver, token, 500n, 1n, 7n);
+    expect(paid).toMatchObject({ nonce: 7n, isERC20: true, priorityFee: 1n });
+    expect(paid.message).toBe(`${receiver.toLowerCase()},7,${token},1,500`);
+
+    await expect(builder.signNativeDeposit(receiver, 1n, 0n)).rejects.toThrow(
+      "needs a public client",
+    );
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Test utilities for the fisher intent pool
+ */
+
+import { createWalletClient, http, PublicClient, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { FisherIntentPool } from "../fisher/intentPool";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { NameServiceSignatureBuilder } from "../signatures/nameService";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import { DispersePayMetadata, PayInputData } from "../types";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const evvmID = 1n;
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const fisher = "0x00000000000000000000000000000000000000f1" as `0x${string}`;
+const receiver = "0x742D35Cc6634C0532925a3b8D138068fd4C1B7a1" as `0x${string}`;
+
+const publicClient = {
+  readContract: async ({ functionName, args }: { functionName: string; args: unknown[] }) => {
+    switch (functionName) {
+      case "getNextCurrentSyncNonce":
+        return 3n;
+      case "getIfUsedAsyncNonce":
+        return args[1] === 99n;
+      case "checkIfNameServiceNonceIsAvailable":
+        return true;
+      case "getRewardAmount":
+        return 5n;
+      case "isAddressStaker":
+        return true;
+    }
+    throw new Error(`unexpected read ${functionName}`);
+  },
+  getGasPrice: async () => 0n,
+} as unknown as PublicClient;
+
+const builder = new EVVMSignatureBuilder(walletClient, account);
+
+async function signedPay(
+  nonce: bigint,
+  priorityFee: bigint,
+  priority: boolean,
+  executor: `0x${string}` = fisher,
+): Promise<PayInputData> {
+  const payment = {
+    to_address: receiver,
+    to_identity: "",
+    token: PRINCIPAL_TOKEN_ADDRESS,
+    amount: 100n,
+    priorityFee,
+    nonce,
+    priority,
+    executor,
+  };
+  const signature = await builder.signPay(
+    evvmID,
+    receiver,
+    payment.token,
+    payment.amount,
+    priorityFee,
+    nonce,
+    priority,
+    executor,
+  );
+  return { ...payment, from: account.address, signature };
+}
+
+function createPool(gasPrice?: bigint): FisherIntentPool {
+  return new FisherIntentPool({
+    publicClient,
+    evvmAddress,
+    evvmID,
+    executor: fisher,
+    nameServiceAddress,
+    gasPrice,
+  });
+}
+
+describe("FisherIntentPool", () => {
+  test("refuses duplicates, foreign executors and forged signatures", async () => {
+    const pool = createPool();
+    const payment = await signedPay(10n, 1n, true);
+
+    expect(await pool.add({ kind: "pay", input: payment })).toEqual({
+      accepted: true,
+      key: `evvmAsync:${account.address.toLowerCase()}:10`,
+    });
+    expect(await pool.add({ kind: "pay", input: payment })).toMatchObject({
+      reason: "DUPLICATE",
+    });
+    expect(
+      await pool.add({ kind: "pay", input: await signedPay(11n, 1n, true, receiver) }),
+    ).toMatchObject({ reason: "FOREIGN_EXECUTOR" });
+    expect(
+      await pool.add({ kind: "pay", input: { ...(await signedPay(12n, 1n, true)), amount: 1n } }),
+    ).toMatchObject({ reason: "INVALID_SIGNATURE" });
+    expect(
+      await pool.add({ kind: "pay", input: await signedPay(13n, 1n, true, zeroAddress) }),
+    ).toMatchObject({ accepted: true });
+    expect(pool.size).toBe(2);
+  });
+
+  test("drops used nonces and ranks executable intents by profit", async () => {
+    const pool = createPool(1n);
+    const nameService = new NameServiceSignatureBuilder(walletClient, account);
+
+    await pool.add({ kind: "pay", input: await signedPay(99n, 500_000n, true) });
+    await pool.add({ kind: "pay", input: await signedPay(2n, 500_000n, false) });
+    await pool.add({ kind: "pay", input: await signedPay(5n, 500_000n, false) });
+    await pool.add({ kind: "pay", input: await signedPay(3n, 100_000n, false) });
+    await pool.add({
+      kind: "renewUsername",
+      input: await nameService.signRenewUsername(
+        evvmID,
+        nameServiceAddress,
+        "alice",
+        7n,
+        10n,
+        300_000n,
+        1n,
+        true,
+      ),
+    });
+
+    const ranked = await pool.rank();
+
+    // 99 is used, 2 is below the sync nonce and 5 waits for 4
+    expect(pool.size).toBe(3);
+    expect(ranked.map((item) => item.intent.kind)).toEqual(["renewUsername", "pay"]);
+    expect(ranked[0]).toMatchObject({
+      priorityFee: 300_000n,
+      reward: 5n,
+      gasCost: 200_000n,
+      profit: 100_005n,
+    });
+    expect(ranked[1].profit).toBe(100_000n + 5n - 90_000n);
+  });
+
+  test("refuses intents reusing the EVVM nonce of a pooled intent", async () => {
+    const pool = createPool();
+    const nameService = new NameServiceSignatureBuilder(walletClient, account);
+    const renewal = (nonce: bigint) =>
+      nameService.signRenewUsername(evvmID, nameServiceAddress, "alice", nonce, 10n, 1n, 40n, true);
+
+    expect(await pool.add({ kind: "renewUsername", input: await renewal(7n) })).toMatchObject({
+      accepted: true,
+    });
+    // another service nonce, but the same async EVVM nonce
+    expect(await pool.add({ kind: "renewUsername", input: await renewal(8n) })).toMatchObject({
+      reason: "DUPLICATE",
+    });
+    expect(await pool.add({ kind: "pay", input: await signedPay(40n, 1n, true) })).toMatchObject(
+      { reason: "DUPLICATE" },
+    );
+    expect(pool.size).toBe(1);
+  });
+
+  test("refuses disperse payments that would revert", async () => {
+    const pool = createPool();
+    const disperse = async (toData: DispersePayMetadata[], amount: bigint, nonce: bigint) => ({
+      kind: "dispersePay" as const,
+      input: {
+        from: account.address,
+        toData,
+        token: PRINCIPAL_TOKEN_ADDRESS,
+        amount,
+        priorityFee: 1n,
+        priority: true,
+        nonce,
+        executor: fisher,
+        signature: await builder.signDispersePay(
+          evvmID,
+          toData,
+          PRINCIPAL_TOKEN_ADDRESS,
+          amount,
+          1n,
+          nonce,
+          true,
+          fisher,
+        ),
+      },
+    });
+    const payee = receiver.toLowerCase() as `0x${string}`;
+    const toReceiver = { amount: 60n, to_address: payee, to_identity: "" };
+    const toAlice = { amount: 40n, to_address: zeroAddress, to_identity: "alice" };
+
+    expect(await pool.add(await disperse([toReceiver, toAlice], 150n, 50n))).toMatchObject({
+      reason: "MALFORMED",
+    });
+    expect(await pool.add(await disperse([toReceiver, toReceiver], 120n, 51n))).toMatchObject({
+      reason: "MALFORMED",
+    });
+    expect(
+      await pool.add(await disperse([{ ...toAlice, to_address: payee }], 40n, 52n)),
+    ).toMatchObject({ reason: "MALFORMED" });
+    expect(await pool.add(await disperse([toReceiver, toAlice], 100n, 53n))).toMatchObject({
+      accepted: true,
+    });
+  });
+
+  test("takes profitable payments in sync nonce order", async () => {
+    const pool = createPool();
+
+    await pool.add({ kind: "pay", input: await signedPay(4n, 9n, false) });
+    await pool.add({ kind: "pay", input: await signedPay(3n, 1n, false) });
+    await pool.add({ kind: "pay", input: await signedPay(20n, 5n, true) });
+
+    const batch = await pool.takePayMultipleBatch({ maxSize: 2 });
+
+    expect(batch?.getPayments().map((payment) => payment.nonce)).toEqual([20n, 3n]);
+    expect(pool.list().map((item) => item.intent.input.nonce)).toEqual([4n]);
+  });
+
+  test("refuses malformed payments and keeps the batch when one is refused", async () => {
+    const pool = createPool();
+
+    const malformed = {
+      ...(await signedPay(30n, 1n, true)),
+      to_address: "not-an-address" as `0x${string}`,
+    };
+    expect(await pool.add({ kind: "pay", input: malformed })).toMatchObject({
+      accepted: false,
+      reason: "MALFORMED",
+    });
+
+    const tampered = await signedPay(31n, 9n, true);
+    await pool.add({ kind: "pay", input: tampered });
+    await pool.add({ kind: "pay", input: await signedPay(32n, 1n, true) });
+    // the signature no longer matches once the pooled payment is altered
+    tampered.amount = 1n;
+
+    const batch = await pool.takePayMultipleBatch();
+
+    expect(batch?.getPayments().map((payment) => payment.nonce)).toEqual([32n]);
+    expect(pool.size).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Test utilities for intent envelopes
+ */
+
+import {
+  decodeEvvmIntent,
+  deserializeEvvmIntent,
+  encodeEvvmIntent,
+  EvvmIntentEnvelopeError,
+  serializeEvvmIntent,
+} from "../utils/intentEnvelope";
+import { EvvmIntentEnvelope } from "../types";
+
+const user = "0x742D35Cc6634C0532925a3b8D138068fd4C1B7a1" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+const signature = `0x${"ab".repeat(65)}` as `0x${string}`;
+
+const dispersePay: EvvmIntentEnvelope<"dispersePay"> = {
+  version: 1,
+  action: "dispersePay",
+  evvmID: 1n,
+  payload: {
+    from: user,
+    toData: [
+      { amount: 2n ** 200n, to_address: token, to_identity: "" },
+      { amount: 1n, to_address: "0x0000000000000000000000000000000000000000", to_identity: "alice" },
+    ],
+    token,
+    amount: 2n ** 200n + 1n,
+    priorityFee: 0n,
+    priority: true,
+    nonce: 42n,
+    executor: "0x0000000000000000000000000000000000000000",
+    signature,
+  },
+};
+
+const makeOrder: EvvmIntentEnvelope = {
+  version: 1,
+  action: "makeOrder",
+  evvmID: 7n,
+  payload: {
+    user,
+    metadata: { nonce: 1n, tokenA: token, tokenB: user, amountA: 10n, amountB: 20n },
+    signature,
+    priorityFee: 3n,
+    nonce_EVVM: 4n,
+    priorityFlag_EVVM: false,
+    signature_EVVM: "0x",
+  },
+};
+
+function errorOf(run: () => unknown): EvvmIntentEnvelopeError {
+  try {
+    run();
+  } catch (error) {
+    return error as EvvmIntentEnvelopeError;
+  }
+  throw new Error("expected an EvvmIntentEnvelopeError");
+}
+
+describe("Intent envelopes", () => {
+  test("round-trip through the JSON and compact forms", () => {
+    for (const envelope of [dispersePay, makeOrder]) {
+      expect(deserializeEvvmIntent(serializeEvvmIntent(envelope))).toEqual(envelope);
+
+      const compact = encodeEvvmIntent(envelope);
+      expect(compact).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeEvvmIntent(compact)).toEqual(envelope);
+    }
+
+    const json = JSON.parse(serializeEvvmIntent(dispersePay));
+    expect(json.evvmID).toBe("1");
+    expect(json.payload.toData[0].amount).toBe((2n ** 200n).toString());
+  });
+
+  test("rejects envelopes that do not match the action layout", () => {
+    const json = JSON.parse(serializeEvvmIntent(dispersePay));
+    const decode = (value: unknown) => () => deserializeEvvmIntent(JSON.stringify(value));
+
+    expect(errorOf(decode({ ...json, version: 2 })).code).toBe("UNSUPPORTED_VERSION");
+    expect(errorOf(decode({ ...json, action: "steal" })).code).toBe("UNKNOWN_ACTION");
+    expect(errorOf(decode({ ...json, evvmID: 1 })).code).toBe("INVALID_EVVM_ID");
+    expect(errorOf(decode({ ...json, extra: true })).code).toBe("UNEXPECTED_FIELD");
+
+    const withoutNonce = { ...json.payload };
+    delete withoutNonce.nonce;
+    expect(errorOf(decode({ ...json, payload: withoutNonce }))).toMatchObject({
+      code: "MISSING_FIELD",
+      field: "payload.nonce",
+    });
+
+    json.payload.toData[1].amount = "-1";
+    expect(errorOf(decode(json))).toMatchObject({
+      code: "INVALID_FIELD",
+      field: "payload.toData[1].amount",
+    });
+
+    expect(errorOf(() => deserializeEvvmIntent("{")).code).toBe("MALFORMED_ENVELOPE");
+    expect(errorOf(() => decodeEvvmIntent("not base64!")).code).toBe("MALFORMED_ENVELOPE");
+  });
+
+  test("refuses to encode mistyped payloads", () => {
+    const broken = {
+      ...makeOrder,
+      payload: { ...makeOrder.payload, priorityFee: 3 },
+    } as unknown as EvvmIntentEnvelope;
+
+    expect(errorOf(() => encodeEvvmIntent(broken))).toMatchObject({
+      code: "INVALID_FIELD",
+      field: "payload.priorityFee",
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Test utilities for NameService signatures
+ */
+
+import { createWalletClient, http, recoverMessageAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { NameServiceSignatureBuilder } from "../signatures/nameService";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import {
+  buildMessageSignedForAcceptOffer,
+  buildMessageSignedForAddCustomMetadata,
+  buildMessageSignedForMakeOffer,
+  buildMessageSignedForPay,
+  buildMessageSignedForPreRegistrationUsername,
+  buildMessageSignedForRegistrationUsername,
+} from "../utils/constructMessage";
+import { hashPreRegisteredUsername } from "../utils/hashTools";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const nameService = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+
+const builder = new NameServiceSignatureBuilder(walletClient, account);
+
+const signer = (message: string, signature: string) =>
+  recoverMessageAddress({ message, signature: signature as `0x${string}` });
+
+// payment to NameService signed next to each action
+const payMessage = (amount: bigint, priorityFee: bigint, nonce: bigint, priority: boolean) =>
+  buildMessageSignedForPay(
+    1n,
+    nameService,
+    PRINCIPAL_TOKEN_ADDRESS,
+    amount,
+    priorityFee,
+    nonce,
+    priority,
+    nameService,
+  );
+
+describe("NameServiceSignatureBuilder", () => {
+  test("pre-registration signs the fee payment only when there is a fee", async () => {
+    const free = await builder.signPreRegistrationUsername(
+      1n,
+      nameService,
+      "alice1",
+      42n,
+      3n,
+      0n,
+      0n,
+      false,
+    );
+    const hash = hashPreRegisteredUsername("alice1", 42n);
+
+    expect(free).toEqual({
+      user: account.address,
+      hashPreRegisteredUsername: hash,
+      nonce: 3n,
+      signature: expect.any(String),
+      priorityFee_EVVM: 0n,
+      nonce_EVVM: 0n,
+      priorityFlag_EVVM: false,
+      signature_EVVM: "0x",
+    });
+    expect(
+      await signer(buildMessageSignedForPreRegistrationUsername(1n, hash, 3n), free.signature),
+    ).toBe(account.address);
+
+    const paid = await builder.signPreRegistrationUsername(
+      1n,
+      nameService,
+      "alice1",
+      42n,
+      3n,
+      2n,
+      8n,
+      true,
+    );
+    expect(await signer(payMessage(0n, 2n, 8n, true), paid.signature_EVVM)).toBe(
+      account.address,
+    );
+  });
+
+  test("registration pays 100 times the reward unless a price is given", async () => {
+    const input = await builder.signRegistrationUsername(
+      1n,
+      nameService,
+      "alice1",
+      42n,
+      4n,
+      5n,
+      1n,
+      9n,
+      true,
+    );
+
+    expect(input).toMatchObject({
+      user: account.address,
+      username: "alice1",
+      clowNumber: 42n,
+      nonce: 4n,
+      priorityFee_EVVM: 1n,
+      nonce_EVVM: 9n,
+      priorityFlag_EVVM: true,
+    });
+    expect(
+      await signer(buildMessageSignedForRegistrationUsername(1n, "alice1", 42n, 4n), input.signature),
+    ).toBe(account.address);
+    expect(await signer(payMessage(500n, 1n, 9n, true), input.signature_EVVM)).toBe(
+      account.address,
+    );
+
+    const quoted = await builder.signRegistrationUsername(
+      1n,
+      nameService,
+      "alice1",
+      42n,
+      4n,
+      5n,
+      1n,
+      9n,
+      true,
+      700n,
+    );
+    expect(await signer(payMessage(700n, 1n, 9n, true), quoted.signature_EVVM)).toBe(
+      account.address,
+    );
+  });
+
+  test("offers and metadata return the fields of their contract call", async () => {
+    const offer = await builder.signMakeOffer(1n, nameService, "alice1", 1000n, 50n, 5n, 0n, 10n, true);
+    expect(offer).toMatchObject({ username: "alice1", expireDate: 1000n, amount: 50n, nonce: 5n });
+    expect(
+      await signer(buildMessageSignedForMakeOffer(1n, "alice1", 1000n, 50n, 5n), offer.signature),
+    ).toBe(account.address);
+    expect(await signer(payMessage(50n, 0n, 10n, true), offer.signature_EVVM)).toBe(
+      account.address,
+    );
+
+    const accept = await builder.signAcceptOffer(1n, nameService, "alice1", 2n, 6n, 0n, 11n, true);
+    expect(accept).toMatchObject({ username: "alice1", offerID: 2n, nonce: 6n, signature_EVVM: "0x" });
+    expect(typeof accept.nonce).toBe("bigint");
+    expect(
+      await signer(buildMessageSignedForAcceptOffer(1n, "alice1", 2n, 6n), accept.signature),
+    ).toBe(account.address);
+
+    const metadata = await builder.signAddCustomMetadata(
+      1n,
+      nameService,
+      7n,
+      "alice1",
+      "email>alice@example.com",
+      30n,
+      0n,
+      12n,
+      false,
+    );
+    expect(metadata).toMatchObject({ identity: "alice1", value: "email>alice@example.com", nonce: 7n });
+    expect(
+      await signer(
+        buildMessageSignedForAddCustomMetadata(1n, "alice1", "email>alice@example.com", 7n),
+        metadata.signature,
+      ),
+    ).toBe(account.address);
+    expect(await signer(payMessage(30n, 0n, 12n, false), metadata.signature_EVVM)).toBe(
+      account.address,
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test utilities for nonce management
+ */
+
+import { PublicClient } from "viem";
+import { NonceManager } from "../nonces/nonceManager";
+
+const user = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+
+function mockClient(
+  read: (functionName: string, args: readonly unknown[]) => unknown,
+): PublicClient {
+  return {
+    readContract: async ({
+      functionName,
+      args,
+    }: {
+      functionName: string;
+      args: readonly unknown[];
+    }) => read(functionName, args),
+  } as unknown as PublicClient;
+}
+
+describe("NonceManager", () => {
+  test("hands out consecutive sync nonces to concurrent signings", async () => {
+    let onChain = 5n;
+    const manager = new NonceManager({
+      publicClient: mockClient(() => onChain),
+      evvmAddress,
+    });
+
+    const nonces = await Promise.all([
+      manager.reserveSyncNonce(user),
+      manager.reserveSyncNonce(user),
+      manager.reserveSyncNonce(user),
+    ]);
+    expect(nonces).toEqual([5n, 6n, 7n]);
+
+    // once the chain catches up, old reservations are dropped
+    onChain = 7n;
+    expect(await manager.reserveSyncNonce(user)).toBe(8n);
+
+    manager.release("evvmSync", user, 8n);
+    expect(await manager.reserveSyncNonce(user)).toBe(8n);
+  });
+
+  test("skips async nonces used on-chain or reserved locally", async () => {
+    const candidates = [1n, 2n, 2n, 3n];
+    const manager = new NonceManager({
+      publicClient: mockClient((functionName, args) => {
+        expect(functionName).toBe("getIfUsedAsyncNonce");
+        return args[1] === 1n;
+      }),
+      evvmAddress,
+      generateNonce: () => candidates.shift() as bigint,
+    });
+
+    expect(await manager.reserveAsyncNonce(user)).toBe(2n);
+    expect(await manager.reserveAsyncNonce(user)).toBe(3n);
+    expect(manager.isReserved("evvmAsync", user, 2n)).toBe(true);
+  });
+
+  test("tells whether an EVVM nonce was consumed", async () => {
+    const manager = new NonceManager({
+      publicClient: mockClient((functionName, args) =>
+        functionName === "getNextCurrentSyncNonce" ? 5n : args[1] === 1n,
+      ),
+      evvmAddress,
+    });
+
+    expect(await manager.isEvvmNonceUsed(user, 4n, false)).toBe(true);
+    expect(await manager.isEvvmNonceUsed(user, 5n, false)).toBe(false);
+    expect(await manager.isEvvmNonceUsed(user, 1n, true)).toBe(true);
+    expect(await manager.isEvvmNonceUsed(user, 4n, true)).toBe(false);
+  });
+
+  test("checks service nonces against each contract", async () => {
+    const manager = new NonceManager({
+      publicClient: mockClient((functionName) => {
+        // NameService reports availability, the others report usage
+        return functionName === "checkIfNameServiceNonceIsAvailable";
+      }),
+      evvmAddress,
+      nameServiceAddress: evvmAddress,
+      stakingAddress: evvmAddress,
+      generateNonce: () => 9n,
+      maxAttempts: 2,
+    });
+
+    expect(await manager.reserveServiceNonce("nameService", user)).toBe(9n);
+    expect(await manager.reserveServiceNonce("staking", user)).toBe(9n);
+    await expect(manager.reserveServiceNonce("nameService", user)).rejects.toThrow(
+      "no unused nameService nonce",
+    );
+    await expect(manager.reserveServiceNonce("p2pSwap", user)).rejects.toThrow(
+      "'p2pSwapAddress' is not configured",
+    );
+  });
+});
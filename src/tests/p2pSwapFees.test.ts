@@ -0,0 +1,64 @@
+/**
+ * Test utilities for P2PSwap fee math
+ */
+
+import {
+  calculateFillFixedFee,
+  calculateFillPropotionalFee,
+  quoteFillFixedFee,
+  quoteFillPropotionalFee,
+  P2PSwapFeeConfig,
+} from "../utils/p2pSwapFees";
+
+const config: P2PSwapFeeConfig = {
+  percentageFee: 500n, // 5%
+  rewardPercentage: { seller: 5000n, service: 4000n, mateStaker: 1000n },
+  maxLimitFillFixedFee: 1000000000000000000n,
+};
+
+describe("P2PSwap Fees", () => {
+  test("rounds the proportional fee down like the contract", () => {
+    expect(calculateFillPropotionalFee(1999n, 500n)).toBe(99n);
+    expect(calculateFillPropotionalFee(0n, 500n)).toBe(0n);
+  });
+
+  test("quotes a proportional fee fill", () => {
+    const quote = quoteFillPropotionalFee(1000000n, config);
+
+    expect(quote.fee).toBe(50000n);
+    expect(quote.amountOfTokenBToFill).toBe(1050000n);
+    expect(quote.minimumAmountOfTokenBToFill).toBe(1050000n);
+    expect(quote.rewards).toEqual({
+      seller: 25000n,
+      service: 20000n,
+      mateStaker: 5000n,
+    });
+  });
+
+  test("caps the fixed fee and allows a 10% shortfall", () => {
+    expect(calculateFillFixedFee(1000n, 500n, 10n)).toEqual({
+      fee: 10n,
+      fee10: 1n,
+    });
+    expect(calculateFillFixedFee(100n, 500n, 10n)).toEqual({
+      fee: 5n,
+      fee10: 0n,
+    });
+
+    const quote = quoteFillFixedFee(100000000000000000000n, config);
+    expect(quote.fee).toBe(config.maxLimitFillFixedFee);
+    expect(quote.amountOfTokenBToFill).toBe(101000000000000000000n);
+    expect(quote.minimumAmountOfTokenBToFill).toBe(100900000000000000000n);
+    expect(quote.maxFillFixedFee).toBe(config.maxLimitFillFixedFee);
+  });
+
+  test("uses amountOut as the fixed fee cap", () => {
+    const quote = quoteFillFixedFee(1000n, config, 20n);
+    expect(quote.fee).toBe(20n);
+    expect(quote.maxFillFixedFee).toBe(20n);
+
+    expect(() =>
+      quoteFillFixedFee(1000n, config, config.maxLimitFillFixedFee + 1n),
+    ).toThrow("above the P2PSwap limit");
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Test utilities for P2PSwap signatures
+ */
+
+import { createWalletClient, http, verifyMessage } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { P2PSwapSignatureBuilder } from "../signatures/p2pSwap";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import {
+  buildMessageSignedForCancelOrder,
+  buildMessageSignedForDispatchOrder,
+  buildMessageSignedForMakeOrder,
+  buildMessageSignedForPay,
+} from "../utils/constructMessage";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const p2pSwap = "0x0000000000000000000000000000000000000770" as `0x${string}`;
+const tokenA = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const tokenB = "0x00000000000000000000000000000000000000b2" as `0x${string}`;
+
+const builder = new P2PSwapSignatureBuilder(walletClient, account);
+
+const signedBy = (message: string, signature: string) =>
+  verifyMessage({
+    address: account.address,
+    message,
+    signature: signature as `0x${string}`,
+  });
+
+describe("P2PSwapSignatureBuilder", () => {
+  test("signMakeOrder signs the order and the escrow of tokenA", async () => {
+    const input = await builder.signMakeOrder(
+      1n,
+      p2pSwap,
+      3n,
+      tokenA,
+      tokenB,
+      1000000n,
+      2000n,
+      5n,
+      9n,
+      true,
+    );
+
+    const message = buildMessageSignedForMakeOrder(1n, 3n, tokenA, tokenB, 1000000n, 2000n);
+    // amounts are written as plain decimal integers
+    expect(message).toBe(`1,makeOrder,3,${tokenA},${tokenB},1000000,2000`);
+    expect(input).toMatchObject({
+      user: account.address,
+      metadata: { nonce: 3n, tokenA, tokenB, amountA: 1000000n, amountB: 2000n },
+      priorityFee: 5n,
+      nonce_EVVM: 9n,
+      priorityFlag_EVVM: true,
+    });
+    expect(await signedBy(message, input.signature)).toBe(true);
+    expect(
+      await signedBy(
+        buildMessageSignedForPay(1n, p2pSwap, tokenA, 1000000n, 5n, 9n, true, p2pSwap),
+        input.signature_EVVM,
+      ),
+    ).toBe(true);
+  });
+
+  test("signCancelOrder only signs a payment when there is a fee", async () => {
+    const free = await builder.signCancelOrder(
+      1n,
+      p2pSwap,
+      4n,
+      tokenA,
+      tokenB,
+      12n,
+      0n,
+      9n,
+      true,
+    );
+    expect(free.signature_EVVM).toBe("0x");
+    expect(
+      await signedBy(
+        buildMessageSignedForCancelOrder(1n, 4n, tokenA, tokenB, 12n),
+        free.metadata.signature,
+      ),
+    ).toBe(true);
+
+    const paid = await builder.signCancelOrder(
+      1n,
+      p2pSwap,
+      4n,
+      tokenA,
+      tokenB,
+      12n,
+      7n,
+      9n,
+      false,
+    );
+    expect(paid).toMatchObject({
+      metadata: { nonce: 4n, tokenA, tokenB, orderId: 12n },
+      priorityFee: 7n,
+    });
+    expect(
+      await signedBy(
+        buildMessageSignedForPay(1n, p2pSwap, PRINCIPAL_TOKEN_ADDRESS, 0n, 7n, 9n, false, p2pSwap),
+        paid.signature_EVVM,
+      ),
+    ).toBe(true);
+  });
+
+  test("dispatch signers sign the fill and the payment of tokenB", async () => {
+    const proportional = await builder.signDispatchOrderFillPropotionalFee(
+      1n,
+      p2pSwap,
+      5n,
+      tokenA,
+      tokenB,
+      12n,
+      2010n,
+      1n,
+      9n,
+      true,
+    );
+    const fixed = await builder.signDispatchOrderFillFixedFee(
+      1n,
+      p2pSwap,
+      5n,
+      tokenA,
+      tokenB,
+      12n,
+      2010n,
+      10n,
+      1n,
+      9n,
+      true,
+    );
+
+    const dispatchMessage = buildMessageSignedForDispatchOrder(1n, 5n, tokenA, tokenB, 12n);
+    const payMessage = buildMessageSignedForPay(1n, p2pSwap, tokenB, 2010n, 1n, 9n, true, p2pSwap);
+    for (const input of [proportional, fixed]) {
+      expect(input.metadata).toMatchObject({ orderId: 12n, amountOfTokenBToFill: 2010n });
+      expect(await signedBy(dispatchMessage, input.metadata.signature)).toBe(true);
+      expect(await signedBy(payMessage, input.signature_EVVM)).toBe(true);
+    }
+    expect(fixed.amountOut).toBe(10n);
+  });
+});
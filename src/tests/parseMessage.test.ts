@@ -0,0 +1,184 @@
+/**
+ * Test utilities for message parsing
+ */
+
+import {
+  buildMessageSignedForPay,
+  buildMessageSignedForDispersePay,
+  buildMessageSignedForPresaleStaking,
+  buildMessageSignedForPublicServiceStake,
+  buildMessageSignedForAddCustomMetadata,
+  buildMessageSignedForMakeOrder,
+} from "../utils/constructMessage";
+import { parseEvvmMessage, EvvmMessageParseError } from "../utils/parseMessage";
+
+const executor = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+function parseError(message: string): EvvmMessageParseError {
+  try {
+    parseEvvmMessage(message);
+  } catch (error) {
+    return error as EvvmMessageParseError;
+  }
+  throw new Error("expected parseEvvmMessage to throw");
+}
+
+describe("Message Parsing", () => {
+  describe("Round trips", () => {
+    test("parses a pay message to an address", () => {
+      const message = buildMessageSignedForPay(
+        1n,
+        "0x742D35Cc92d8A4bbCD07E9d4aC8b2E4c7BE7C7E3",
+        token,
+        1000000000000000000n,
+        50000000000000000n,
+        7n,
+        true,
+        executor,
+      );
+
+      expect(parseEvvmMessage(message)).toEqual({
+        evvmID: 1n,
+        functionName: "pay",
+        to: "0x742d35cc92d8a4bbcd07e9d4ac8b2e4c7be7c7e3",
+        tokenAddress: token,
+        amount: 1000000000000000000n,
+        priorityFee: 50000000000000000n,
+        nonce: 7n,
+        priorityFlag: true,
+        executor,
+      });
+    });
+
+    test("parses a pay message to a username", () => {
+      const message = buildMessageSignedForPay(
+        1n,
+        "alice",
+        token,
+        10n,
+        0n,
+        1n,
+        false,
+        executor,
+      );
+
+      const parsed = parseEvvmMessage(message);
+      expect(parsed.functionName).toBe("pay");
+      expect(parsed).toMatchObject({ to: "alice", priorityFlag: false });
+    });
+
+    test("parses a dispersePay message", () => {
+      const hashList = `0x${"ab".repeat(32)}`;
+      const message = buildMessageSignedForDispersePay(
+        3n,
+        hashList,
+        token,
+        2n,
+        1n,
+        9n,
+        false,
+        executor,
+      );
+
+      expect(parseEvvmMessage(message)).toMatchObject({
+        evvmID: 3n,
+        functionName: "dispersePay",
+        hashList,
+        amount: 2n,
+        nonce: 9n,
+      });
+    });
+
+    test("builds presale staking amounts without digit separators", () => {
+      // toLocaleString would write 5,083,000,... and shift every field after it
+      expect(
+        buildMessageSignedForPresaleStaking(1n, true, 5083000000000000000000n, 1234n),
+      ).toBe("1,presaleStaking,true,5083000000000000000000,1234");
+    });
+
+    test("parses staking messages", () => {
+      expect(
+        parseEvvmMessage(
+          buildMessageSignedForPresaleStaking(1n, true, 5083000000000000000000n, 1n),
+        ),
+      ).toEqual({
+        evvmID: 1n,
+        functionName: "presaleStaking",
+        isStaking: true,
+        amountOfStaking: 5083000000000000000000n,
+        nonce: 1n,
+      });
+
+      expect(
+        parseEvvmMessage(
+          buildMessageSignedForPublicServiceStake(1n, executor, false, 2n, 4n),
+        ),
+      ).toMatchObject({
+        functionName: "publicServiceStaking",
+        serviceAddress: executor,
+        isStaking: false,
+      });
+    });
+
+    test("keeps commas inside custom metadata values", () => {
+      const message = buildMessageSignedForAddCustomMetadata(
+        1n,
+        "alice",
+        "memo>note>hello, world",
+        5n,
+      );
+
+      expect(parseEvvmMessage(message)).toEqual({
+        evvmID: 1n,
+        functionName: "addCustomMetadata",
+        identity: "alice",
+        value: "memo>note>hello, world",
+        nonce: 5n,
+      });
+    });
+
+    test("parses a makeOrder message", () => {
+      const message = buildMessageSignedForMakeOrder(
+        1n,
+        2n,
+        token,
+        executor,
+        100n,
+        200n,
+      );
+
+      expect(parseEvvmMessage(message)).toMatchObject({
+        functionName: "makeOrder",
+        amountA: 100n,
+        amountB: 200n,
+      });
+    });
+  });
+
+  describe("Errors", () => {
+    test("rejects unknown function names", () => {
+      const error = parseError("1,transferEverything,0x01");
+      expect(error).toBeInstanceOf(EvvmMessageParseError);
+      expect(error.code).toBe("UNKNOWN_FUNCTION");
+      expect(error.functionName).toBe("transferEverything");
+    });
+
+    test("rejects wrong field counts", () => {
+      const error = parseError("1,publicStaking,true,1");
+      expect(error.code).toBe("INVALID_FIELD_COUNT");
+    });
+
+    test("rejects invalid field values", () => {
+      const error = parseError("1,publicStaking,yes,1,1");
+      expect(error.code).toBe("INVALID_FIELD");
+      expect(error.field).toBe("isStaking");
+    });
+
+    test("rejects malformed messages", () => {
+      expect(parseError("").code).toBe("EMPTY_MESSAGE");
+      expect(parseError("1,pay").code).toBe("MALFORMED_MESSAGE");
+      expect(parseError("one,pay,x").code).toBe("INVALID_EVVM_ID");
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Test utilities for payMultiple batches
+ */
+
+import { createWalletClient, http, PublicClient, WalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMTransactionExecutor } from "../executors/evvm";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { PayMultipleBatch } from "../signatures/payMultiple";
+
+const alice = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+const bob = privateKeyToAccount(
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+);
+
+// local accounts sign offline, the transport is never reached
+const builderOf = (account: typeof alice) =>
+  new EVVMSignatureBuilder(
+    createWalletClient({ account, transport: http("http://127.0.0.1:8545") }),
+    account,
+  );
+
+const fisher = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+const payment = {
+  to_address: "0x742D35Cc92d8A4bbCD07E9d4aC8b2E4c7BE7C7E3" as `0x${string}`,
+  to_identity: "",
+  token,
+  amount: 100n,
+  priorityFee: 1n,
+  nonce: 1n,
+  priority: true,
+  executor: fisher,
+};
+
+describe("PayMultipleBatch", () => {
+  test("collects signed payments from different users", async () => {
+    const batch = new PayMultipleBatch({ evvmID: 1n, executor: fisher });
+
+    await batch.signAndAdd(builderOf(alice), payment);
+    await batch.signAndAdd(builderOf(bob), { ...payment, to_identity: "carol" });
+
+    const payData = batch.toPayData();
+    expect(payData).toHaveLength(2);
+    expect(payData[0]).toMatchObject({ from: alice.address, priorityFlag: true });
+    expect(payData[1]).toMatchObject({ from: bob.address, to_identity: "carol" });
+  });
+
+  test("rejects duplicates, foreign executors and bad signatures", async () => {
+    const batch = new PayMultipleBatch({ evvmID: 1n, executor: fisher });
+    const signed = await batch.signAndAdd(builderOf(alice), payment);
+
+    await expect(batch.add(signed)).rejects.toThrow("Duplicated payment");
+    await expect(
+      batch.signAndAdd(builderOf(alice), { ...payment, nonce: 2n, executor: token }),
+    ).rejects.toThrow("can only be executed by");
+    await expect(
+      batch.add({ ...signed, nonce: 3n }),
+    ).rejects.toThrow("Invalid signature");
+    await expect(
+      batch.add({ ...signed, nonce: 4n, amount: -1n }),
+    ).rejects.toThrow("must not be negative");
+    expect(batch.size).toBe(1);
+  });
+
+  test("maps results back to each payment", async () => {
+    const batch = new PayMultipleBatch({ evvmID: 1n });
+    const first = await batch.signAndAdd(builderOf(alice), payment);
+    const second = await batch.signAndAdd(builderOf(bob), payment);
+
+    const { successful, failed, items } = batch.reconcile([false, true]);
+    expect(successful).toEqual([second]);
+    expect(failed).toEqual([first]);
+    expect(items.map((item) => item.success)).toEqual([false, true]);
+    expect(() => batch.reconcile([true])).toThrow("Expected 2 results");
+  });
+
+  test("reconciles against the mined outcome, not the simulated one", async () => {
+    const batch = new PayMultipleBatch({ evvmID: 1n });
+    const first = await batch.signAndAdd(builderOf(alice), payment);
+    const second = await batch.signAndAdd(builderOf(bob), payment);
+
+    const publicClient = {
+      simulateContract: async () => ({ request: {}, result: [2n, 0n, [true, true]] }),
+      waitForTransactionReceipt: async () => ({ status: "success", blockNumber: 10n }),
+      // alice's nonce was used by another executor before block 10
+      readContract: async ({ args, blockNumber }: { args: unknown[]; blockNumber: bigint }) =>
+        args[0] === bob.address ? blockNumber === 10n : true,
+    } as unknown as PublicClient;
+    const walletClient = { writeContract: async () => "0xab" } as unknown as WalletClient;
+    const executor = new EVVMTransactionExecutor(walletClient, publicClient, alice, fisher);
+
+    const { reconciliation } = await batch.execute(executor);
+    expect(reconciliation.successful).toEqual([second]);
+    expect(reconciliation.failed).toEqual([first]);
+  });
+});
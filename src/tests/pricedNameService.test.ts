@@ -0,0 +1,182 @@
+/**
+ * Test utilities for price-aware NameService signing
+ */
+
+import { createWalletClient, http, PublicClient, verifyMessage } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { PricedNameServiceSignatureBuilder } from "../signatures/pricedNameService";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import { buildMessageSignedForPay } from "../utils/constructMessage";
+import {
+  fetchNameServicePriceQuote,
+  NameServicePriceQuote,
+  quoteNameServiceAction,
+} from "../utils/nameServicePrices";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+
+function mockClient(reads: unknown[][]): PublicClient {
+  return {
+    readContract: async ({ functionName, args = [] }: { functionName: string; args?: unknown[] }) => {
+      reads.push([functionName, ...args]);
+      switch (functionName) {
+        case "getPriceOfRegistration":
+          return 500n;
+        case "seePriceToRenew":
+          return 250n;
+        case "getPriceToAddCustomMetadata":
+          return 30n;
+      }
+      throw new Error(`unexpected read ${functionName}`);
+    },
+  } as unknown as PublicClient;
+}
+
+// payment to NameService signed for a quote
+const payMessage = (amount: bigint, priorityFee: bigint, nonce: bigint) =>
+  buildMessageSignedForPay(
+    1n,
+    nameServiceAddress,
+    PRINCIPAL_TOKEN_ADDRESS,
+    amount,
+    priorityFee,
+    nonce,
+    true,
+    nameServiceAddress,
+  );
+
+describe("NameService price quotes", () => {
+  test("reads the price of each action and adds the priority fee", async () => {
+    const reads: unknown[][] = [];
+    const client = mockClient(reads);
+
+    expect(
+      await fetchNameServicePriceQuote(client, nameServiceAddress, "renewUsername", "alice", 3n),
+    ).toEqual({
+      action: "renewUsername",
+      identity: "alice",
+      price: 250n,
+      priorityFee_EVVM: 3n,
+      totalCost: 253n,
+    });
+    await fetchNameServicePriceQuote(client, nameServiceAddress, "addCustomMetadata", "alice", 0n);
+    expect(reads).toEqual([["seePriceToRenew", "alice"], ["getPriceToAddCustomMetadata"]]);
+  });
+});
+
+describe("PricedNameServiceSignatureBuilder", () => {
+  test("quote() reads the price or wraps an injected one", async () => {
+    const reads: unknown[][] = [];
+    const builder = new PricedNameServiceSignatureBuilder(walletClient, account, {
+      nameServiceAddress,
+      publicClient: mockClient(reads),
+    });
+
+    expect(await builder.quote("registrationUsername", "alice", 2n)).toMatchObject({
+      price: 500n,
+      totalCost: 502n,
+    });
+    expect(await builder.quote("registrationUsername", "alice", 2n, 900n)).toMatchObject({
+      price: 900n,
+      totalCost: 902n,
+    });
+    expect(reads).toEqual([["getPriceOfRegistration", "alice"]]);
+
+    const offline = new PricedNameServiceSignatureBuilder(walletClient, account, {
+      nameServiceAddress,
+    });
+    await expect(offline.quote("renewUsername", "alice", 0n)).rejects.toThrow(
+      "pass the price instead",
+    );
+  });
+
+  test("signs the payment for exactly the quoted price", async () => {
+    const builder = new PricedNameServiceSignatureBuilder(walletClient, account, {
+      nameServiceAddress,
+    });
+
+    const registration = await builder.signRegistrationUsernameWithQuote(
+      1n,
+      quoteNameServiceAction("registrationUsername", "alice", 777n, 2n),
+      42n,
+      4n,
+      9n,
+      true,
+    );
+    expect(registration).toMatchObject({
+      username: "alice",
+      clowNumber: 42n,
+      nonce: 4n,
+      priorityFee_EVVM: 2n,
+      nonce_EVVM: 9n,
+    });
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: payMessage(777n, 2n, 9n),
+        signature: registration.signature_EVVM as `0x${string}`,
+      }),
+    ).toBe(true);
+
+    const metadata = await builder.signAddCustomMetadataWithQuote(
+      1n,
+      quoteNameServiceAction("addCustomMetadata", "alice", 30n, 0n),
+      "email>alice@example.com",
+      5n,
+      10n,
+      true,
+    );
+    expect(metadata).toMatchObject({
+      identity: "alice",
+      value: "email>alice@example.com",
+      nonce: 5n,
+      nonce_EVVM: 10n,
+    });
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: payMessage(30n, 0n, 10n),
+        signature: metadata.signature_EVVM as `0x${string}`,
+      }),
+    ).toBe(true);
+  });
+
+  test("aborts when the cost is declined or the quote is for another action", async () => {
+    const seen: NameServicePriceQuote[] = [];
+    const builder = new PricedNameServiceSignatureBuilder(walletClient, account, {
+      nameServiceAddress,
+      confirmCost: (quote) => {
+        seen.push(quote);
+        return quote.totalCost <= 100n;
+      },
+    });
+    const renewal = quoteNameServiceAction("renewUsername", "alice", 250n, 1n);
+
+    await expect(
+      builder.signRenewUsernameWithQuote(1n, renewal, 1n, 2n, true),
+    ).rejects.toThrow('Total cost of 251 for renewUsername of "alice" was declined');
+    await expect(
+      builder.signFlushUsernameWithQuote(1n, renewal, 1n, 2n, true),
+    ).rejects.toThrow("Quote is for renewUsername, cannot sign flushUsername");
+    expect(seen).toEqual([renewal]);
+
+    await expect(
+      builder.signRenewUsernameWithQuote(
+        1n,
+        quoteNameServiceAction("renewUsername", "alice", 50n, 1n),
+        1n,
+        2n,
+        true,
+      ),
+    ).resolves.toMatchObject({ username: "alice", priorityFee_EVVM: 1n });
+  });
+});
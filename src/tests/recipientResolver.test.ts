@@ -0,0 +1,191 @@
+/**
+ * Test utilities for recipient resolution
+ */
+
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  PublicClient,
+  zeroAddress,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { NameServiceABI } from "../abi";
+import {
+  classifyRecipient,
+  RecipientResolutionError,
+  RecipientResolver,
+} from "../recipients/recipientResolver";
+import { recipientKeys, toRecipientEntry } from "../recipients/recipientEntry";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const otherAddress = "0x0000000000000000000000000000000000000c00" as `0x${string}`;
+
+const DAY = 86_400n;
+const NOW = 1_000_000n;
+
+// username => [owner, expireDate]
+const usernames: Record<string, [`0x${string}`, bigint]> = {
+  alice: [account.address, NOW + 100n * DAY],
+  carol: [account.address, NOW + 3n * DAY],
+  olddave: [otherAddress, NOW - DAY],
+};
+
+function reverted(functionName: string, args: [string]): ContractFunctionExecutionError {
+  return new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({ abi: NameServiceABI, functionName, data: "0x" }),
+    { abi: NameServiceABI, functionName, args, contractAddress: nameServiceAddress },
+  );
+}
+
+function mockClient(reads: string[]): PublicClient {
+  return {
+    readContract: async ({ functionName, args }: { functionName: string; args: [string] }) => {
+      reads.push(functionName);
+      const identity = usernames[args[0]];
+      switch (functionName) {
+        case "verifyStrictAndGetOwnerOfIdentity":
+          if (!identity) throw reverted(functionName, args);
+          return identity[0];
+        case "getExpireDateOfIdentity":
+          return identity[1];
+        case "getIdentityBasicMetadata":
+          return identity ?? [zeroAddress, 0n];
+      }
+      throw new Error(`unexpected read ${functionName}`);
+    },
+  } as unknown as PublicClient;
+}
+
+describe("classifyRecipient", () => {
+  test("tells addresses from usernames and refuses malformed ones", () => {
+    expect(classifyRecipient(account.address)).toBe("address");
+    expect(classifyRecipient(` ${account.address.toLowerCase()} `)).toBe("address");
+    expect(classifyRecipient("alice")).toBe("username");
+
+    expect(() => classifyRecipient(account.address.slice(0, 41))).toThrow(
+      expect.objectContaining({ code: "INVALID_ADDRESS" }),
+    );
+    // wrong checksum
+    expect(() => classifyRecipient(account.address.replace("C", "c"))).toThrow(
+      expect.objectContaining({ code: "INVALID_ADDRESS" }),
+    );
+    expect(() => classifyRecipient(zeroAddress)).toThrow(
+      expect.objectContaining({ code: "ZERO_ADDRESS" }),
+    );
+    expect(() => classifyRecipient("alice.evvm")).toThrow(
+      expect.objectContaining({
+        code: "INVALID_USERNAME",
+        issues: [expect.objectContaining({ code: "USERNAME_INVALID_CHARACTER" })],
+      }),
+    );
+  });
+});
+
+describe("RecipientResolver", () => {
+  test("fills the identity of registered usernames and refuses unknown ones", async () => {
+    const reads: string[] = [];
+    const resolver = new RecipientResolver({
+      publicClient: mockClient(reads),
+      nameServiceAddress,
+    });
+
+    expect(await resolver.resolve("alice")).toEqual({
+      recipient: "alice",
+      kind: "username",
+      to_address: zeroAddress,
+      to_identity: "alice",
+      owner: account.address,
+      username: "alice",
+      warnings: [],
+    });
+    expect(await resolver.resolve(otherAddress)).toMatchObject({
+      kind: "address",
+      to_address: otherAddress,
+      to_identity: "",
+    });
+    expect(reads).toEqual(["verifyStrictAndGetOwnerOfIdentity"]);
+
+    const error = await resolver.resolve("alicee").catch((error) => error);
+    expect(error).toBeInstanceOf(RecipientResolutionError);
+    expect(error.code).toBe("USERNAME_NOT_REGISTERED");
+  });
+
+  test("warns about usernames expiring within the window", async () => {
+    const resolver = new RecipientResolver({
+      publicClient: mockClient([]),
+      nameServiceAddress,
+      expiryWarningWindow: 7n * DAY,
+      now: () => NOW,
+    });
+
+    expect(await resolver.resolve("alice")).toMatchObject({
+      expireDate: NOW + 100n * DAY,
+      warnings: [],
+    });
+    expect((await resolver.resolve("carol")).warnings).toEqual([
+      expect.objectContaining({
+        code: "USERNAME_EXPIRES_SOON",
+        params: expect.objectContaining({ days: 3 }),
+      }),
+    ]);
+    expect((await resolver.resolve("olddave")).warnings).toEqual([
+      expect.objectContaining({ code: "USERNAME_EXPIRED" }),
+    ]);
+  });
+
+  test("reverse-looks-up addresses from resolved names and the lookup source", async () => {
+    const lookups: string[] = [];
+    const resolver = new RecipientResolver({
+      publicClient: mockClient([]),
+      nameServiceAddress,
+      now: () => NOW,
+      lookupUsernames: async (address) => {
+        lookups.push(address);
+        return address === otherAddress ? ["olddave", "unknown"] : [];
+      },
+    });
+
+    expect(await resolver.resolve(account.address, { reverseLookup: true })).toMatchObject({
+      owner: account.address,
+      username: undefined,
+    });
+
+    await resolver.resolve("carol");
+    expect(await resolver.lookupUsername(account.address)).toBe("carol");
+
+    // expired and unregistered candidates are skipped
+    expect(await resolver.lookupUsername(otherAddress)).toBeUndefined();
+    expect(lookups).toEqual([account.address, account.address, otherAddress]);
+  });
+});
+
+describe("recipient entries", () => {
+  test("share an owner key between a username and its owner's address", async () => {
+    const resolver = new RecipientResolver({
+      publicClient: mockClient([]),
+      nameServiceAddress,
+    });
+
+    const offline = await toRecipientEntry(" alice ");
+    expect(offline).toEqual({
+      to_address: zeroAddress,
+      to_identity: "alice",
+      owner: undefined,
+      warnings: [],
+    });
+    expect(recipientKeys(offline)).toEqual(["recipient:alice"]);
+
+    const resolved = await toRecipientEntry("alice", resolver);
+    const address = await toRecipientEntry(account.address);
+    expect(resolved.owner).toBe(account.address);
+    expect(recipientKeys(resolved)[1]).toBe(recipientKeys(address)[1]);
+    expect(recipientKeys(address)).toEqual([
+      `recipient:${account.address.toLowerCase()}`,
+      `owner:${account.address.toLowerCase()}`,
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Test utilities for service staking
+ */
+
+import { createWalletClient, http, PublicClient, WalletClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { ServiceStakingTransactionExecutor } from "../executors/serviceStaking";
+import { StakingSignatureBuilder } from "../signatures/staking";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import { parseEvvmMessage } from "../utils/parseMessage";
+import { buildMessageSignedForPublicServiceStake } from "../utils/constructMessage";
+import {
+  verifyPaySignature,
+  verifyPublicServiceStakingSignature,
+} from "../utils/verifySignature";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const stakingAddress = "0x0000000000000000000000000000000000000500" as `0x${string}`;
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const service = "0x742D35Cc6634C0532925a3b8D138068fd4C1B7a1" as `0x${string}`;
+
+describe("StakingSignatureBuilder.signPublicServiceStaking", () => {
+  test("signs the service staking message and its payment", async () => {
+    const builder = new StakingSignatureBuilder(walletClient, account);
+
+    const { actionSignature, paySignature } = await builder.signPublicServiceStaking(
+      1n,
+      stakingAddress,
+      service,
+      true,
+      2n,
+      5n,
+      10166n,
+      1n,
+      7n,
+      true,
+    );
+
+    const message = buildMessageSignedForPublicServiceStake(1n, service, true, 2n, 5n);
+    expect(parseEvvmMessage(message)).toMatchObject({
+      functionName: "publicServiceStaking",
+      serviceAddress: service.toLowerCase(),
+    });
+    expect(
+      await verifyPublicServiceStakingSignature(
+        {
+          evvmID: 1n,
+          serviceAddress: service,
+          isStaking: true,
+          amountOfStaking: 2n,
+          nonce: 5n,
+        },
+        actionSignature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+    expect(
+      await verifyPaySignature(
+        {
+          evvmID: 1n,
+          to: stakingAddress,
+          tokenAddress: PRINCIPAL_TOKEN_ADDRESS,
+          amount: 10166n,
+          priorityFee: 1n,
+          nonce: 7n,
+          priorityFlag: true,
+          executor: stakingAddress,
+        },
+        paySignature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+  });
+
+  test("signs a zero payment when unstaking", async () => {
+    const builder = new StakingSignatureBuilder(walletClient, account);
+
+    const { paySignature } = await builder.signPublicServiceStaking(
+      1n,
+      stakingAddress,
+      service,
+      false,
+      2n,
+      5n,
+      10166n,
+      0n,
+      7n,
+      true,
+    );
+
+    expect(
+      await verifyPaySignature(
+        {
+          evvmID: 1n,
+          to: stakingAddress,
+          tokenAddress: PRINCIPAL_TOKEN_ADDRESS,
+          amount: 0n,
+          priorityFee: 0n,
+          nonce: 7n,
+          priorityFlag: true,
+          executor: stakingAddress,
+        },
+        paySignature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("ServiceStakingTransactionExecutor", () => {
+  function mockClients(serviceBalance: bigint) {
+    const simulated: { address: string; functionName: string; args: unknown[] }[] = [];
+    const publicClient = {
+      readContract: async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case "priceOfStaking":
+            return 5083n;
+          case "getMateAddress":
+            return PRINCIPAL_TOKEN_ADDRESS;
+          case "getEvvmAddress":
+            return evvmAddress;
+          case "getBalance":
+            return serviceBalance;
+          case "getUserAmountStaked":
+            return 1n;
+        }
+        throw new Error(`unexpected read ${functionName}`);
+      },
+      simulateContract: async (call: { address: string; functionName: string; args: unknown[] }) => {
+        simulated.push(call);
+        return { request: call };
+      },
+      waitForTransactionReceipt: async () => ({ status: "success" }),
+    } as unknown as PublicClient;
+    const wallet = { writeContract: async () => "0x01" } as unknown as WalletClient;
+
+    return {
+      simulated,
+      executor: new ServiceStakingTransactionExecutor(
+        wallet,
+        publicClient,
+        account,
+        stakingAddress,
+      ),
+    };
+  }
+
+  test("stakes through the service once it can afford the price", async () => {
+    const { executor, simulated } = mockClients(10166n);
+
+    const { result } = await executor.executeServiceStake(service, 2n);
+
+    expect(result).toMatchObject({ totalPrice: 10166n, serviceBalance: 10166n });
+    expect(simulated).toMatchObject([
+      { address: service, functionName: "stake", args: [2n] },
+    ]);
+  });
+
+  test("refuses to stake or unstake beyond the service means", async () => {
+    const { executor, simulated } = mockClients(10165n);
+
+    await expect(executor.executeServiceStake(service, 2n)).rejects.toThrow(
+      "10166 are needed to stake 2",
+    );
+    await expect(executor.executeServiceUnstake(service, 2n)).rejects.toThrow(
+      "has 1 stakes, cannot unstake 2",
+    );
+    await executor.executeServiceUnstake(service, 1n);
+    expect(simulated).toMatchObject([
+      { address: service, functionName: "unstake", args: [1n] },
+    ]);
+  });
+});
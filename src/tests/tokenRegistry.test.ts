@@ -0,0 +1,128 @@
+/**
+ * Test utilities for the token registry
+ */
+
+import { createWalletClient, http, PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { PRINCIPAL_TOKEN_ADDRESS } from "../tokens/constants";
+import { TokenRegistry } from "../tokens/tokenRegistry";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const evvmAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const usdc = "0x00000000000000000000000000000000000000c0" as `0x${string}`;
+const proposed = "0x00000000000000000000000000000000000000d0" as `0x${string}`;
+
+const publicClient = {
+  readContract: async ({ functionName }: { functionName: string }) => {
+    switch (functionName) {
+      case "getEvvmMetadata":
+        return {
+          EvvmName: "Test EVVM",
+          EvvmID: 1n,
+          principalTokenName: "Principal",
+          principalTokenSymbol: "PRT",
+          principalTokenAddress: PRINCIPAL_TOKEN_ADDRESS,
+          totalSupply: 0n,
+          eraTokens: 0n,
+          reward: 5n,
+        };
+      case "getWhitelistTokenToBeAdded":
+        return proposed;
+      case "getWhitelistTokenToBeAddedDateToSet":
+        return 1000n;
+    }
+    throw new Error(`unexpected read ${functionName}`);
+  },
+} as unknown as PublicClient;
+
+describe("TokenRegistry", () => {
+  test("seeds the principal token from getEvvmMetadata", async () => {
+    const registry = await TokenRegistry.fromEvvm(publicClient, evvmAddress, [
+      { address: usdc, symbol: "USDC", decimals: 6 },
+    ]);
+
+    expect(registry.get(PRINCIPAL_TOKEN_ADDRESS)).toMatchObject({
+      symbol: "PRT",
+      decimals: 18,
+    });
+    expect(registry.findBySymbol("usdc")?.address).toBe(usdc);
+    expect(registry.isPendingWhitelist(proposed)).toBe(true);
+    expect(registry.evvmMetadata?.EvvmName).toBe("Test EVVM");
+  });
+
+  test("parses and formats decimal amounts", () => {
+    const registry = new TokenRegistry({
+      tokens: [{ address: usdc, symbol: "USDC", decimals: 6 }],
+    });
+
+    const amount = registry.parseAmount("12.5", usdc);
+    expect(amount).toEqual({ token: usdc, value: 12500000n });
+    expect(registry.formatAmount(amount)).toBe("12.5 USDC");
+    expect(registry.formatAmount(10n ** 18n, PRINCIPAL_TOKEN_ADDRESS)).toBe("1 MATE");
+    expect(() => registry.parseAmount("0.0000001", usdc)).toThrow("decimals");
+  });
+
+  test("only parses unsigned decimal strings", () => {
+    const registry = new TokenRegistry({
+      tokens: [{ address: usdc, symbol: "USDC", decimals: 6 }],
+    });
+
+    expect(registry.parseAmount(" 3 ", usdc).value).toBe(3000000n);
+    for (const value of ["-1", "+1", "1e-7", "1e21", "0x10", ".5", "1.", ""]) {
+      expect(() => registry.parseAmount(value, usdc)).toThrow(
+        "is not an unsigned decimal amount of USDC",
+      );
+    }
+  });
+
+  test("sign methods refuse negative amounts", async () => {
+    const builder = new EVVMSignatureBuilder(walletClient, account);
+
+    await expect(
+      builder.signPay(
+        1n,
+        "alice",
+        PRINCIPAL_TOKEN_ADDRESS,
+        -(10n ** 18n),
+        0n,
+        1n,
+        false,
+        evvmAddress,
+      ),
+    ).rejects.toThrow("is negative");
+  });
+
+  test("sign methods accept registry amounts of the signed token", async () => {
+    const registry = new TokenRegistry();
+    const builder = new EVVMSignatureBuilder(walletClient, account);
+    const sign = (amount: bigint | ReturnType<typeof registry.parseAmount>) =>
+      builder.signPay(
+        1n,
+        "alice",
+        PRINCIPAL_TOKEN_ADDRESS,
+        amount,
+        0n,
+        1n,
+        true,
+        evvmAddress,
+      );
+
+    expect(await sign(registry.parseAmount("1.5", PRINCIPAL_TOKEN_ADDRESS))).toBe(
+      await sign(1500000000000000000n),
+    );
+
+    registry.register({ address: usdc, symbol: "USDC", decimals: 6 });
+    await expect(sign(registry.parseAmount("1", usdc))).rejects.toThrow(
+      "expected",
+    );
+  });
+});
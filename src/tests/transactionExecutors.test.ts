@@ -0,0 +1,253 @@
+/**
+ * Test utilities for the transaction executors
+ */
+
+import { PublicClient, WalletClient, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMTransactionExecutor } from "../executors/evvm";
+import { NameServiceTransactionExecutor } from "../executors/nameService";
+import { P2PSwapTransactionExecutor } from "../executors/p2pSwap";
+import { StakingTransactionExecutor } from "../executors/staking";
+import { PayInputData } from "../types";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+const contractAddress = "0x0000000000000000000000000000000000000e00" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+const signature = `0x${"11".repeat(65)}` as `0x${string}`;
+
+type SimulateCall = {
+  address: `0x${string}`;
+  functionName: string;
+  args: unknown[];
+};
+
+type ReadCall = {
+  functionName: string;
+  args: unknown[];
+  blockNumber?: bigint;
+};
+
+// records every step of the simulate → write → receipt flow
+function mockClients(
+  options: {
+    result?: unknown;
+    status?: string;
+    simulateError?: Error;
+    read?: (call: ReadCall) => unknown;
+  } = {},
+) {
+  const steps: string[] = [];
+  const simulated: SimulateCall[] = [];
+
+  const publicClient = {
+    simulateContract: async (call: SimulateCall) => {
+      steps.push(`simulate:${call.functionName}`);
+      if (options.simulateError) throw options.simulateError;
+      simulated.push(call);
+      return { request: { functionName: call.functionName }, result: options.result };
+    },
+    waitForTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) => {
+      steps.push(`receipt:${hash}`);
+      return { status: options.status ?? "success", transactionHash: hash, blockNumber: 10n };
+    },
+    readContract: async (call: ReadCall) => options.read!(call),
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    writeContract: async (request: { functionName: string }) => {
+      steps.push(`write:${request.functionName}`);
+      return "0xab";
+    },
+  } as unknown as WalletClient;
+
+  return { publicClient, walletClient, steps, simulated };
+}
+
+const pay: PayInputData = {
+  from: account.address,
+  to_address: zeroAddress,
+  to_identity: "alice",
+  token,
+  amount: 10n,
+  priorityFee: 1n,
+  nonce: 3n,
+  priority: false,
+  executor: zeroAddress,
+  signature,
+};
+
+describe("EVVMTransactionExecutor", () => {
+  test("simulates, sends and waits for the receipt", async () => {
+    const { publicClient, walletClient, steps, simulated } = mockClients();
+    const executor = new EVVMTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    );
+    const confirmed: `0x${string}`[] = [];
+    executor.onConfirmed((result) => confirmed.push(result.hash));
+
+    const result = await executor.executePay(pay);
+
+    expect(steps).toEqual(["simulate:pay", "write:pay", "receipt:0xab"]);
+    expect(simulated[0].address).toBe(contractAddress);
+    expect(simulated[0].args).toEqual([
+      account.address,
+      zeroAddress,
+      "alice",
+      token,
+      10n,
+      1n,
+      3n,
+      false,
+      zeroAddress,
+      signature,
+    ]);
+    expect(result).toMatchObject({ hash: "0xab", receipt: { status: "success" } });
+    expect(confirmed).toEqual(["0xab"]);
+  });
+
+  test("reads the payMultiple outcome from the mined nonces", async () => {
+    const { publicClient, walletClient, simulated } = mockClients({
+      // the simulation expected every payment to go through
+      result: [3n, 0n, [true, true, true]],
+      read: ({ functionName, args, blockNumber }) => {
+        // the payMultiple of block 10 only consumed sync nonce 3
+        if (functionName === "getNextCurrentSyncNonce") return blockNumber === 10n ? 4n : 3n;
+        // async nonce 8 was used by another executor before
+        return args[1] === 8n;
+      },
+    });
+    const executor = new EVVMTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    );
+
+    const { result } = await executor.executePayMultiple([
+      pay,
+      { ...pay, nonce: 4n },
+      { ...pay, nonce: 8n, priority: true },
+    ]);
+
+    expect(result).toEqual({
+      successfulTransactions: 1n,
+      failedTransactions: 2n,
+      results: [true, false, false],
+    });
+    expect(simulated[0].args[0]).toMatchObject([
+      { nonce: 3n, priorityFlag: false },
+      { nonce: 4n, priorityFlag: false },
+      { nonce: 8n, priorityFlag: true },
+    ]);
+  });
+
+  test("throws on a reverted receipt without notifying listeners", async () => {
+    const { publicClient, walletClient } = mockClients({ status: "reverted" });
+    const executor = new EVVMTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    );
+    const listener = jest.fn();
+    executor.onConfirmed(listener);
+
+    await expect(executor.executePay(pay)).rejects.toThrow("Transaction 0xab reverted");
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("sends nothing when the simulation fails", async () => {
+    const { publicClient, walletClient, steps } = mockClients({
+      simulateError: new Error("execution reverted: InvalidSignature"),
+    });
+    const executor = new EVVMTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    );
+
+    await expect(executor.executePay(pay)).rejects.toThrow("InvalidSignature");
+    expect(steps).toEqual(["simulate:pay"]);
+  });
+});
+
+describe("service executors", () => {
+  test("submit to their contract with the expected arguments", async () => {
+    const { publicClient, walletClient, steps, simulated } = mockClients({
+      result: [2n, 5n],
+    });
+
+    await new NameServiceTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    ).executePreRegistrationUsername({
+      user: account.address,
+      hashPreRegisteredUsername: `0x${"22".repeat(32)}`,
+      nonce: 1n,
+      signature,
+      priorityFee_EVVM: 0n,
+      nonce_EVVM: 2n,
+      priorityFlag_EVVM: true,
+      signature_EVVM: signature,
+    });
+    await new StakingTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    ).executePublicStaking({
+      user: account.address,
+      isStaking: true,
+      amountOfStaking: 3n,
+      nonce: 4n,
+      signature,
+      priorityFee_EVVM: 0n,
+      nonce_EVVM: 5n,
+      priorityFlag_EVVM: true,
+      signature_EVVM: signature,
+    });
+    const { result } = await new P2PSwapTransactionExecutor(
+      walletClient,
+      publicClient,
+      account,
+      contractAddress,
+    ).executeMakeOrder({
+      user: account.address,
+      metadata: { nonce: 6n, tokenA: token, tokenB: zeroAddress, amountA: 7n, amountB: 8n },
+      signature,
+      priorityFee: 0n,
+      nonce_EVVM: 9n,
+      priorityFlag_EVVM: true,
+      signature_EVVM: signature,
+    });
+
+    expect(steps.filter((step) => step.startsWith("write"))).toEqual([
+      "write:preRegistrationUsername",
+      "write:publicStaking",
+      "write:makeOrder",
+    ]);
+    expect(simulated.map((call) => call.args)).toEqual([
+      [account.address, `0x${"22".repeat(32)}`, 1n, signature, 0n, 2n, true, signature],
+      [account.address, true, 3n, 4n, signature, 0n, 5n, true, signature],
+      [
+        account.address,
+        { nonce: 6n, tokenA: token, tokenB: zeroAddress, amountA: 7n, amountB: 8n },
+        signature,
+        0n,
+        9n,
+        true,
+        signature,
+      ],
+    ]);
+    expect(result).toEqual({ market: 2n, orderId: 5n });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Test utilities for the username registration workflow
+ */
+
+import { createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { NameServiceSignatureBuilder } from "../signatures/nameService";
+import {
+  InMemoryRegistrationSecretStorage,
+  UsernameRegistration,
+} from "../registration/usernameRegistration";
+import { hashPreRegisteredUsername } from "../utils/hashTools";
+import {
+  verifyPreRegistrationUsernameSignature,
+  verifyRegistrationUsernameSignature,
+} from "../utils/verifySignature";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+const builder = new NameServiceSignatureBuilder(walletClient, account);
+
+const nameServiceAddress =
+  "0x0000000000000000000000000000000000000a11" as `0x${string}`;
+
+const preRegistrationParams = {
+  nonce: 1n,
+  priorityFee_EVVM: 0n,
+  nonce_EVVM: 0n,
+  priorityFlag_EVVM: false,
+};
+
+const registrationParams = {
+  nonce: 2n,
+  mateReward: 5n,
+  priorityFee_EVVM: 0n,
+  nonce_EVVM: 7n,
+  priorityFlag_EVVM: false,
+};
+
+describe("UsernameRegistration", () => {
+  test("commits and reveals the same stored clowNumber", async () => {
+    let now = 1_000n;
+    const storage = new InMemoryRegistrationSecretStorage();
+    const registration = new UsernameRegistration({
+      builder,
+      evvmID: 1n,
+      nameServiceAddress,
+      storage,
+      now: () => now,
+    });
+
+    const preRegistration = await registration.preRegister(
+      "alice",
+      preRegistrationParams,
+    );
+    const record = await registration.get("alice");
+    expect(record?.status).toBe("pending");
+    expect(preRegistration.hashPreRegisteredUsername).toBe(
+      hashPreRegisteredUsername("alice", record!.clowNumber),
+    );
+    expect(
+      await verifyPreRegistrationUsernameSignature(
+        {
+          evvmID: 1n,
+          hashUsername:
+            preRegistration.hashPreRegisteredUsername as `0x${string}`,
+          nonce: 1n,
+        },
+        preRegistration.signature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+
+    // a retried pre-registration commits to the same secret
+    const retry = await registration.preRegister("alice", preRegistrationParams);
+    expect(retry.hashPreRegisteredUsername).toBe(
+      preRegistration.hashPreRegisteredUsername,
+    );
+
+    await registration.confirmPreRegistration("alice", now);
+    await expect(
+      registration.register("alice", registrationParams),
+    ).rejects.toThrow("opens in 1800 seconds");
+
+    now += 1_800n;
+    // a new session reading the same storage still finds the secret
+    const resumed = new UsernameRegistration({
+      builder,
+      evvmID: 1n,
+      nameServiceAddress,
+      storage,
+      now: () => now,
+    });
+    const input = await resumed.register("alice", registrationParams);
+    expect(input.clowNumber).toBe(record!.clowNumber);
+    expect(input.user).toBe(account.address);
+    expect(
+      await verifyRegistrationUsernameSignature(
+        { evvmID: 1n, username: "alice", clowNumber: input.clowNumber, nonce: 2n },
+        input.signature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+
+    await resumed.confirmRegistration("alice");
+    expect(await resumed.get("alice")).toBeUndefined();
+  });
+
+  test("rejects usernames NameService would revert on", async () => {
+    const registration = new UsernameRegistration({
+      builder,
+      evvmID: 1n,
+      nameServiceAddress,
+    });
+
+    await expect(
+      registration.preRegister("1alice", preRegistrationParams),
+    ).rejects.toMatchObject({
+      name: "NameServiceValidationError",
+      code: "USERNAME_INVALID_FIRST_CHARACTER",
+    });
+    await expect(
+      registration.preRegister("al-i", preRegistrationParams),
+    ).rejects.toMatchObject({ code: "USERNAME_INVALID_CHARACTER" });
+    expect(await registration.get("al-i")).toBeUndefined();
+  });
+
+  test("refuses to register without a confirmed pre-registration", async () => {
+    const registration = new UsernameRegistration({
+      builder,
+      evvmID: 1n,
+      nameServiceAddress,
+    });
+
+    await expect(
+      registration.register("robert", registrationParams),
+    ).rejects.toThrow('No registration of "robert"');
+
+    await registration.preRegister("robert", preRegistrationParams);
+    await expect(
+      registration.register("robert", registrationParams),
+    ).rejects.toThrow("needs a confirmed pre-registration");
+  });
+});
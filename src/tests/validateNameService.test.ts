@@ -0,0 +1,142 @@
+/**
+ * Test utilities for NameService validation
+ */
+
+import { createWalletClient, http, PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { NameServiceSignatureBuilder } from "../signatures/nameService";
+import {
+  NameServiceValidationError,
+  validateCustomMetadataValue,
+  validateIdentity,
+  validateUsernameFormat,
+  validateUsernameRegistration,
+} from "../utils/validateNameService";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const nameServiceAddress = "0x0000000000000000000000000000000000000a00" as `0x${string}`;
+const stranger = "0x742D35Cc6634C0532925a3b8D138068fd4C1B7a1" as `0x${string}`;
+
+// "alice" is registered to the test account, "carol" to a stranger
+function mockClient(reads: string[] = []): PublicClient {
+  const owners: Record<string, `0x${string}`> = { alice: account.address, carol: stranger };
+  return {
+    readContract: async ({ functionName, args }: { functionName: string; args: [string] }) => {
+      reads.push(functionName);
+      switch (functionName) {
+        case "isUsernameAvailable":
+          return !owners[args[0]];
+        case "verifyIfIdentityExists":
+          return !!owners[args[0]];
+        case "getOwnerOfIdentity":
+          return owners[args[0]];
+      }
+      throw new Error(`unexpected read ${functionName}`);
+    },
+  } as unknown as PublicClient;
+}
+
+const codes = (validation: { issues: { code: string }[] }) =>
+  validation.issues.map((issue) => issue.code);
+
+describe("validateUsernameFormat", () => {
+  test("follows the NameService username rules", () => {
+    expect(validateUsernameFormat("alice42").valid).toBe(true);
+    expect(codes(validateUsernameFormat("al"))).toEqual(["USERNAME_TOO_SHORT"]);
+    expect(codes(validateUsernameFormat("1alice"))).toEqual([
+      "USERNAME_INVALID_FIRST_CHARACTER",
+    ]);
+    expect(validateUsernameFormat("ali_ce").issues).toEqual([
+      {
+        code: "USERNAME_INVALID_CHARACTER",
+        field: "username",
+        params: { character: "_", position: 3 },
+        message: 'Username can only contain letters and digits, found "_" at position 3',
+      },
+    ]);
+    expect(codes(validateUsernameFormat(""))).toEqual(["USERNAME_TOO_SHORT"]);
+  });
+});
+
+describe("validateUsernameRegistration", () => {
+  test("reads availability only for well-formed usernames", async () => {
+    const reads: string[] = [];
+    const options = { publicClient: mockClient(reads), nameServiceAddress };
+
+    expect((await validateUsernameRegistration("bobby", options)).valid).toBe(true);
+    expect(codes(await validateUsernameRegistration("alice", options))).toEqual([
+      "USERNAME_NOT_AVAILABLE",
+    ]);
+    expect(codes(await validateUsernameRegistration("b_b", options))).toEqual([
+      "USERNAME_TOO_SHORT",
+      "USERNAME_INVALID_CHARACTER",
+    ]);
+    expect(reads).toEqual(["isUsernameAvailable", "isUsernameAvailable"]);
+    // without a client only the format is checked
+    expect((await validateUsernameRegistration("alice")).valid).toBe(true);
+  });
+});
+
+describe("validateIdentity", () => {
+  test("checks existence and, with an owner, ownership", async () => {
+    const options = { publicClient: mockClient(), nameServiceAddress };
+
+    expect((await validateIdentity("alice", undefined, options)).valid).toBe(true);
+    expect((await validateIdentity("alice", account.address, options)).valid).toBe(true);
+    expect(codes(await validateIdentity("nobody", undefined, options))).toEqual([
+      "IDENTITY_NOT_FOUND",
+    ]);
+    expect((await validateIdentity("carol", account.address, options)).issues[0]).toMatchObject({
+      code: "NOT_OWNER_OF_IDENTITY",
+      params: { identity: "carol", owner: account.address, currentOwner: stranger },
+    });
+    expect((await validateIdentity("nobody", account.address)).valid).toBe(true);
+  });
+});
+
+describe("validateCustomMetadataValue", () => {
+  test("refuses empty values", () => {
+    expect(validateCustomMetadataValue("email>alice@example.com").valid).toBe(true);
+    expect(codes(validateCustomMetadataValue(""))).toEqual(["EMPTY_CUSTOM_METADATA"]);
+  });
+});
+
+describe("NameServiceSignatureBuilder validation", () => {
+  test("refuses malformed inputs before signing", async () => {
+    const builder = new NameServiceSignatureBuilder(walletClient, account);
+
+    await expect(
+      builder.signPreRegistrationUsername(1n, nameServiceAddress, "1bad", 1n, 1n, 0n, 0n, true),
+    ).rejects.toMatchObject({ code: "USERNAME_INVALID_FIRST_CHARACTER" });
+    await expect(
+      builder.signAddCustomMetadata(1n, nameServiceAddress, 1n, "alice", "", 10n, 0n, 2n, true),
+    ).rejects.toThrow(NameServiceValidationError);
+  });
+
+  test("checks availability and ownership with on-chain validation", async () => {
+    const builder = new NameServiceSignatureBuilder(walletClient, account).useOnChainValidation(
+      mockClient(),
+    );
+
+    await expect(
+      builder.signRegistrationUsername(1n, nameServiceAddress, "carol", 1n, 1n, 5n, 0n, 2n, true),
+    ).rejects.toMatchObject({ code: "USERNAME_NOT_AVAILABLE" });
+    await expect(
+      builder.signRenewUsername(1n, nameServiceAddress, "carol", 1n, 10n, 0n, 2n, true),
+    ).rejects.toMatchObject({ code: "NOT_OWNER_OF_IDENTITY" });
+    await expect(
+      builder.signMakeOffer(1n, nameServiceAddress, "nobody", 1000n, 10n, 1n, 0n, 2n, true),
+    ).rejects.toMatchObject({ code: "IDENTITY_NOT_FOUND" });
+    await expect(
+      builder.signRenewUsername(1n, nameServiceAddress, "alice", 1n, 10n, 0n, 2n, true),
+    ).resolves.toMatchObject({ username: "alice" });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Test utilities for signature verification
+ */
+
+import { createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { EVVMSignatureBuilder } from "../signatures/evvm";
+import { StakingSignatureBuilder } from "../signatures/staking";
+import {
+  recoverSignerOfDispersePay,
+  recoverSignerOfPay,
+  verifyPaySignature,
+  verifyPublicStakingSignature,
+} from "../utils/verifySignature";
+import { DispersePayMetadata } from "../types";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+// local accounts sign offline, the transport is never reached
+const walletClient = createWalletClient({
+  account,
+  transport: http("http://127.0.0.1:8545"),
+});
+
+const executor = "0x742d35cc6634c0532925a3b8d138068fd4c1b7a1" as `0x${string}`;
+const token = "0x0000000000000000000000000000000000000001" as `0x${string}`;
+
+const payParams = {
+  evvmID: 1n,
+  to: "alice",
+  tokenAddress: token,
+  amount: 1000n,
+  priorityFee: 10n,
+  nonce: 3n,
+  priorityFlag: true,
+  executor,
+};
+
+describe("Signature Verification", () => {
+  test("verifies and recovers a pay signature", async () => {
+    const builder = new EVVMSignatureBuilder(walletClient, account);
+    const signature = await builder.signPay(
+      payParams.evvmID,
+      payParams.to,
+      payParams.tokenAddress,
+      payParams.amount,
+      payParams.priorityFee,
+      payParams.nonce,
+      payParams.priorityFlag,
+      payParams.executor,
+    );
+
+    expect(await recoverSignerOfPay(payParams, signature)).toBe(account.address);
+    expect(
+      await verifyPaySignature(payParams, signature, account.address),
+    ).toBe(true);
+    expect(
+      await verifyPaySignature(
+        { ...payParams, amount: 1001n },
+        signature,
+        account.address,
+      ),
+    ).toBe(false);
+    expect(await verifyPaySignature(payParams, signature, executor)).toBe(false);
+  });
+
+  test("recovers a disperse pay signer from the recipient list", async () => {
+    const builder = new EVVMSignatureBuilder(walletClient, account);
+    const toData: DispersePayMetadata[] = [
+      { amount: 600n, to_address: executor, to_identity: "" },
+      { amount: 400n, to_address: token, to_identity: "" },
+    ];
+    const signature = await builder.signDispersePay(
+      1n,
+      toData,
+      token,
+      1000n,
+      0n,
+      4n,
+      false,
+      executor,
+    );
+
+    expect(
+      await recoverSignerOfDispersePay(
+        {
+          evvmID: 1n,
+          toData,
+          tokenAddress: token,
+          amount: 1000n,
+          priorityFee: 0n,
+          nonce: 4n,
+          priorityFlag: false,
+          executor,
+        },
+        signature,
+      ),
+    ).toBe(account.address);
+  });
+
+  test("verifies the action signature of a dual signature flow", async () => {
+    const builder = new StakingSignatureBuilder(walletClient, account);
+    const { actionSignature } = await builder.signPublicStaking(
+      1n,
+      executor,
+      true,
+      2n,
+      5n,
+      10166000000000000000000n,
+      0n,
+      6n,
+      true,
+    );
+
+    expect(
+      await verifyPublicStakingSignature(
+        { evvmID: 1n, isStaking: true, amountOfStaking: 2n, nonce: 5n },
+        actionSignature as `0x${string}`,
+        account.address,
+      ),
+    ).toBe(true);
+  });
+
+  test("treats malformed signatures as invalid", async () => {
+    expect(
+      await verifyPaySignature(payParams, "0x1234", account.address),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * amounts
+ *
+ * Conversions between decimal amounts ("1.5") and the smallest-unit bigints
+ * signed in EVVM messages, using the decimals of the token.
+ */
+import { formatUnits, parseUnits } from "viem";
+import { Amount, EvvmTokenInfo, TokenAmount } from "../types";
+
+// Unsigned decimal number: digits with an optional fraction, no sign or exponent
+const DECIMAL_AMOUNT = /^\d+(\.\d+)?$/;
+
+/**
+ * Parses a decimal amount of a token.
+ * @param value Unsigned decimal string, e.g. "1.5"
+ * @param token Token the amount is expressed in
+ * @returns Amount in the smallest unit, bound to the token
+ * @throws Error if the value is not an unsigned decimal or has more decimals than the token
+ */
+function parseAmount(value: string, token: EvvmTokenInfo): TokenAmount {
+  const text = value.trim();
+  if (!DECIMAL_AMOUNT.test(text)) {
+    throw new Error(
+      `"${value}" is not an unsigned decimal amount of ${token.symbol}, e.g. "1.5"`,
+    );
+  }
+
+  const [, fraction = ""] = text.split(".");
+  if (fraction.length > token.decimals) {
+    throw new Error(
+      `${text} has more than ${token.decimals} decimals, the precision of ${token.symbol}`,
+    );
+  }
+
+  return { token: token.address, value: parseUnits(text, token.decimals) };
+}
+
+/**
+ * Formats an amount of a token with its symbol.
+ * @param amount Amount in the smallest unit
+ * @param token Token the amount is expressed in
+ * @returns Formatted amount, e.g. "1.5 MATE"
+ */
+function formatAmount(amount: Amount, token: EvvmTokenInfo): string {
+  const value = toRawAmount(amount, token.address);
+  return `${formatUnits(value, token.decimals)} ${token.symbol}`;
+}
+
+/**
+ * Resolves an amount to the bigint signed in a message.
+ * @param amount Raw bigint, or TokenAmount from parseAmount
+ * @param token Token the message moves
+ * @returns Amount in the smallest unit
+ * @throws Error if the TokenAmount is bound to another token or the amount is negative
+ */
+function toRawAmount(amount: Amount, token: `0x${string}`): bigint {
+  if (typeof amount !== "bigint" && amount.token.toLowerCase() !== token.toLowerCase()) {
+    throw new Error(`Amount is expressed in ${amount.token}, expected ${token}`);
+  }
+
+  const value = typeof amount === "bigint" ? amount : amount.value;
+  if (value < 0n) {
+    throw new Error(`Amount ${value} is negative, EVVM amounts are unsigned`);
+  }
+  return value;
+}
+
+export { parseAmount, formatAmount, toRawAmount };
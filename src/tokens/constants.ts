@@ -0,0 +1,25 @@
+import { EvvmTokenInfo } from "../types";
+
+// Principal token of every EVVM (MATE), fixed by the Evvm contract
+export const PRINCIPAL_TOKEN_ADDRESS =
+  "0x0000000000000000000000000000000000000001" as const;
+
+// Native ETH balance inside EVVM
+export const ETH_TOKEN_ADDRESS =
+  "0x0000000000000000000000000000000000000000" as const;
+
+export const ZERO_ADDRESS = ETH_TOKEN_ADDRESS;
+
+export const PRINCIPAL_TOKEN: EvvmTokenInfo = {
+  address: PRINCIPAL_TOKEN_ADDRESS,
+  symbol: "MATE",
+  decimals: 18,
+  name: "Mate token",
+};
+
+export const ETH_TOKEN: EvvmTokenInfo = {
+  address: ETH_TOKEN_ADDRESS,
+  symbol: "ETH",
+  decimals: 18,
+  name: "Ether",
+};
@@ -0,0 +1,3 @@
+export * from './constants';
+export * from './amounts';
+export * from './tokenRegistry';
@@ -0,0 +1,211 @@
+import { PublicClient } from "viem";
+import { EvvmABI } from "../abi";
+import { Amount, EvvmMetadata, EvvmTokenInfo, TokenAmount } from "../types";
+import { formatAmount, parseAmount } from "./amounts";
+import { ETH_TOKEN, PRINCIPAL_TOKEN, ZERO_ADDRESS } from "./constants";
+
+export type TokenRegistryConfig = {
+  // Needed by load() and getPendingWhitelistToken()
+  publicClient?: PublicClient;
+  evvmAddress?: `0x${string}`;
+  // Extra tokens, registered over the principal token and ETH
+  tokens?: readonly EvvmTokenInfo[];
+};
+
+// Token proposed through the Evvm whitelist, not yet usable
+export type PendingWhitelistToken = {
+  address: `0x${string}`;
+  // unix time (seconds) from which the proposal can be accepted
+  dateToSet: bigint;
+};
+
+/**
+ * Token Registry
+ *
+ * Symbols and decimals of the tokens an app deals with, used to turn decimal
+ * input into the amounts accepted by the sign methods and back.
+ * Starts with the principal token and ETH; `load()` renames the principal
+ * token after `getEvvmMetadata` and picks up the pending whitelist proposal.
+ * Principal token decimals are not part of the metadata and stay at 18.
+ */
+export class TokenRegistry {
+  private readonly tokens = new Map<string, EvvmTokenInfo>();
+  private metadata?: EvvmMetadata;
+  private pendingWhitelist?: PendingWhitelistToken;
+
+  constructor(private readonly config: TokenRegistryConfig = {}) {
+    this.register(PRINCIPAL_TOKEN);
+    this.register(ETH_TOKEN);
+    config.tokens?.forEach((token) => this.register(token));
+  }
+
+  /**
+   * Creates a registry seeded from an Evvm deployment.
+   * @param publicClient Public client used for the reads
+   * @param evvmAddress Evvm contract address
+   * @param tokens Extra tokens to register
+   * @returns Promise resolving to the loaded registry
+   */
+  static async fromEvvm(
+    publicClient: PublicClient,
+    evvmAddress: `0x${string}`,
+    tokens?: readonly EvvmTokenInfo[],
+  ): Promise<TokenRegistry> {
+    const registry = new TokenRegistry({ publicClient, evvmAddress, tokens });
+    await registry.load();
+    return registry;
+  }
+
+  /**
+   * Reads `getEvvmMetadata` and the pending whitelist proposal.
+   * @returns Promise resolving to the EVVM metadata
+   * @throws Error if no public client or Evvm address is configured
+   */
+  async load(): Promise<EvvmMetadata> {
+    const { publicClient, evvmAddress } = this.requireClient();
+
+    const metadata = await publicClient.readContract({
+      address: evvmAddress,
+      abi: EvvmABI,
+      functionName: "getEvvmMetadata",
+    });
+
+    this.metadata = metadata;
+    this.register({
+      address: metadata.principalTokenAddress,
+      symbol: metadata.principalTokenSymbol,
+      name: metadata.principalTokenName,
+      decimals: PRINCIPAL_TOKEN.decimals,
+    });
+
+    await this.getPendingWhitelistToken();
+    return metadata;
+  }
+
+  /**
+   * Reads the token currently proposed through `getWhitelistTokenToBeAdded`.
+   * @returns Promise resolving to the proposal, or undefined if there is none
+   * @throws Error if no public client or Evvm address is configured
+   */
+  async getPendingWhitelistToken(): Promise<PendingWhitelistToken | undefined> {
+    const { publicClient, evvmAddress } = this.requireClient();
+
+    const [address, dateToSet] = await Promise.all([
+      publicClient.readContract({
+        address: evvmAddress,
+        abi: EvvmABI,
+        functionName: "getWhitelistTokenToBeAdded",
+      }),
+      publicClient.readContract({
+        address: evvmAddress,
+        abi: EvvmABI,
+        functionName: "getWhitelistTokenToBeAddedDateToSet",
+      }),
+    ]);
+
+    this.pendingWhitelist =
+      address.toLowerCase() === ZERO_ADDRESS ? undefined : { address, dateToSet };
+    return this.pendingWhitelist;
+  }
+
+  /**
+   * Whether a token is the pending whitelist proposal seen by the last read.
+   * @param address Token address
+   */
+  isPendingWhitelist(address: `0x${string}`): boolean {
+    return this.pendingWhitelist?.address.toLowerCase() === address.toLowerCase();
+  }
+
+  /**
+   * EVVM metadata read by load(), undefined before.
+   */
+  get evvmMetadata(): EvvmMetadata | undefined {
+    return this.metadata;
+  }
+
+  /**
+   * Adds or replaces a token.
+   * @param token Token metadata
+   */
+  register(token: EvvmTokenInfo): void {
+    this.tokens.set(token.address.toLowerCase(), token);
+  }
+
+  /**
+   * Finds a token by address.
+   * Bound to the instance, so it can be passed as the `tokens` option of describeEvvmMessage.
+   * @param address Token address
+   * @returns Token metadata, or undefined if unknown
+   */
+  get = (address: `0x${string}`): EvvmTokenInfo | undefined => {
+    return this.tokens.get(address.toLowerCase());
+  };
+
+  /**
+   * Finds a token by address or fails.
+   * @param address Token address
+   * @returns Token metadata
+   * @throws Error if the token is not registered
+   */
+  require(address: `0x${string}`): EvvmTokenInfo {
+    const token = this.get(address);
+    if (!token) {
+      throw new Error(`Token ${address} is not registered`);
+    }
+    return token;
+  }
+
+  /**
+   * Finds a token by symbol (case-insensitive).
+   * @param symbol Token symbol
+   * @returns Token metadata, or undefined if unknown
+   */
+  findBySymbol(symbol: string): EvvmTokenInfo | undefined {
+    const wanted = symbol.toLowerCase();
+    return this.list().find((token) => token.symbol.toLowerCase() === wanted);
+  }
+
+  /**
+   * @returns Every registered token
+   */
+  list(): EvvmTokenInfo[] {
+    return [...this.tokens.values()];
+  }
+
+  /**
+   * Parses a decimal amount of a registered token.
+   * @param value Unsigned decimal string, e.g. "1.5"
+   * @param token Token address
+   * @returns Amount accepted by the sign methods
+   * @throws Error if the token is unknown, the value is not an unsigned decimal or is too precise
+   */
+  parseAmount(value: string, token: `0x${string}`): TokenAmount {
+    return parseAmount(value, this.require(token));
+  }
+
+  /**
+   * Formats an amount of a registered token with its symbol.
+   * @param amount Raw bigint or TokenAmount
+   * @param token Token address, defaults to the token of a TokenAmount
+   * @returns Formatted amount, e.g. "1.5 MATE"
+   * @throws Error if the token is unknown
+   */
+  formatAmount(amount: Amount, token?: `0x${string}`): string {
+    const address = token ?? (typeof amount === "bigint" ? undefined : amount.token);
+    if (!address) {
+      throw new Error("The token of a raw amount is required to format it");
+    }
+    return formatAmount(amount, this.require(address));
+  }
+
+  private requireClient(): {
+    publicClient: PublicClient;
+    evvmAddress: `0x${string}`;
+  } {
+    const { publicClient, evvmAddress } = this.config;
+    if (!publicClient || !evvmAddress) {
+      throw new Error("TokenRegistry needs a public client and the Evvm address");
+    }
+    return { publicClient, evvmAddress };
+  }
+}
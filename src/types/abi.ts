@@ -1,4 +1,11 @@
 // Type definitions for EVVM ABIs
+import type {
+  EstimatorABI,
+  EvvmABI,
+  NameServiceABI,
+  P2PSwapABI,
+  StakingABI,
+} from '../abi';
 
 export interface ABIFunction {
   type: 'function' | 'constructor' | 'event' | 'error';
@@ -19,8 +26,9 @@ export interface ContractABI {
   abi: ABIFunction[];
 }
 
-// Specific ABI types for each contract
-export type EstimatorABIType = ContractABI;
-export type EvvmABIType = ContractABI;
-export type NameServiceABIType = ContractABI;
-export type StakingABIType = ContractABI;
\ No newline at end of file
+// Specific ABI types for each contract, inferred from the `as const` ABIs
+export type EstimatorABIType = typeof EstimatorABI;
+export type EvvmABIType = typeof EvvmABI;
+export type NameServiceABIType = typeof NameServiceABI;
+export type P2PSwapABIType = typeof P2PSwapABI;
+export type StakingABIType = typeof StakingABI;
@@ -0,0 +1,69 @@
+/**
+ * Intent Envelope Structures
+ *
+ * Type definitions for signed input data wrapped with its action and evvmID,
+ * the unit exchanged between wallets, relayers and fishers.
+ */
+import { DispersePayInputData, PayInputData } from "./evvm";
+import {
+  AcceptOfferInputData,
+  AddCustomMetadataInputData,
+  FlushCustomMetadataInputData,
+  FlushUsernameInputData,
+  MakeOfferInputData,
+  PreRegistrationUsernameInputData,
+  RegistrationUsernameInputData,
+  RemoveCustomMetadataInputData,
+  RenewUsernameInputData,
+  WithdrawOfferInputData,
+} from "./nameService";
+import {
+  CancelOrderInputData,
+  DispatchOrderFillFixedFeeInputData,
+  DispatchOrderFillPropotionalFeeInputData,
+  MakeOrderInputData,
+} from "./p2pSwap";
+import {
+  GoldenStakingInputData,
+  PresaleStakingInputData,
+  PublicServiceStakingInputData,
+  PublicStakingInputData,
+} from "./staking";
+
+/**
+ * Signed input data of every executable action, by action name.
+ */
+export type EvvmIntentPayloads = {
+  pay: PayInputData;
+  dispersePay: DispersePayInputData;
+  goldenStaking: GoldenStakingInputData;
+  presaleStaking: PresaleStakingInputData;
+  publicStaking: PublicStakingInputData;
+  publicServiceStaking: PublicServiceStakingInputData;
+  preRegistrationUsername: PreRegistrationUsernameInputData;
+  registrationUsername: RegistrationUsernameInputData;
+  makeOffer: MakeOfferInputData;
+  withdrawOffer: WithdrawOfferInputData;
+  acceptOffer: AcceptOfferInputData;
+  renewUsername: RenewUsernameInputData;
+  addCustomMetadata: AddCustomMetadataInputData;
+  removeCustomMetadata: RemoveCustomMetadataInputData;
+  flushCustomMetadata: FlushCustomMetadataInputData;
+  flushUsername: FlushUsernameInputData;
+  makeOrder: MakeOrderInputData;
+  cancelOrder: CancelOrderInputData;
+  dispatchOrderFillPropotionalFee: DispatchOrderFillPropotionalFeeInputData;
+  dispatchOrderFillFixedFee: DispatchOrderFillFixedFeeInputData;
+};
+
+export type EvvmIntentAction = keyof EvvmIntentPayloads;
+
+export type EvvmIntentEnvelope<A extends EvvmIntentAction = EvvmIntentAction> = {
+  [K in A]: {
+    version: 1;
+    action: K;
+    evvmID: bigint;
+    // signatures travel inside the payload, in its signature fields
+    payload: EvvmIntentPayloads[K];
+  };
+}[A];
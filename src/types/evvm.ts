@@ -33,4 +33,18 @@ export type DispersePayInputData = {
   nonce: bigint;
   executor: string;
   signature: string;
-};
\ No newline at end of file
+};
+
+/**
+ * EVVM metadata struct as returned by `getEvvmMetadata`.
+ */
+export type EvvmMetadata = {
+  EvvmName: string;
+  EvvmID: bigint;
+  principalTokenName: string;
+  principalTokenSymbol: string;
+  principalTokenAddress: `0x${string}`;
+  totalSupply: bigint;
+  eraTokens: bigint;
+  reward: bigint;
+};
@@ -0,0 +1,32 @@
+/**
+ * Transaction Executor Structures
+ *
+ * Type definitions for the results returned by the transaction executors.
+ */
+import type { TransactionReceipt } from "viem";
+
+export type TransactionResult<T = void> = {
+  hash: `0x${string}`;
+  receipt: TransactionReceipt;
+  result: T;
+};
+
+export type MakeOrderResult = {
+  market: bigint;
+  orderId: bigint;
+};
+
+export type PayMultipleResult = {
+  successfulTransactions: bigint;
+  failedTransactions: bigint;
+  results: readonly boolean[];
+};
+
+export type ServiceStakingQuote = {
+  serviceAddress: `0x${string}`;
+  amountOfStaking: bigint;
+  priceOfStaking: bigint;
+  totalPrice: bigint;
+  principalToken: `0x${string}`;
+  serviceBalance: bigint;
+};
@@ -0,0 +1,19 @@
+/**
+ * Fisher Bridge Structures
+ *
+ * Type definitions for signed fisher bridge deposits, built from the
+ * message of constructMessageForDepositFisher.
+ */
+export type FisherBridgeInputData = {
+  user: `0x${string}`;
+  addressToReceive: `0x${string}`;
+  nonce: bigint;
+  // ETH_TOKEN_ADDRESS for native currency
+  tokenAddress: `0x${string}`;
+  isERC20: boolean;
+  priorityFee: bigint;
+  amount: bigint;
+  // signed message, kept for relayers that verify before submitting
+  message: string;
+  signature: `0x${string}`;
+};
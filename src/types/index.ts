@@ -3,4 +3,9 @@ export * from './evvm';
 export * from './nameService';
 export * from './p2pSwap';
 export * from './staking';
+export * from './message';
+export * from './executor';
 export * from './abi';
+export * from './token';
+export * from './fisherBridge';
+export * from './envelope';
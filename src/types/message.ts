@@ -0,0 +1,192 @@
+/**
+ * Parsed EVVM Message Structures
+ *
+ * Type definitions for messages decoded back from the
+ * "<evvmID>,<functionName>,<inputs>" format built in constructMessage.
+ * Field names follow the parameters of each buildMessageSignedFor* function.
+ */
+type BaseParsedMessage = {
+  evvmID: bigint;
+};
+
+/*
+┏━━━━━━━━━━━━━━━━┓
+ EVVM Messages
+┗━━━━━━━━━━━━━━━━┛
+*/
+
+export type PayMessage = BaseParsedMessage & {
+  functionName: "pay";
+  to: string;
+  tokenAddress: `0x${string}`;
+  amount: bigint;
+  priorityFee: bigint;
+  nonce: bigint;
+  priorityFlag: boolean;
+  executor: `0x${string}`;
+};
+
+export type DispersePayMessage = BaseParsedMessage & {
+  functionName: "dispersePay";
+  hashList: `0x${string}`;
+  tokenAddress: `0x${string}`;
+  amount: bigint;
+  priorityFee: bigint;
+  nonce: bigint;
+  priorityFlag: boolean;
+  executor: `0x${string}`;
+};
+
+/*
+┏━━━━━━━━━━━━━━━━━━━┓
+ Staking Messages
+┗━━━━━━━━━━━━━━━━━━━┛
+*/
+
+export type PublicStakingMessage = BaseParsedMessage & {
+  functionName: "publicStaking";
+  isStaking: boolean;
+  amountOfStaking: bigint;
+  nonce: bigint;
+};
+
+export type PresaleStakingMessage = BaseParsedMessage & {
+  functionName: "presaleStaking";
+  isStaking: boolean;
+  amountOfStaking: bigint;
+  nonce: bigint;
+};
+
+export type PublicServiceStakingMessage = BaseParsedMessage & {
+  functionName: "publicServiceStaking";
+  serviceAddress: `0x${string}`;
+  isStaking: boolean;
+  amountOfStaking: bigint;
+  nonce: bigint;
+};
+
+/*
+┏━━━━━━━━━━━━━━━━━━━━━━━━┓
+ Name service Messages
+┗━━━━━━━━━━━━━━━━━━━━━━━━┛
+*/
+
+export type PreRegistrationUsernameMessage = BaseParsedMessage & {
+  functionName: "preRegistrationUsername";
+  hashUsername: `0x${string}`;
+  nonce: bigint;
+};
+
+export type RegistrationUsernameMessage = BaseParsedMessage & {
+  functionName: "registrationUsername";
+  username: string;
+  clowNumber: bigint;
+  nonce: bigint;
+};
+
+export type MakeOfferMessage = BaseParsedMessage & {
+  functionName: "makeOffer";
+  username: string;
+  dateExpire: bigint;
+  amount: bigint;
+  nonce: bigint;
+};
+
+export type WithdrawOfferMessage = BaseParsedMessage & {
+  functionName: "withdrawOffer";
+  username: string;
+  offerId: bigint;
+  nonce: bigint;
+};
+
+export type AcceptOfferMessage = BaseParsedMessage & {
+  functionName: "acceptOffer";
+  username: string;
+  offerId: bigint;
+  nonce: bigint;
+};
+
+export type RenewUsernameMessage = BaseParsedMessage & {
+  functionName: "renewUsername";
+  username: string;
+  nonce: bigint;
+};
+
+export type AddCustomMetadataMessage = BaseParsedMessage & {
+  functionName: "addCustomMetadata";
+  identity: string;
+  value: string;
+  nonce: bigint;
+};
+
+export type RemoveCustomMetadataMessage = BaseParsedMessage & {
+  functionName: "removeCustomMetadata";
+  identity: string;
+  key: bigint;
+  nonce: bigint;
+};
+
+export type FlushCustomMetadataMessage = BaseParsedMessage & {
+  functionName: "flushCustomMetadata";
+  identity: string;
+  nonce: bigint;
+};
+
+export type FlushUsernameMessage = BaseParsedMessage & {
+  functionName: "flushUsername";
+  username: string;
+  nonce: bigint;
+};
+
+/*
+┏━━━━━━━━━━━━━━━━━━━━━━━━┓
+ P2P Swap Messages
+┗━━━━━━━━━━━━━━━━━━━━━━━━┛
+*/
+
+export type MakeOrderMessage = BaseParsedMessage & {
+  functionName: "makeOrder";
+  nonce: bigint;
+  tokenA: `0x${string}`;
+  tokenB: `0x${string}`;
+  amountA: bigint;
+  amountB: bigint;
+};
+
+export type CancelOrderMessage = BaseParsedMessage & {
+  functionName: "cancelOrder";
+  nonce: bigint;
+  tokenA: `0x${string}`;
+  tokenB: `0x${string}`;
+  orderId: bigint;
+};
+
+export type DispatchOrderMessage = BaseParsedMessage & {
+  functionName: "dispatchOrder";
+  nonce: bigint;
+  tokenA: `0x${string}`;
+  tokenB: `0x${string}`;
+  orderId: bigint;
+};
+
+export type ParsedEvvmMessage =
+  | PayMessage
+  | DispersePayMessage
+  | PublicStakingMessage
+  | PresaleStakingMessage
+  | PublicServiceStakingMessage
+  | PreRegistrationUsernameMessage
+  | RegistrationUsernameMessage
+  | MakeOfferMessage
+  | WithdrawOfferMessage
+  | AcceptOfferMessage
+  | RenewUsernameMessage
+  | AddCustomMetadataMessage
+  | RemoveCustomMetadataMessage
+  | FlushCustomMetadataMessage
+  | FlushUsernameMessage
+  | MakeOrderMessage
+  | CancelOrderMessage
+  | DispatchOrderMessage;
+
+export type EvvmMessageFunctionName = ParsedEvvmMessage["functionName"];
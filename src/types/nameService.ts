@@ -56,7 +56,7 @@ export type AcceptOfferInputData = {
   user: `0x${string}`;
   username: string;
   offerID: bigint;
-  nonce: string;
+  nonce: bigint;
   signature: string;
   priorityFee_EVVM: bigint;
   nonce_EVVM: bigint;
@@ -0,0 +1,29 @@
+/**
+ * Token Structures
+ *
+ * Type definitions for token metadata and amounts expressed in token units.
+ * Used by the token registry, message previews and signature builders.
+ */
+export type EvvmTokenInfo = {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  name?: string;
+};
+
+// Token metadata source: a list, or a lookup returning undefined for unknown tokens
+export type EvvmTokenList =
+  | readonly EvvmTokenInfo[]
+  | ((address: `0x${string}`) => EvvmTokenInfo | undefined);
+
+/**
+ * Amount bound to its token, in the smallest unit.
+ * Built with `parseAmount` so the decimals of the token are applied once.
+ */
+export type TokenAmount = {
+  token: `0x${string}`;
+  value: bigint;
+};
+
+// Amount accepted by the sign methods: raw smallest units, or a TokenAmount
+export type Amount = bigint | TokenAmount;
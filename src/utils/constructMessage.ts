@@ -172,8 +172,8 @@ function buildMessageSignedForPresaleStaking(
 ): string {
   const inputs: string =
     `${isStaking ? "true" : "false"},` +
-    `${amountOfSMate.toLocaleString()},` +
-    `${nonce.toLocaleString()}`;
+    `${amountOfSMate.toString()},` +
+    `${nonce.toString()}`;
 
   return basicMessageBuilder(evvmID.toString(), "presaleStaking", inputs);
 }
@@ -342,15 +342,15 @@ function buildMessageSignedForMakeOrder(
   nonce: bigint,
   tokenA: string,
   tokenB: string,
-  amountA: string,
-  amountB: string
+  amountA: bigint,
+  amountB: bigint
 ): string {
   const inputs: string =
     `${nonce.toString()},` +
     `${tokenA},` +
     `${tokenB},` +
-    `${amountA},` +
-    `${amountB}`;
+    `${amountA.toString()},` +
+    `${amountB.toString()}`;
 
   return basicMessageBuilder(evvmID.toString(), "makeOrder", inputs);
 }
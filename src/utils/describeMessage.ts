@@ -0,0 +1,286 @@
+/**
+ * describeMessage
+ *
+ * Human-readable preview of a signed EVVM message, for confirmation dialogs
+ * shown next to the wallet prompt. Accepts the raw message string or its
+ * parsed form; token symbols and decimals come from a pluggable token list.
+ */
+import { formatUnits } from "viem";
+import { EvvmTokenInfo, EvvmTokenList, ParsedEvvmMessage } from "../types";
+import { ETH_TOKEN, PRINCIPAL_TOKEN, ZERO_ADDRESS } from "../tokens/constants";
+import { parseEvvmMessage } from "./parseMessage";
+
+export type EvvmMessagePreviewField = {
+  label: string;
+  value: string;
+};
+
+export type EvvmMessagePreview = {
+  evvmID: bigint;
+  functionName: ParsedEvvmMessage["functionName"];
+  // short title of the action, e.g. "Payment"
+  action: string;
+  // address or username receiving the payment
+  recipient?: string;
+  token?: EvvmTokenInfo;
+  // decimal-formatted amount with symbol
+  amount?: string;
+  priorityFee?: string;
+  mode?: "sync" | "async";
+  executor?: string;
+  // every field in display order
+  fields: EvvmMessagePreviewField[];
+  // fields joined as "Label: value" lines under the action
+  text: string;
+};
+
+export type DescribeEvvmMessageOptions = {
+  // Merged over the default list (principal token and ETH)
+  tokens?: EvvmTokenList;
+};
+
+const DEFAULT_TOKENS: readonly EvvmTokenInfo[] = [PRINCIPAL_TOKEN, ETH_TOKEN];
+
+const ACTIONS: Record<ParsedEvvmMessage["functionName"], string> = {
+  pay: "Payment",
+  dispersePay: "Disperse payment",
+  publicStaking: "Public staking",
+  presaleStaking: "Presale staking",
+  publicServiceStaking: "Service staking",
+  preRegistrationUsername: "Username pre-registration",
+  registrationUsername: "Username registration",
+  makeOffer: "Username offer",
+  withdrawOffer: "Withdraw username offer",
+  acceptOffer: "Accept username offer",
+  renewUsername: "Username renewal",
+  addCustomMetadata: "Add custom metadata",
+  removeCustomMetadata: "Remove custom metadata",
+  flushCustomMetadata: "Flush custom metadata",
+  flushUsername: "Flush username",
+  makeOrder: "P2P swap order",
+  cancelOrder: "Cancel P2P swap order",
+  dispatchOrder: "Fill P2P swap order",
+};
+
+function findToken(
+  tokens: EvvmTokenList | undefined,
+  address: `0x${string}`,
+): EvvmTokenInfo | undefined {
+  const normalized = address.toLowerCase();
+  const custom =
+    typeof tokens === "function"
+      ? tokens(address)
+      : tokens?.find((token) => token.address.toLowerCase() === normalized);
+
+  return (
+    custom ??
+    DEFAULT_TOKENS.find((token) => token.address.toLowerCase() === normalized)
+  );
+}
+
+/**
+ * Formats a token amount with its symbol, or as raw units of an unknown token.
+ * @param amount Amount in the smallest unit
+ * @param address Token address
+ * @param tokens Token list
+ * @returns Formatted amount, e.g. "1.5 MATE"
+ */
+function formatTokenAmount(
+  amount: bigint,
+  address: `0x${string}`,
+  tokens?: EvvmTokenList,
+): string {
+  const token = findToken(tokens, address);
+  if (!token) return `${amount} units of ${address}`;
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
+
+function describeExecutor(executor: `0x${string}`): string {
+  return executor.toLowerCase() === ZERO_ADDRESS ? "anyone" : executor;
+}
+
+// Latest second a Date can hold (8.64e15 ms)
+const MAX_DATE_SECONDS = 8_640_000_000_000n;
+
+/**
+ * Formats a unix timestamp in seconds as an ISO date, or as the raw number
+ * when it is beyond the range of a Date.
+ */
+function describeTimestamp(seconds: bigint): string {
+  if (seconds > MAX_DATE_SECONDS) return seconds.toString();
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+function describeStaking(isStaking: boolean, amountOfStaking: bigint): string {
+  return `${isStaking ? "Stake" : "Unstake"} ${amountOfStaking}`;
+}
+
+/**
+ * Describes an EVVM message for display before signing.
+ * @param message Message string from a buildMessageSignedFor* function, or its parsed form
+ * @param options Token list used for symbols and decimals
+ * @returns Structured preview with a text summary
+ * @throws EvvmMessageParseError if a message string cannot be parsed
+ */
+function describeEvvmMessage(
+  message: string | ParsedEvvmMessage,
+  options: DescribeEvvmMessageOptions = {},
+): EvvmMessagePreview {
+  const parsed = typeof message === "string" ? parseEvvmMessage(message) : message;
+  const { tokens } = options;
+
+  const preview: Omit<EvvmMessagePreview, "fields" | "text"> = {
+    evvmID: parsed.evvmID,
+    functionName: parsed.functionName,
+    action: ACTIONS[parsed.functionName],
+  };
+  const fields: EvvmMessagePreviewField[] = [];
+
+  switch (parsed.functionName) {
+    case "pay":
+    case "dispersePay": {
+      preview.recipient =
+        parsed.functionName === "pay" ? parsed.to : `recipient list ${parsed.hashList}`;
+      preview.token = findToken(tokens, parsed.tokenAddress);
+      preview.amount = formatTokenAmount(parsed.amount, parsed.tokenAddress, tokens);
+      preview.priorityFee = formatTokenAmount(
+        parsed.priorityFee,
+        parsed.tokenAddress,
+        tokens,
+      );
+      preview.mode = parsed.priorityFlag ? "async" : "sync";
+      preview.executor = describeExecutor(parsed.executor);
+
+      fields.push(
+        { label: "To", value: preview.recipient },
+        { label: "Amount", value: preview.amount },
+        { label: "Priority fee", value: preview.priorityFee },
+        { label: "Nonce", value: `${parsed.nonce} (${preview.mode})` },
+        { label: "Executor", value: preview.executor },
+      );
+      break;
+    }
+    case "publicStaking":
+    case "presaleStaking":
+      fields.push(
+        {
+          label: "Operation",
+          value: describeStaking(parsed.isStaking, parsed.amountOfStaking),
+        },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "publicServiceStaking":
+      fields.push(
+        { label: "Service", value: parsed.serviceAddress },
+        {
+          label: "Operation",
+          value: describeStaking(parsed.isStaking, parsed.amountOfStaking),
+        },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "preRegistrationUsername":
+      fields.push(
+        { label: "Username hash", value: parsed.hashUsername },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "registrationUsername":
+      fields.push(
+        { label: "Username", value: parsed.username },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "makeOffer":
+      preview.amount = formatTokenAmount(
+        parsed.amount,
+        PRINCIPAL_TOKEN.address,
+        tokens,
+      );
+      fields.push(
+        { label: "Username", value: parsed.username },
+        { label: "Amount", value: preview.amount },
+        {
+          label: "Expires",
+          value: describeTimestamp(parsed.dateExpire),
+        },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "withdrawOffer":
+    case "acceptOffer":
+      fields.push(
+        { label: "Username", value: parsed.username },
+        { label: "Offer", value: `#${parsed.offerId}` },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "renewUsername":
+    case "flushUsername":
+      fields.push(
+        { label: "Username", value: parsed.username },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "addCustomMetadata":
+      fields.push(
+        { label: "Identity", value: parsed.identity },
+        { label: "Value", value: parsed.value },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "removeCustomMetadata":
+      fields.push(
+        { label: "Identity", value: parsed.identity },
+        { label: "Key", value: parsed.key.toString() },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "flushCustomMetadata":
+      fields.push(
+        { label: "Identity", value: parsed.identity },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "makeOrder":
+      preview.token = findToken(tokens, parsed.tokenA);
+      preview.amount = formatTokenAmount(parsed.amountA, parsed.tokenA, tokens);
+      fields.push(
+        { label: "Sell", value: preview.amount },
+        {
+          label: "Buy",
+          value: formatTokenAmount(parsed.amountB, parsed.tokenB, tokens),
+        },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    case "cancelOrder":
+    case "dispatchOrder": {
+      const symbolOf = (address: `0x${string}`) =>
+        findToken(tokens, address)?.symbol ?? address;
+      fields.push(
+        { label: "Order", value: `#${parsed.orderId}` },
+        {
+          label: "Market",
+          value: `${symbolOf(parsed.tokenA)} / ${symbolOf(parsed.tokenB)}`,
+        },
+        { label: "Nonce", value: parsed.nonce.toString() },
+      );
+      break;
+    }
+  }
+
+  fields.push({ label: "EVVM ID", value: parsed.evvmID.toString() });
+
+  return {
+    ...preview,
+    fields,
+    text: [
+      preview.action,
+      ...fields.map((field) => `${field.label}: ${field.value}`),
+    ].join("\n"),
+  };
+}
+
+export { describeEvvmMessage, formatTokenAmount };
@@ -1,2 +1,9 @@
 export * from './hashTools';
-export * from './constructMessage';
\ No newline at end of file
+export * from './constructMessage';
+export * from './parseMessage';
+export * from './verifySignature';
+export * from './p2pSwapFees';
+export * from './validateNameService';
+export * from './nameServicePrices';
+export * from './describeMessage';
+export * from './intentEnvelope';
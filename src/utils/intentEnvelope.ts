@@ -0,0 +1,615 @@
+/**
+ * intentEnvelope
+ *
+ * Portable format for signed intents. An envelope carries the action, the
+ * evvmID and the signed input data (signatures included) with every bigint as a
+ * decimal string, in a JSON form and a compact base64url form where fields are
+ * listed in layout order. Decoding is strict: unknown versions and actions,
+ * missing or extra fields and mistyped values are rejected.
+ */
+import { isAddress } from "viem";
+import { EvvmIntentAction, EvvmIntentEnvelope } from "../types";
+
+/**
+ * Version written in every envelope.
+ */
+export const EVVM_INTENT_ENVELOPE_VERSION = 1;
+
+/**
+ * Kinds of values found in a payload.
+ * - uint: bigint, encoded as a decimal string
+ * - bool: boolean
+ * - address: 20 byte hex address
+ * - hex: even-length hex value, "0x" allowed (signatures, hashes)
+ * - string: any string, empty allowed (usernames, identities)
+ * - list / object: nested layouts (disperse recipients, P2PSwap metadata)
+ */
+type FieldKind =
+  | "uint"
+  | "bool"
+  | "address"
+  | "hex"
+  | "string"
+  | { list: FieldLayout }
+  | { object: FieldLayout };
+
+type FieldLayout = readonly (readonly [name: string, kind: FieldKind])[];
+
+export type EvvmIntentEnvelopeErrorCode =
+  | "MALFORMED_ENVELOPE"
+  | "UNSUPPORTED_VERSION"
+  | "UNKNOWN_ACTION"
+  | "INVALID_EVVM_ID"
+  | "MISSING_FIELD"
+  | "UNEXPECTED_FIELD"
+  | "INVALID_FIELD";
+
+/**
+ * Error thrown when an envelope cannot be encoded or decoded.
+ * `code` identifies the failure, `field` is the path of the culprit when known,
+ * e.g. "payload.toData[1].amount".
+ */
+export class EvvmIntentEnvelopeError extends Error {
+  constructor(
+    public readonly code: EvvmIntentEnvelopeErrorCode,
+    message: string,
+    public readonly field?: string,
+  ) {
+    super(message);
+    this.name = "EvvmIntentEnvelopeError";
+  }
+}
+
+// Payment fields shared by the NameService and Staking actions
+const EVVM_PAYMENT: FieldLayout = [
+  ["priorityFee_EVVM", "uint"],
+  ["nonce_EVVM", "uint"],
+  ["priorityFlag_EVVM", "bool"],
+  ["signature_EVVM", "hex"],
+];
+
+// Payment fields of the P2PSwap actions
+const P2P_SWAP_PAYMENT: FieldLayout = [
+  ["priorityFee", "uint"],
+  ["nonce_EVVM", "uint"],
+  ["priorityFlag_EVVM", "bool"],
+  ["signature_EVVM", "hex"],
+];
+
+const DISPATCH_ORDER_METADATA: FieldLayout = [
+  ["nonce", "uint"],
+  ["tokenA", "address"],
+  ["tokenB", "address"],
+  ["orderId", "uint"],
+  ["amountOfTokenBToFill", "uint"],
+  ["signature", "hex"],
+];
+
+// Payload layouts, in the order used by the compact form
+const PAYLOAD_LAYOUTS: Record<EvvmIntentAction, FieldLayout> = {
+  pay: [
+    ["from", "address"],
+    ["to_address", "address"],
+    ["to_identity", "string"],
+    ["token", "address"],
+    ["amount", "uint"],
+    ["priorityFee", "uint"],
+    ["nonce", "uint"],
+    ["priority", "bool"],
+    ["executor", "address"],
+    ["signature", "hex"],
+  ],
+  dispersePay: [
+    ["from", "address"],
+    [
+      "toData",
+      {
+        list: [
+          ["amount", "uint"],
+          ["to_address", "address"],
+          ["to_identity", "string"],
+        ],
+      },
+    ],
+    ["token", "address"],
+    ["amount", "uint"],
+    ["priorityFee", "uint"],
+    ["priority", "bool"],
+    ["nonce", "uint"],
+    ["executor", "address"],
+    ["signature", "hex"],
+  ],
+  goldenStaking: [
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["signature_EVVM", "hex"],
+  ],
+  presaleStaking: [
+    ["user", "address"],
+    ["isStaking", "bool"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  publicStaking: [
+    ["user", "address"],
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  publicServiceStaking: [
+    ["user", "address"],
+    ["service", "address"],
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  preRegistrationUsername: [
+    ["user", "address"],
+    ["hashPreRegisteredUsername", "hex"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  registrationUsername: [
+    ["user", "address"],
+    ["username", "string"],
+    ["clowNumber", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  makeOffer: [
+    ["user", "address"],
+    ["username", "string"],
+    ["expireDate", "uint"],
+    ["amount", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  withdrawOffer: [
+    ["user", "address"],
+    ["username", "string"],
+    ["offerID", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  acceptOffer: [
+    ["user", "address"],
+    ["username", "string"],
+    ["offerID", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  renewUsername: [
+    ["user", "address"],
+    ["username", "string"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  addCustomMetadata: [
+    ["user", "address"],
+    ["identity", "string"],
+    ["value", "string"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  removeCustomMetadata: [
+    ["user", "address"],
+    ["identity", "string"],
+    ["key", "uint"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  flushCustomMetadata: [
+    ["user", "address"],
+    ["identity", "string"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  flushUsername: [
+    ["user", "address"],
+    ["username", "string"],
+    ["nonce", "uint"],
+    ["signature", "hex"],
+    ...EVVM_PAYMENT,
+  ],
+  makeOrder: [
+    ["user", "address"],
+    [
+      "metadata",
+      {
+        object: [
+          ["nonce", "uint"],
+          ["tokenA", "address"],
+          ["tokenB", "address"],
+          ["amountA", "uint"],
+          ["amountB", "uint"],
+        ],
+      },
+    ],
+    ["signature", "hex"],
+    ...P2P_SWAP_PAYMENT,
+  ],
+  cancelOrder: [
+    ["user", "address"],
+    [
+      "metadata",
+      {
+        object: [
+          ["nonce", "uint"],
+          ["tokenA", "address"],
+          ["tokenB", "address"],
+          ["orderId", "uint"],
+          ["signature", "hex"],
+        ],
+      },
+    ],
+    ...P2P_SWAP_PAYMENT,
+  ],
+  dispatchOrderFillPropotionalFee: [
+    ["user", "address"],
+    ["metadata", { object: DISPATCH_ORDER_METADATA }],
+    ...P2P_SWAP_PAYMENT,
+  ],
+  dispatchOrderFillFixedFee: [
+    ["user", "address"],
+    ["metadata", { object: DISPATCH_ORDER_METADATA }],
+    ...P2P_SWAP_PAYMENT,
+    ["amountOut", "uint"],
+  ],
+};
+
+function isEvvmIntentAction(action: unknown): action is EvvmIntentAction {
+  return (
+    typeof action === "string" &&
+    Object.prototype.hasOwnProperty.call(PAYLOAD_LAYOUTS, action)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalidField(path: string, expected: string): EvvmIntentEnvelopeError {
+  return new EvvmIntentEnvelopeError(
+    "INVALID_FIELD",
+    `Invalid '${path}': expected ${expected}`,
+    path,
+  );
+}
+
+/**
+ * Converts a typed value to its wire form, checking its type on the way.
+ */
+function encodeField(
+  kind: FieldKind,
+  value: unknown,
+  path: string,
+  compact: boolean,
+): unknown {
+  if (typeof kind === "object") {
+    if ("list" in kind) {
+      if (!Array.isArray(value)) throw invalidField(path, "an array");
+      return value.map((item, index) =>
+        encodeLayout(kind.list, item, `${path}[${index}]`, compact),
+      );
+    }
+    return encodeLayout(kind.object, value, path, compact);
+  }
+
+  switch (kind) {
+    case "uint":
+      if (typeof value !== "bigint" || value < 0n) {
+        throw invalidField(path, "an unsigned bigint");
+      }
+      return value.toString();
+    case "bool":
+      if (typeof value !== "boolean") throw invalidField(path, "a boolean");
+      return value;
+    case "address":
+      if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+        throw invalidField(path, "an address");
+      }
+      return value;
+    case "hex":
+      if (typeof value !== "string" || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+        throw invalidField(path, "an even-length hex string");
+      }
+      return value;
+    case "string":
+      if (typeof value !== "string") throw invalidField(path, "a string");
+      return value;
+  }
+}
+
+function encodeLayout(
+  layout: FieldLayout,
+  value: unknown,
+  path: string,
+  compact: boolean,
+): unknown {
+  if (!isPlainObject(value)) throw invalidField(path, "an object");
+
+  const fields = layout.map(([name, kind]) => {
+    if (!(name in value)) {
+      throw new EvvmIntentEnvelopeError(
+        "MISSING_FIELD",
+        `Missing '${path}.${name}'`,
+        `${path}.${name}`,
+      );
+    }
+    return [name, encodeField(kind, value[name], `${path}.${name}`, compact)] as const;
+  });
+
+  return compact
+    ? fields.map(([, encoded]) => encoded)
+    : Object.fromEntries(fields);
+}
+
+/**
+ * Converts a wire value back to its typed form, rejecting anything unexpected.
+ */
+function decodeField(
+  kind: FieldKind,
+  wire: unknown,
+  path: string,
+  compact: boolean,
+): unknown {
+  if (typeof kind === "object") {
+    if ("list" in kind) {
+      if (!Array.isArray(wire)) throw invalidField(path, "an array");
+      return wire.map((item, index) =>
+        decodeLayout(kind.list, item, `${path}[${index}]`, compact),
+      );
+    }
+    return decodeLayout(kind.object, wire, path, compact);
+  }
+
+  switch (kind) {
+    case "uint":
+      if (typeof wire !== "string" || !/^(0|[1-9]\d*)$/.test(wire)) {
+        throw invalidField(path, "an unsigned decimal string");
+      }
+      return BigInt(wire);
+    case "bool":
+    case "address":
+    case "hex":
+    case "string":
+      // the wire form of these kinds is the value itself
+      return encodeField(kind, wire, path, compact);
+  }
+}
+
+function decodeLayout(
+  layout: FieldLayout,
+  wire: unknown,
+  path: string,
+  compact: boolean,
+): Record<string, unknown> {
+  if (compact) {
+    if (!Array.isArray(wire)) throw invalidField(path, "an array");
+    if (wire.length !== layout.length) {
+      throw invalidField(path, `${layout.length} fields, got ${wire.length}`);
+    }
+    return Object.fromEntries(
+      layout.map(([name, kind], index) => [
+        name,
+        decodeField(kind, wire[index], `${path}.${name}`, compact),
+      ]),
+    );
+  }
+
+  if (!isPlainObject(wire)) throw invalidField(path, "an object");
+
+  const known = new Set(layout.map(([name]) => name));
+  const unexpected = Object.keys(wire).find((name) => !known.has(name));
+  if (unexpected !== undefined) {
+    throw new EvvmIntentEnvelopeError(
+      "UNEXPECTED_FIELD",
+      `Unexpected '${path}.${unexpected}'`,
+      `${path}.${unexpected}`,
+    );
+  }
+
+  return Object.fromEntries(
+    layout.map(([name, kind]) => {
+      if (!(name in wire)) {
+        throw new EvvmIntentEnvelopeError(
+          "MISSING_FIELD",
+          `Missing '${path}.${name}'`,
+          `${path}.${name}`,
+        );
+      }
+      return [name, decodeField(kind, wire[name], `${path}.${name}`, compact)];
+    }),
+  );
+}
+
+function checkHeader(version: unknown, action: unknown, evvmID: unknown): void {
+  if (version !== EVVM_INTENT_ENVELOPE_VERSION) {
+    throw new EvvmIntentEnvelopeError(
+      "UNSUPPORTED_VERSION",
+      `Unsupported envelope version ${String(version)}, ` +
+        `expected ${EVVM_INTENT_ENVELOPE_VERSION}`,
+      "version",
+    );
+  }
+  if (!isEvvmIntentAction(action)) {
+    throw new EvvmIntentEnvelopeError(
+      "UNKNOWN_ACTION",
+      `Unknown intent action "${String(action)}"`,
+      "action",
+    );
+  }
+  if (typeof evvmID !== "string" || !/^(0|[1-9]\d*)$/.test(evvmID)) {
+    throw new EvvmIntentEnvelopeError(
+      "INVALID_EVVM_ID",
+      "Invalid evvmID: expected an unsigned decimal string",
+      "evvmID",
+    );
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new EvvmIntentEnvelopeError("MALFORMED_ENVELOPE", "Envelope is not valid JSON");
+  }
+}
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  try {
+    if (!/^[A-Za-z0-9_-]*$/.test(encoded)) throw new Error();
+    const binary = atob(
+      encoded.replace(/-/g, "+").replace(/_/g, "/") +
+        "=".repeat((4 - (encoded.length % 4)) % 4),
+    );
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    throw new EvvmIntentEnvelopeError(
+      "MALFORMED_ENVELOPE",
+      "Envelope is not valid base64url",
+    );
+  }
+}
+
+/**
+ * Serializes an envelope to its JSON form.
+ * @param envelope Action, evvmID and signed payload
+ * @returns JSON string with bigints as decimal strings
+ * @throws EvvmIntentEnvelopeError if the payload does not match the action layout
+ */
+function serializeEvvmIntent(envelope: EvvmIntentEnvelope): string {
+  checkHeader(envelope.version, envelope.action, envelope.evvmID?.toString());
+
+  return JSON.stringify({
+    version: envelope.version,
+    action: envelope.action,
+    evvmID: envelope.evvmID.toString(),
+    payload: encodeLayout(
+      PAYLOAD_LAYOUTS[envelope.action],
+      envelope.payload,
+      "payload",
+      false,
+    ),
+  });
+}
+
+/**
+ * Parses and validates the JSON form of an envelope.
+ * @param json JSON string produced by serializeEvvmIntent
+ * @returns Envelope with bigints restored
+ * @throws EvvmIntentEnvelopeError if the JSON is malformed, the version or action is
+ *   unknown, or a field is missing, unexpected or mistyped
+ */
+function deserializeEvvmIntent(json: string): EvvmIntentEnvelope {
+  const wire = parseJson(json);
+  if (!isPlainObject(wire)) {
+    throw new EvvmIntentEnvelopeError("MALFORMED_ENVELOPE", "Envelope is not an object");
+  }
+
+  const { version, action, evvmID, payload, ...rest } = wire;
+  const unexpected = Object.keys(rest)[0];
+  if (unexpected !== undefined) {
+    throw new EvvmIntentEnvelopeError(
+      "UNEXPECTED_FIELD",
+      `Unexpected '${unexpected}'`,
+      unexpected,
+    );
+  }
+  checkHeader(version, action, evvmID);
+
+  return {
+    version: EVVM_INTENT_ENVELOPE_VERSION,
+    action,
+    evvmID: BigInt(evvmID as string),
+    payload: decodeLayout(
+      PAYLOAD_LAYOUTS[action as EvvmIntentAction],
+      payload,
+      "payload",
+      false,
+    ),
+  } as EvvmIntentEnvelope;
+}
+
+/**
+ * Encodes an envelope to its compact base64url form.
+ * The payload is a positional array, so the form is only readable by the same version.
+ * @param envelope Action, evvmID and signed payload
+ * @returns URL-safe string, e.g. for QR codes or links
+ * @throws EvvmIntentEnvelopeError if the payload does not match the action layout
+ */
+function encodeEvvmIntent(envelope: EvvmIntentEnvelope): string {
+  checkHeader(envelope.version, envelope.action, envelope.evvmID?.toString());
+
+  return toBase64Url(
+    JSON.stringify([
+      envelope.version,
+      envelope.action,
+      envelope.evvmID.toString(),
+      encodeLayout(PAYLOAD_LAYOUTS[envelope.action], envelope.payload, "payload", true),
+    ]),
+  );
+}
+
+/**
+ * Decodes and validates the compact base64url form of an envelope.
+ * @param encoded String produced by encodeEvvmIntent
+ * @returns Envelope with bigints restored
+ * @throws EvvmIntentEnvelopeError if the encoding is malformed, the version or action
+ *   is unknown, or a field is missing or mistyped
+ */
+function decodeEvvmIntent(encoded: string): EvvmIntentEnvelope {
+  const wire = parseJson(fromBase64Url(encoded));
+  if (!Array.isArray(wire) || wire.length !== 4) {
+    throw new EvvmIntentEnvelopeError(
+      "MALFORMED_ENVELOPE",
+      "Compact envelope must be [version, action, evvmID, payload]",
+    );
+  }
+
+  const [version, action, evvmID, payload] = wire;
+  checkHeader(version, action, evvmID);
+
+  return {
+    version: EVVM_INTENT_ENVELOPE_VERSION,
+    action,
+    evvmID: BigInt(evvmID),
+    payload: decodeLayout(
+      PAYLOAD_LAYOUTS[action as EvvmIntentAction],
+      payload,
+      "payload",
+      true,
+    ),
+  } as EvvmIntentEnvelope;
+}
+
+export {
+  serializeEvvmIntent,
+  deserializeEvvmIntent,
+  encodeEvvmIntent,
+  decodeEvvmIntent,
+  isEvvmIntentAction,
+};
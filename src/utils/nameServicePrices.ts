@@ -0,0 +1,145 @@
+/**
+ * nameServicePrices
+ *
+ * Reads the principal token price NameService charges for each paid action,
+ * so the EVVM payment signed with the action matches what the contract pulls.
+ * A quote adds the priority fee to get the total debited from the signer.
+ */
+import { PublicClient } from "viem";
+import { NameServiceABI } from "../abi";
+
+/**
+ * NameService actions whose EVVM payment is a contract-defined price.
+ * - registrationUsername: getPriceOfRegistration(username)
+ * - renewUsername: seePriceToRenew(username)
+ * - addCustomMetadata: getPriceToAddCustomMetadata()
+ * - removeCustomMetadata: getPriceToRemoveCustomMetadata()
+ * - flushCustomMetadata: getPriceToFlushCustomMetadata(identity)
+ * - flushUsername: getPriceToFlushUsername(username)
+ */
+export type NameServicePricedAction =
+  | "registrationUsername"
+  | "renewUsername"
+  | "addCustomMetadata"
+  | "removeCustomMetadata"
+  | "flushCustomMetadata"
+  | "flushUsername";
+
+export type NameServicePriceQuote = {
+  action: NameServicePricedAction;
+  // username or identity the price applies to
+  identity: string;
+  // amount of the EVVM payment to NameService
+  price: bigint;
+  priorityFee_EVVM: bigint;
+  // price + priorityFee_EVVM, principal tokens debited from the signer
+  totalCost: bigint;
+};
+
+/**
+ * Builds a quote from a known price, e.g. one cached or provided by a backend.
+ * @param action Priced NameService action
+ * @param identity Username or identity the price applies to
+ * @param price Amount of the EVVM payment
+ * @param priorityFee_EVVM Priority fee of the EVVM payment
+ * @returns Price quote
+ */
+function quoteNameServiceAction(
+  action: NameServicePricedAction,
+  identity: string,
+  price: bigint,
+  priorityFee_EVVM: bigint,
+): NameServicePriceQuote {
+  return {
+    action,
+    identity,
+    price,
+    priorityFee_EVVM,
+    totalCost: price + priorityFee_EVVM,
+  };
+}
+
+/**
+ * Reads the current price of a NameService action.
+ * @param publicClient Public client used for the read
+ * @param nameServiceAddress NameService contract address
+ * @param action Priced NameService action
+ * @param identity Username or identity the price applies to
+ * @returns Promise resolving to the price in principal tokens
+ */
+async function fetchNameServicePrice(
+  publicClient: PublicClient,
+  nameServiceAddress: `0x${string}`,
+  action: NameServicePricedAction,
+  identity: string,
+): Promise<bigint> {
+  const contract = { address: nameServiceAddress, abi: NameServiceABI } as const;
+
+  switch (action) {
+    case "registrationUsername":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "getPriceOfRegistration",
+        args: [identity],
+      });
+    case "renewUsername":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "seePriceToRenew",
+        args: [identity],
+      });
+    case "addCustomMetadata":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "getPriceToAddCustomMetadata",
+      });
+    case "removeCustomMetadata":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "getPriceToRemoveCustomMetadata",
+      });
+    case "flushCustomMetadata":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "getPriceToFlushCustomMetadata",
+        args: [identity],
+      });
+    case "flushUsername":
+      return await publicClient.readContract({
+        ...contract,
+        functionName: "getPriceToFlushUsername",
+        args: [identity],
+      });
+  }
+}
+
+/**
+ * Reads the current price of a NameService action and quotes its total cost.
+ * @param publicClient Public client used for the read
+ * @param nameServiceAddress NameService contract address
+ * @param action Priced NameService action
+ * @param identity Username or identity the price applies to
+ * @param priorityFee_EVVM Priority fee of the EVVM payment
+ * @returns Promise resolving to the price quote
+ */
+async function fetchNameServicePriceQuote(
+  publicClient: PublicClient,
+  nameServiceAddress: `0x${string}`,
+  action: NameServicePricedAction,
+  identity: string,
+  priorityFee_EVVM: bigint,
+): Promise<NameServicePriceQuote> {
+  const price = await fetchNameServicePrice(
+    publicClient,
+    nameServiceAddress,
+    action,
+    identity,
+  );
+  return quoteNameServiceAction(action, identity, price, priorityFee_EVVM);
+}
+
+export {
+  quoteNameServiceAction,
+  fetchNameServicePrice,
+  fetchNameServicePriceQuote,
+};
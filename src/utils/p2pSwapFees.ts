@@ -0,0 +1,203 @@
+/**
+ * p2pSwapFees
+ *
+ * Offline, bigint-exact copy of the P2PSwap fill fee math.
+ * Gives takers the exact `amountOfTokenBToFill` to sign in the EVVM payment
+ * of dispatchOrder_fillPropotionalFee / dispatchOrder_fillFixedFee, and the
+ * matching `maxFillFixedFee` for the fixed fee variant.
+ * Percentages are basis points over 10_000, as in the contract.
+ */
+import { PublicClient } from "viem";
+import { P2PSwapABI } from "../abi";
+
+const BASIS_POINTS = 10_000n;
+
+export type P2PSwapRewardPercentage = {
+  seller: bigint;
+  service: bigint;
+  mateStaker: bigint;
+};
+
+export type P2PSwapFeeConfig = {
+  // getPercentageFee
+  percentageFee: bigint;
+  // getRewardPercentage
+  rewardPercentage: P2PSwapRewardPercentage;
+  // getMaxLimitFillFixedFee
+  maxLimitFillFixedFee: bigint;
+};
+
+export type P2PSwapFillQuote = {
+  // amountB of the order being filled
+  amountB: bigint;
+  // fee charged on top of amountB
+  fee: bigint;
+  // amount to sign in the EVVM payment of tokenB
+  amountOfTokenBToFill: bigint;
+  // lowest amount the contract accepts without reverting
+  minimumAmountOfTokenBToFill: bigint;
+  // value to send as maxFillFixedFee (fixed fee fills only)
+  maxFillFixedFee?: bigint;
+  // split of the fee between seller, service and staker executor
+  rewards: P2PSwapRewardPercentage;
+};
+
+/**
+ * Proportional fee of an amount: `amount * percentageFee / 10_000`.
+ * @param amount Order amountB
+ * @param percentageFee Fee in basis points
+ * @returns Fee, rounded down like the contract
+ */
+function calculateFillPropotionalFee(
+  amount: bigint,
+  percentageFee: bigint,
+): bigint {
+  return (amount * percentageFee) / BASIS_POINTS;
+}
+
+/**
+ * Fixed fee of an amount: the proportional fee capped at `maxFillFixedFee`.
+ * When capped, the contract tolerates paying up to 10% less (`fee10`).
+ * @param amount Order amountB
+ * @param percentageFee Fee in basis points
+ * @param maxFillFixedFee Cap of the fee
+ * @returns Fee and tolerated shortfall
+ */
+function calculateFillFixedFee(
+  amount: bigint,
+  percentageFee: bigint,
+  maxFillFixedFee: bigint,
+): { fee: bigint; fee10: bigint } {
+  const proportionalFee = calculateFillPropotionalFee(amount, percentageFee);
+
+  if (proportionalFee > maxFillFixedFee) {
+    return {
+      fee: maxFillFixedFee,
+      fee10: (maxFillFixedFee * 1_000n) / BASIS_POINTS,
+    };
+  }
+
+  return { fee: proportionalFee, fee10: 0n };
+}
+
+/**
+ * Splits a fee following the reward percentages.
+ * @param fee Fee paid by the taker
+ * @param rewardPercentage Seller, service and staker shares in basis points
+ * @returns Amount of the fee going to each party
+ */
+function splitP2PSwapFee(
+  fee: bigint,
+  rewardPercentage: P2PSwapRewardPercentage,
+): P2PSwapRewardPercentage {
+  return {
+    seller: (fee * rewardPercentage.seller) / BASIS_POINTS,
+    service: (fee * rewardPercentage.service) / BASIS_POINTS,
+    mateStaker: (fee * rewardPercentage.mateStaker) / BASIS_POINTS,
+  };
+}
+
+/**
+ * Quotes a fill of an order paying the proportional fee.
+ * @param amountB Order amountB
+ * @param config P2PSwap fee configuration
+ * @returns Fill quote
+ */
+function quoteFillPropotionalFee(
+  amountB: bigint,
+  config: P2PSwapFeeConfig,
+): P2PSwapFillQuote {
+  const fee = calculateFillPropotionalFee(amountB, config.percentageFee);
+
+  return {
+    amountB,
+    fee,
+    amountOfTokenBToFill: amountB + fee,
+    minimumAmountOfTokenBToFill: amountB + fee,
+    rewards: splitP2PSwapFee(fee, config.rewardPercentage),
+  };
+}
+
+/**
+ * Quotes a fill of an order paying the fixed fee.
+ * @param amountB Order amountB
+ * @param config P2PSwap fee configuration
+ * @param amountOut Fee cap accepted by the taker, defaults to getMaxLimitFillFixedFee
+ * @returns Fill quote, including the maxFillFixedFee to submit
+ * @throws Error if amountOut is above the contract limit
+ */
+function quoteFillFixedFee(
+  amountB: bigint,
+  config: P2PSwapFeeConfig,
+  amountOut: bigint = config.maxLimitFillFixedFee,
+): P2PSwapFillQuote {
+  if (amountOut > config.maxLimitFillFixedFee) {
+    throw new Error(
+      `amountOut ${amountOut} is above the P2PSwap limit of ${config.maxLimitFillFixedFee}`,
+    );
+  }
+
+  const { fee, fee10 } = calculateFillFixedFee(
+    amountB,
+    config.percentageFee,
+    amountOut,
+  );
+
+  return {
+    amountB,
+    fee,
+    amountOfTokenBToFill: amountB + fee,
+    minimumAmountOfTokenBToFill: amountB + fee - fee10,
+    maxFillFixedFee: amountOut,
+    rewards: splitP2PSwapFee(fee, config.rewardPercentage),
+  };
+}
+
+/**
+ * Reads the fee configuration of a P2PSwap contract.
+ * @param publicClient Public client used for the reads
+ * @param p2pSwapAddress P2PSwap contract address
+ * @returns Promise resolving to the fee configuration
+ */
+async function fetchP2PSwapFeeConfig(
+  publicClient: PublicClient,
+  p2pSwapAddress: `0x${string}`,
+): Promise<P2PSwapFeeConfig> {
+  const [percentageFee, rewardPercentage, maxLimitFillFixedFee] =
+    await Promise.all([
+      publicClient.readContract({
+        address: p2pSwapAddress,
+        abi: P2PSwapABI,
+        functionName: "getPercentageFee",
+      }),
+      publicClient.readContract({
+        address: p2pSwapAddress,
+        abi: P2PSwapABI,
+        functionName: "getRewardPercentage",
+      }),
+      publicClient.readContract({
+        address: p2pSwapAddress,
+        abi: P2PSwapABI,
+        functionName: "getMaxLimitFillFixedFee",
+      }),
+    ]);
+
+  return {
+    percentageFee,
+    rewardPercentage: {
+      seller: rewardPercentage.seller,
+      service: rewardPercentage.service,
+      mateStaker: rewardPercentage.mateStaker,
+    },
+    maxLimitFillFixedFee,
+  };
+}
+
+export {
+  calculateFillPropotionalFee,
+  calculateFillFixedFee,
+  splitP2PSwapFee,
+  quoteFillPropotionalFee,
+  quoteFillFixedFee,
+  fetchP2PSwapFeeConfig,
+};
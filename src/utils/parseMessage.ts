@@ -0,0 +1,275 @@
+/**
+ * parseMessage
+ *
+ * Reverse of constructMessage: turns a signed "<evvmID>,<functionName>,<inputs>"
+ * string back into a typed object with bigints, booleans and addresses restored.
+ * Used by fishers and support tooling that receive raw messages.
+ */
+import { isAddress } from "viem";
+import { EvvmMessageFunctionName, ParsedEvvmMessage } from "../types";
+
+/**
+ * Kinds of values found in the comma separated inputs of a message.
+ * - uint: decimal bigint
+ * - bool: "true" or "false"
+ * - address: 20 byte hex address
+ * - bytes32: 32 byte hex value (hashes)
+ * - string: plain string without commas (usernames, identities)
+ * - recipient: address or username (only used by pay)
+ * - text: free string that may contain commas, absorbs the extra fields
+ */
+type FieldKind =
+  | "uint"
+  | "bool"
+  | "address"
+  | "bytes32"
+  | "string"
+  | "recipient"
+  | "text";
+
+type FieldLayout = readonly (readonly [name: string, kind: FieldKind])[];
+
+export type EvvmMessageParseErrorCode =
+  | "EMPTY_MESSAGE"
+  | "MALFORMED_MESSAGE"
+  | "INVALID_EVVM_ID"
+  | "UNKNOWN_FUNCTION"
+  | "INVALID_FIELD_COUNT"
+  | "INVALID_FIELD";
+
+/**
+ * Error thrown when a message cannot be parsed.
+ * `code` identifies the failure, `functionName`/`field` point to the culprit when known.
+ */
+export class EvvmMessageParseError extends Error {
+  constructor(
+    public readonly code: EvvmMessageParseErrorCode,
+    message: string,
+    public readonly functionName?: string,
+    public readonly field?: string,
+  ) {
+    super(message);
+    this.name = "EvvmMessageParseError";
+  }
+}
+
+// Input layouts, in the same order used by the buildMessageSignedFor* functions
+const MESSAGE_LAYOUTS: Record<EvvmMessageFunctionName, FieldLayout> = {
+  pay: [
+    ["to", "recipient"],
+    ["tokenAddress", "address"],
+    ["amount", "uint"],
+    ["priorityFee", "uint"],
+    ["nonce", "uint"],
+    ["priorityFlag", "bool"],
+    ["executor", "address"],
+  ],
+  dispersePay: [
+    ["hashList", "bytes32"],
+    ["tokenAddress", "address"],
+    ["amount", "uint"],
+    ["priorityFee", "uint"],
+    ["nonce", "uint"],
+    ["priorityFlag", "bool"],
+    ["executor", "address"],
+  ],
+  publicStaking: [
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["nonce", "uint"],
+  ],
+  presaleStaking: [
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["nonce", "uint"],
+  ],
+  publicServiceStaking: [
+    ["serviceAddress", "address"],
+    ["isStaking", "bool"],
+    ["amountOfStaking", "uint"],
+    ["nonce", "uint"],
+  ],
+  preRegistrationUsername: [
+    ["hashUsername", "bytes32"],
+    ["nonce", "uint"],
+  ],
+  registrationUsername: [
+    ["username", "string"],
+    ["clowNumber", "uint"],
+    ["nonce", "uint"],
+  ],
+  makeOffer: [
+    ["username", "string"],
+    ["dateExpire", "uint"],
+    ["amount", "uint"],
+    ["nonce", "uint"],
+  ],
+  withdrawOffer: [
+    ["username", "string"],
+    ["offerId", "uint"],
+    ["nonce", "uint"],
+  ],
+  acceptOffer: [
+    ["username", "string"],
+    ["offerId", "uint"],
+    ["nonce", "uint"],
+  ],
+  renewUsername: [
+    ["username", "string"],
+    ["nonce", "uint"],
+  ],
+  addCustomMetadata: [
+    ["identity", "string"],
+    ["value", "text"],
+    ["nonce", "uint"],
+  ],
+  removeCustomMetadata: [
+    ["identity", "string"],
+    ["key", "uint"],
+    ["nonce", "uint"],
+  ],
+  flushCustomMetadata: [
+    ["identity", "string"],
+    ["nonce", "uint"],
+  ],
+  flushUsername: [
+    ["username", "string"],
+    ["nonce", "uint"],
+  ],
+  makeOrder: [
+    ["nonce", "uint"],
+    ["tokenA", "address"],
+    ["tokenB", "address"],
+    ["amountA", "uint"],
+    ["amountB", "uint"],
+  ],
+  cancelOrder: [
+    ["nonce", "uint"],
+    ["tokenA", "address"],
+    ["tokenB", "address"],
+    ["orderId", "uint"],
+  ],
+  dispatchOrder: [
+    ["nonce", "uint"],
+    ["tokenA", "address"],
+    ["tokenB", "address"],
+    ["orderId", "uint"],
+  ],
+};
+
+/**
+ * Checks whether a function name has a known message layout.
+ * @param functionName Function name found in a message
+ * @returns True if parseEvvmMessage can decode it
+ */
+function isEvvmMessageFunctionName(
+  functionName: string,
+): functionName is EvvmMessageFunctionName {
+  return Object.prototype.hasOwnProperty.call(MESSAGE_LAYOUTS, functionName);
+}
+
+function parseField(
+  functionName: string,
+  name: string,
+  kind: FieldKind,
+  raw: string,
+): unknown {
+  const invalid = (expected: string) =>
+    new EvvmMessageParseError(
+      "INVALID_FIELD",
+      `Invalid '${name}' in ${functionName} message: expected ${expected}, got "${raw}"`,
+      functionName,
+      name,
+    );
+
+  switch (kind) {
+    case "uint":
+      if (!/^\d+$/.test(raw)) throw invalid("an unsigned decimal integer");
+      return BigInt(raw);
+    case "bool":
+      if (raw !== "true" && raw !== "false") throw invalid('"true" or "false"');
+      return raw === "true";
+    case "address":
+      if (!isAddress(raw, { strict: false })) throw invalid("an address");
+      return raw as `0x${string}`;
+    case "bytes32":
+      if (!/^0x[0-9a-fA-F]{64}$/.test(raw)) throw invalid("a 32 byte hex value");
+      return raw as `0x${string}`;
+    case "recipient":
+      if (!raw || (raw.startsWith("0x") && !isAddress(raw, { strict: false })))
+        throw invalid("an address or a username");
+      return raw;
+    case "string":
+      if (!raw) throw invalid("a non-empty string");
+      return raw;
+    case "text":
+      return raw;
+  }
+}
+
+/**
+ * Parses a signed EVVM message back into its typed representation.
+ * @param message Message built by one of the buildMessageSignedFor* functions
+ * @returns Parsed message, discriminated by `functionName`
+ * @throws EvvmMessageParseError if the message is malformed, the function is unknown
+ *   or the number or format of the inputs does not match the expected layout
+ */
+function parseEvvmMessage(message: string): ParsedEvvmMessage {
+  if (typeof message !== "string" || message.length === 0) {
+    throw new EvvmMessageParseError("EMPTY_MESSAGE", "Message is empty");
+  }
+
+  const [rawEvvmID, functionName, ...inputs] = message.split(",");
+  if (functionName === undefined || inputs.length === 0) {
+    throw new EvvmMessageParseError(
+      "MALFORMED_MESSAGE",
+      `Message does not follow "<evvmID>,<functionName>,<inputs>": "${message}"`,
+    );
+  }
+
+  if (!/^\d+$/.test(rawEvvmID)) {
+    throw new EvvmMessageParseError(
+      "INVALID_EVVM_ID",
+      `Invalid evvmID "${rawEvvmID}": expected an unsigned decimal integer`,
+      functionName,
+    );
+  }
+
+  if (!isEvvmMessageFunctionName(functionName)) {
+    throw new EvvmMessageParseError(
+      "UNKNOWN_FUNCTION",
+      `Unknown EVVM message function "${functionName}"`,
+      functionName,
+    );
+  }
+
+  const layout = MESSAGE_LAYOUTS[functionName];
+  const textIndex = layout.findIndex(([, kind]) => kind === "text");
+  const extra = inputs.length - layout.length;
+
+  if (extra < 0 || (extra > 0 && textIndex === -1)) {
+    throw new EvvmMessageParseError(
+      "INVALID_FIELD_COUNT",
+      `${functionName} message expects ${layout.length} inputs, got ${inputs.length}`,
+      functionName,
+    );
+  }
+
+  const parsed: Record<string, unknown> = {
+    evvmID: BigInt(rawEvvmID),
+    functionName,
+  };
+
+  let cursor = 0;
+  layout.forEach(([name, kind], index) => {
+    // a text field takes every comma separated piece left over by the fixed fields
+    const width = index === textIndex ? extra + 1 : 1;
+    const raw = inputs.slice(cursor, cursor + width).join(",");
+    cursor += width;
+    parsed[name] = parseField(functionName, name, kind, raw);
+  });
+
+  return parsed as ParsedEvvmMessage;
+}
+
+export { parseEvvmMessage, isEvvmMessageFunctionName };
@@ -0,0 +1,248 @@
+/**
+ * validateNameService
+ *
+ * Client-side checks of NameService inputs, run before anything is signed.
+ * Format rules mirror the contract's `isValidUsername` (reverting with
+ * `InvalidUsername(0x01..0x03)`); availability and ownership are read from the
+ * contract when a public client is given. Issues carry a stable `code` and
+ * `params` so callers can localize them; `message` is an English default.
+ */
+import { PublicClient } from "viem";
+import { NameServiceABI } from "../abi";
+
+// Shortest username accepted by NameService
+const MIN_USERNAME_LENGTH = 4;
+
+export type NameServiceValidationCode =
+  | "USERNAME_TOO_SHORT"
+  | "USERNAME_INVALID_FIRST_CHARACTER"
+  | "USERNAME_INVALID_CHARACTER"
+  | "USERNAME_NOT_AVAILABLE"
+  | "IDENTITY_NOT_FOUND"
+  | "NOT_OWNER_OF_IDENTITY"
+  | "EMPTY_CUSTOM_METADATA";
+
+export type NameServiceValidationIssue = {
+  code: NameServiceValidationCode;
+  // input the issue refers to (username, identity, value)
+  field: string;
+  // values to interpolate in a localized message
+  params: Record<string, string | number>;
+  // English default message
+  message: string;
+};
+
+export type NameServiceValidationResult = {
+  valid: boolean;
+  issues: NameServiceValidationIssue[];
+};
+
+// On-chain checks run only when both are given
+export type NameServiceValidationOptions = {
+  publicClient?: PublicClient;
+  nameServiceAddress?: `0x${string}`;
+};
+
+/**
+ * Error thrown by assertNameServiceInput when validation fails.
+ * `code` is the first issue, `issues` lists all of them.
+ */
+export class NameServiceValidationError extends Error {
+  public readonly code: NameServiceValidationCode;
+
+  constructor(public readonly issues: NameServiceValidationIssue[]) {
+    super(issues.map((issue) => issue.message).join("; "));
+    this.name = "NameServiceValidationError";
+    this.code = issues[0].code;
+  }
+}
+
+function isLetter(char: string): boolean {
+  return (char >= "a" && char <= "z") || (char >= "A" && char <= "Z");
+}
+
+function isDigit(char: string): boolean {
+  return char >= "0" && char <= "9";
+}
+
+function result(issues: NameServiceValidationIssue[]): NameServiceValidationResult {
+  return { valid: issues.length === 0, issues };
+}
+
+function reader(
+  options: NameServiceValidationOptions,
+): { publicClient: PublicClient; address: `0x${string}` } | undefined {
+  if (!options.publicClient || !options.nameServiceAddress) return undefined;
+  return { publicClient: options.publicClient, address: options.nameServiceAddress };
+}
+
+/**
+ * Checks the username format rules of NameService, offline.
+ * A username has at least 4 ASCII characters, starts with a letter and only
+ * contains letters and digits.
+ * @param username Username to check
+ * @returns Validation result
+ */
+function validateUsernameFormat(username: string): NameServiceValidationResult {
+  const issues: NameServiceValidationIssue[] = [];
+
+  if (username.length < MIN_USERNAME_LENGTH) {
+    issues.push({
+      code: "USERNAME_TOO_SHORT",
+      field: "username",
+      params: { length: username.length, minLength: MIN_USERNAME_LENGTH },
+      message: `Username must have at least ${MIN_USERNAME_LENGTH} characters`,
+    });
+  }
+
+  if (username.length > 0 && !isLetter(username[0])) {
+    issues.push({
+      code: "USERNAME_INVALID_FIRST_CHARACTER",
+      field: "username",
+      params: { character: username[0] },
+      message: `Username must start with a letter, found "${username[0]}"`,
+    });
+  }
+
+  for (let index = 0; index < username.length; index++) {
+    const char = username[index];
+    if (!isLetter(char) && !isDigit(char)) {
+      issues.push({
+        code: "USERNAME_INVALID_CHARACTER",
+        field: "username",
+        params: { character: char, position: index },
+        message: `Username can only contain letters and digits, found "${char}" at position ${index}`,
+      });
+      break;
+    }
+  }
+
+  return result(issues);
+}
+
+/**
+ * Checks a username can be pre-registered and registered.
+ * Runs the format rules and, with a public client, `isUsernameAvailable`.
+ * @param username Username to register
+ * @param options Public client and NameService address for the on-chain check
+ * @returns Promise resolving to the validation result
+ */
+async function validateUsernameRegistration(
+  username: string,
+  options: NameServiceValidationOptions = {},
+): Promise<NameServiceValidationResult> {
+  const format = validateUsernameFormat(username);
+  const contract = reader(options);
+  if (!format.valid || !contract) return format;
+
+  const available = await contract.publicClient.readContract({
+    address: contract.address,
+    abi: NameServiceABI,
+    functionName: "isUsernameAvailable",
+    args: [username],
+  });
+
+  if (available) return format;
+
+  return result([
+    {
+      code: "USERNAME_NOT_AVAILABLE",
+      field: "username",
+      params: { username },
+      message: `Username "${username}" is already registered`,
+    },
+  ]);
+}
+
+/**
+ * Checks an identity exists and, when `owner` is given, that it belongs to `owner`.
+ * Used before offers (existence) and before renew, metadata and flush actions (ownership).
+ * Without a public client nothing can be checked and the result is valid.
+ * @param identity Username or identity
+ * @param owner Expected owner, omitted to only check existence
+ * @param options Public client and NameService address for the on-chain checks
+ * @returns Promise resolving to the validation result
+ */
+async function validateIdentity(
+  identity: string,
+  owner?: `0x${string}`,
+  options: NameServiceValidationOptions = {},
+): Promise<NameServiceValidationResult> {
+  const contract = reader(options);
+  if (!contract) return result([]);
+
+  const exists = await contract.publicClient.readContract({
+    address: contract.address,
+    abi: NameServiceABI,
+    functionName: "verifyIfIdentityExists",
+    args: [identity],
+  });
+
+  if (!exists) {
+    return result([
+      {
+        code: "IDENTITY_NOT_FOUND",
+        field: "identity",
+        params: { identity },
+        message: `Identity "${identity}" does not exist`,
+      },
+    ]);
+  }
+
+  if (!owner) return result([]);
+
+  const currentOwner = await contract.publicClient.readContract({
+    address: contract.address,
+    abi: NameServiceABI,
+    functionName: "getOwnerOfIdentity",
+    args: [identity],
+  });
+
+  if (currentOwner.toLowerCase() === owner.toLowerCase()) return result([]);
+
+  return result([
+    {
+      code: "NOT_OWNER_OF_IDENTITY",
+      field: "identity",
+      params: { identity, owner, currentOwner },
+      message: `Identity "${identity}" is owned by ${currentOwner}, not ${owner}`,
+    },
+  ]);
+}
+
+/**
+ * Checks a custom metadata value is not empty (`EmptyCustomMetadata`), offline.
+ * @param value Metadata value
+ * @returns Validation result
+ */
+function validateCustomMetadataValue(value: string): NameServiceValidationResult {
+  if (value.length > 0) return result([]);
+
+  return result([
+    {
+      code: "EMPTY_CUSTOM_METADATA",
+      field: "value",
+      params: {},
+      message: "Custom metadata value cannot be empty",
+    },
+  ]);
+}
+
+/**
+ * Throws when a validation result has issues.
+ * @param validation Result of any validate* function
+ * @throws NameServiceValidationError listing the issues
+ */
+function assertNameServiceInput(validation: NameServiceValidationResult): void {
+  if (!validation.valid) {
+    throw new NameServiceValidationError(validation.issues);
+  }
+}
+
+export {
+  validateUsernameFormat,
+  validateUsernameRegistration,
+  validateIdentity,
+  validateCustomMetadataValue,
+  assertNameServiceInput,
+};
@@ -0,0 +1,370 @@
+/**
+ * verifySignature
+ *
+ * Offline verification and signer recovery for every EVVM message.
+ * Each verifier rebuilds the exact message with the matching buildMessageSignedFor*
+ * function and recovers the EIP-191 signer, so invalid intents can be rejected
+ * before they reach the contracts.
+ */
+import { isAddressEqual, recoverMessageAddress } from "viem";
+import {
+  AcceptOfferMessage,
+  AddCustomMetadataMessage,
+  CancelOrderMessage,
+  DispatchOrderMessage,
+  DispersePayMessage,
+  DispersePayMetadata,
+  FlushCustomMetadataMessage,
+  FlushUsernameMessage,
+  MakeOfferMessage,
+  MakeOrderMessage,
+  ParsedEvvmMessage,
+  PayMessage,
+  PreRegistrationUsernameMessage,
+  PresaleStakingMessage,
+  PublicServiceStakingMessage,
+  PublicStakingMessage,
+  RegistrationUsernameMessage,
+  RemoveCustomMetadataMessage,
+  RenewUsernameMessage,
+  WithdrawOfferMessage,
+} from "../types";
+import {
+  buildMessageSignedForAcceptOffer,
+  buildMessageSignedForAddCustomMetadata,
+  buildMessageSignedForCancelOrder,
+  buildMessageSignedForDispatchOrder,
+  buildMessageSignedForDispersePay,
+  buildMessageSignedForFlushCustomMetadata,
+  buildMessageSignedForFlushUsername,
+  buildMessageSignedForMakeOffer,
+  buildMessageSignedForMakeOrder,
+  buildMessageSignedForPay,
+  buildMessageSignedForPreRegistrationUsername,
+  buildMessageSignedForPresaleStaking,
+  buildMessageSignedForPublicServiceStake,
+  buildMessageSignedForPublicStaking,
+  buildMessageSignedForRegistrationUsername,
+  buildMessageSignedForRemoveCustomMetadata,
+  buildMessageSignedForRenewUsername,
+  buildMessageSignedForWithdrawOffer,
+} from "./constructMessage";
+import { hashDispersePaymentUsersToPay } from "./hashTools";
+
+/**
+ * Parameters of a signed message: the parsed message without its function name.
+ */
+export type SignatureParams<T extends ParsedEvvmMessage> = Omit<T, "functionName">;
+
+export type PaySignatureParams = SignatureParams<PayMessage>;
+export type DispersePaySignatureParams = Omit<
+  SignatureParams<DispersePayMessage>,
+  "hashList"
+> & { toData: DispersePayMetadata[] };
+export type PublicStakingSignatureParams = SignatureParams<PublicStakingMessage>;
+export type PresaleStakingSignatureParams = SignatureParams<PresaleStakingMessage>;
+export type PublicServiceStakingSignatureParams =
+  SignatureParams<PublicServiceStakingMessage>;
+export type PreRegistrationUsernameSignatureParams =
+  SignatureParams<PreRegistrationUsernameMessage>;
+export type RegistrationUsernameSignatureParams =
+  SignatureParams<RegistrationUsernameMessage>;
+export type MakeOfferSignatureParams = SignatureParams<MakeOfferMessage>;
+export type WithdrawOfferSignatureParams = SignatureParams<WithdrawOfferMessage>;
+export type AcceptOfferSignatureParams = SignatureParams<AcceptOfferMessage>;
+export type RenewUsernameSignatureParams = SignatureParams<RenewUsernameMessage>;
+export type AddCustomMetadataSignatureParams =
+  SignatureParams<AddCustomMetadataMessage>;
+export type RemoveCustomMetadataSignatureParams =
+  SignatureParams<RemoveCustomMetadataMessage>;
+export type FlushCustomMetadataSignatureParams =
+  SignatureParams<FlushCustomMetadataMessage>;
+export type FlushUsernameSignatureParams = SignatureParams<FlushUsernameMessage>;
+export type MakeOrderSignatureParams = SignatureParams<MakeOrderMessage>;
+export type CancelOrderSignatureParams = SignatureParams<CancelOrderMessage>;
+export type DispatchOrderSignatureParams = SignatureParams<DispatchOrderMessage>;
+
+/**
+ * Recovers the EIP-191 signer of a raw EVVM message.
+ * @param message Message that was signed
+ * @param signature Signature of the message
+ * @returns Promise resolving to the signer address
+ */
+async function recoverEvvmMessageSigner(
+  message: string,
+  signature: `0x${string}`,
+): Promise<`0x${string}`> {
+  return await recoverMessageAddress({ message, signature });
+}
+
+/**
+ * Verifies that a raw EVVM message was signed by the expected address.
+ * Malformed signatures are reported as invalid instead of throwing.
+ * @param message Message that was signed
+ * @param signature Signature of the message
+ * @param expectedSigner Address expected to have signed the message
+ * @returns Promise resolving to true if the signer matches
+ */
+async function verifyEvvmMessageSignature(
+  message: string,
+  signature: `0x${string}`,
+  expectedSigner: `0x${string}`,
+): Promise<boolean> {
+  try {
+    const signer = await recoverEvvmMessageSigner(message, signature);
+    return isAddressEqual(signer, expectedSigner);
+  } catch {
+    return false;
+  }
+}
+
+// Builds the recover/verify pair for a message from its params
+function signatureChecks<P>(buildMessage: (params: P) => string) {
+  return {
+    recover: (params: P, signature: `0x${string}`) =>
+      recoverEvvmMessageSigner(buildMessage(params), signature),
+    verify: (
+      params: P,
+      signature: `0x${string}`,
+      expectedSigner: `0x${string}`,
+    ) =>
+      verifyEvvmMessageSignature(buildMessage(params), signature, expectedSigner),
+  };
+}
+
+/*
+┏━━━━━━━━━━━━━━━━┓
+ EVVM Signatures
+┗━━━━━━━━━━━━━━━━┛
+*/
+
+const payChecks = signatureChecks((p: PaySignatureParams) =>
+  buildMessageSignedForPay(
+    p.evvmID,
+    p.to,
+    p.tokenAddress,
+    p.amount,
+    p.priorityFee,
+    p.nonce,
+    p.priorityFlag,
+    p.executor,
+  ),
+);
+
+const dispersePayChecks = signatureChecks((p: DispersePaySignatureParams) =>
+  buildMessageSignedForDispersePay(
+    p.evvmID,
+    hashDispersePaymentUsersToPay(p.toData),
+    p.tokenAddress,
+    p.amount,
+    p.priorityFee,
+    p.nonce,
+    p.priorityFlag,
+    p.executor,
+  ),
+);
+
+/*
+┏━━━━━━━━━━━━━━━━━━━┓
+ staking Signatures
+┗━━━━━━━━━━━━━━━━━━━┛
+*/
+
+const publicStakingChecks = signatureChecks(
+  (p: PublicStakingSignatureParams) =>
+    buildMessageSignedForPublicStaking(
+      p.evvmID,
+      p.isStaking,
+      p.amountOfStaking,
+      p.nonce,
+    ),
+);
+
+const presaleStakingChecks = signatureChecks(
+  (p: PresaleStakingSignatureParams) =>
+    buildMessageSignedForPresaleStaking(
+      p.evvmID,
+      p.isStaking,
+      p.amountOfStaking,
+      p.nonce,
+    ),
+);
+
+const publicServiceStakingChecks = signatureChecks(
+  (p: PublicServiceStakingSignatureParams) =>
+    buildMessageSignedForPublicServiceStake(
+      p.evvmID,
+      p.serviceAddress,
+      p.isStaking,
+      p.amountOfStaking,
+      p.nonce,
+    ),
+);
+
+/*
+┏━━━━━━━━━━━━━━━━━━━━━━━━┓
+ Name service Signatures
+┗━━━━━━━━━━━━━━━━━━━━━━━━┛
+*/
+
+const preRegistrationUsernameChecks = signatureChecks(
+  (p: PreRegistrationUsernameSignatureParams) =>
+    buildMessageSignedForPreRegistrationUsername(
+      p.evvmID,
+      p.hashUsername,
+      p.nonce,
+    ),
+);
+
+const registrationUsernameChecks = signatureChecks(
+  (p: RegistrationUsernameSignatureParams) =>
+    buildMessageSignedForRegistrationUsername(
+      p.evvmID,
+      p.username,
+      p.clowNumber,
+      p.nonce,
+    ),
+);
+
+const makeOfferChecks = signatureChecks((p: MakeOfferSignatureParams) =>
+  buildMessageSignedForMakeOffer(
+    p.evvmID,
+    p.username,
+    p.dateExpire,
+    p.amount,
+    p.nonce,
+  ),
+);
+
+const withdrawOfferChecks = signatureChecks(
+  (p: WithdrawOfferSignatureParams) =>
+    buildMessageSignedForWithdrawOffer(p.evvmID, p.username, p.offerId, p.nonce),
+);
+
+const acceptOfferChecks = signatureChecks((p: AcceptOfferSignatureParams) =>
+  buildMessageSignedForAcceptOffer(p.evvmID, p.username, p.offerId, p.nonce),
+);
+
+const renewUsernameChecks = signatureChecks(
+  (p: RenewUsernameSignatureParams) =>
+    buildMessageSignedForRenewUsername(p.evvmID, p.username, p.nonce),
+);
+
+const addCustomMetadataChecks = signatureChecks(
+  (p: AddCustomMetadataSignatureParams) =>
+    buildMessageSignedForAddCustomMetadata(
+      p.evvmID,
+      p.identity,
+      p.value,
+      p.nonce,
+    ),
+);
+
+const removeCustomMetadataChecks = signatureChecks(
+  (p: RemoveCustomMetadataSignatureParams) =>
+    buildMessageSignedForRemoveCustomMetadata(
+      p.evvmID,
+      p.identity,
+      p.key,
+      p.nonce,
+    ),
+);
+
+const flushCustomMetadataChecks = signatureChecks(
+  (p: FlushCustomMetadataSignatureParams) =>
+    buildMessageSignedForFlushCustomMetadata(p.evvmID, p.identity, p.nonce),
+);
+
+const flushUsernameChecks = signatureChecks(
+  (p: FlushUsernameSignatureParams) =>
+    buildMessageSignedForFlushUsername(p.evvmID, p.username, p.nonce),
+);
+
+/*
+┏━━━━━━━━━━━━━━━━━━━━━━━━┓
+ P2P Swap Signatures
+┗━━━━━━━━━━━━━━━━━━━━━━━━┛
+*/
+
+const makeOrderChecks = signatureChecks((p: MakeOrderSignatureParams) =>
+  buildMessageSignedForMakeOrder(
+    p.evvmID,
+    p.nonce,
+    p.tokenA,
+    p.tokenB,
+    p.amountA,
+    p.amountB,
+  ),
+);
+
+const cancelOrderChecks = signatureChecks((p: CancelOrderSignatureParams) =>
+  buildMessageSignedForCancelOrder(
+    p.evvmID,
+    p.nonce,
+    p.tokenA,
+    p.tokenB,
+    p.orderId,
+  ),
+);
+
+const dispatchOrderChecks = signatureChecks(
+  (p: DispatchOrderSignatureParams) =>
+    buildMessageSignedForDispatchOrder(
+      p.evvmID,
+      p.nonce,
+      p.tokenA,
+      p.tokenB,
+      p.orderId,
+    ),
+);
+
+//・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈・┈┈
+
+export const verifyPaySignature = payChecks.verify;
+export const recoverSignerOfPay = payChecks.recover;
+export const verifyDispersePaySignature = dispersePayChecks.verify;
+export const recoverSignerOfDispersePay = dispersePayChecks.recover;
+export const verifyPublicStakingSignature = publicStakingChecks.verify;
+export const recoverSignerOfPublicStaking = publicStakingChecks.recover;
+export const verifyPresaleStakingSignature = presaleStakingChecks.verify;
+export const recoverSignerOfPresaleStaking = presaleStakingChecks.recover;
+export const verifyPublicServiceStakingSignature =
+  publicServiceStakingChecks.verify;
+export const recoverSignerOfPublicServiceStaking =
+  publicServiceStakingChecks.recover;
+export const verifyPreRegistrationUsernameSignature =
+  preRegistrationUsernameChecks.verify;
+export const recoverSignerOfPreRegistrationUsername =
+  preRegistrationUsernameChecks.recover;
+export const verifyRegistrationUsernameSignature =
+  registrationUsernameChecks.verify;
+export const recoverSignerOfRegistrationUsername =
+  registrationUsernameChecks.recover;
+export const verifyMakeOfferSignature = makeOfferChecks.verify;
+export const recoverSignerOfMakeOffer = makeOfferChecks.recover;
+export const verifyWithdrawOfferSignature = withdrawOfferChecks.verify;
+export const recoverSignerOfWithdrawOffer = withdrawOfferChecks.recover;
+export const verifyAcceptOfferSignature = acceptOfferChecks.verify;
+export const recoverSignerOfAcceptOffer = acceptOfferChecks.recover;
+export const verifyRenewUsernameSignature = renewUsernameChecks.verify;
+export const recoverSignerOfRenewUsername = renewUsernameChecks.recover;
+export const verifyAddCustomMetadataSignature = addCustomMetadataChecks.verify;
+export const recoverSignerOfAddCustomMetadata = addCustomMetadataChecks.recover;
+export const verifyRemoveCustomMetadataSignature =
+  removeCustomMetadataChecks.verify;
+export const recoverSignerOfRemoveCustomMetadata =
+  removeCustomMetadataChecks.recover;
+export const verifyFlushCustomMetadataSignature =
+  flushCustomMetadataChecks.verify;
+export const recoverSignerOfFlushCustomMetadata =
+  flushCustomMetadataChecks.recover;
+export const verifyFlushUsernameSignature = flushUsernameChecks.verify;
+export const recoverSignerOfFlushUsername = flushUsernameChecks.recover;
+export const verifyMakeOrderSignature = makeOrderChecks.verify;
+export const recoverSignerOfMakeOrder = makeOrderChecks.recover;
+export const verifyCancelOrderSignature = cancelOrderChecks.verify;
+export const recoverSignerOfCancelOrder = cancelOrderChecks.recover;
+export const verifyDispatchOrderSignature = dispatchOrderChecks.verify;
+export const recoverSignerOfDispatchOrder = dispatchOrderChecks.recover;
+
+export { recoverEvvmMessageSigner, verifyEvvmMessageSignature };